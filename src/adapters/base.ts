@@ -1,9 +1,16 @@
+import { normalizeProjectPath } from '../utils/scope.js';
+import type { ReferenceKind } from '../utils/references.js';
+
 /**
  * Base adapter interface for MCP-enabled tools
  * Each tool (Claude, Cline, Continue, Zed) implements this interface
  */
 
-export interface MCPServer {
+/**
+ * Local server launched as a subprocess and spoken to over stdin/stdout
+ */
+export interface StdioMCPServer {
+  type?: 'stdio';
   command: string;
   args?: string[];
   env?: Record<string, string>;
@@ -11,6 +18,72 @@ export interface MCPServer {
   [key: string]: any;
 }
 
+/**
+ * Remote server reached over HTTP. Tools spell the transport differently
+ * (`sse`, `http`, `streamable-http`, `streamableHttp`...), so `type` is kept
+ * as written; use getServerTransport() to compare transports.
+ */
+export interface RemoteMCPServer {
+  type?: string;
+  url: string;
+  headers?: Record<string, string>;
+  disabled?: boolean;
+  [key: string]: any;
+}
+
+export type MCPServer = StdioMCPServer | RemoteMCPServer;
+
+export type ServerTransport = 'stdio' | 'sse' | 'http';
+
+/**
+ * Checks whether a server is reached by URL rather than launched as a command
+ */
+export function isRemoteServer(server: MCPServer): server is RemoteMCPServer {
+  return !server.command && typeof server.url === 'string' && server.url !== '';
+}
+
+/**
+ * Checks whether a server ships with the tool itself (e.g. Goose's `builtin`
+ * extensions), so there is nothing to launch or connect to
+ */
+export function isBuiltinServer(server: MCPServer): boolean {
+  return !server.command && !isRemoteServer(server) && String(server.type || '').toLowerCase() === 'builtin';
+}
+
+/**
+ * Normalizes the transport of a server. Remote servers without an explicit
+ * SSE type are treated as streamable HTTP.
+ */
+export function getServerTransport(server: MCPServer): ServerTransport {
+  if (!isRemoteServer(server)) {
+    return 'stdio';
+  }
+  return String(server.type || '').toLowerCase().includes('sse') ? 'sse' : 'http';
+}
+
+/**
+ * Gets the host (and port) of a remote server's URL, or the raw URL if it can't be parsed
+ */
+export function getServerHost(server: RemoteMCPServer): string {
+  try {
+    return new URL(server.url).host || server.url;
+  } catch {
+    return server.url;
+  }
+}
+
+/**
+ * Short human-readable description of what a server runs or connects to:
+ * the command line for stdio servers, the host for remote servers
+ */
+export function describeServer(server: MCPServer): string {
+  if (isRemoteServer(server)) {
+    return getServerHost(server);
+  }
+  // Built-in servers (e.g. Goose's) have neither a command nor a URL
+  return [server.command, ...(server.args || [])].filter(Boolean).join(' ') || String(server.type || '');
+}
+
 export interface MCPConfig {
   enabled: Record<string, MCPServer>;
   disabled: Record<string, MCPServer>;
@@ -21,6 +94,14 @@ export interface MCPConfig {
   };
 }
 
+/**
+ * Configuration layers, from broadest to narrowest:
+ * - user: applies everywhere
+ * - project: shared project config (e.g. a checked-in .mcp.json)
+ * - local: private per-project settings (e.g. `projects[path]` in ~/.claude.json)
+ */
+export type ConfigScope = 'user' | 'project' | 'local';
+
 /**
  * Inheritance tracking for scoped configurations
  */
@@ -31,6 +112,8 @@ export interface ServerInheritance {
   overridden: string[];
   /** Servers added only at project level */
   additions: string[];
+  /** Layer each enabled server's definition comes from */
+  sources?: Record<string, ConfigScope>;
 }
 
 /**
@@ -38,7 +121,7 @@ export interface ServerInheritance {
  */
 export interface ScopedMCPConfig extends MCPConfig {
   inheritance?: ServerInheritance;
-  scope?: 'user' | 'project';
+  scope?: ConfigScope;
   projectPath?: string;
 }
 
@@ -49,6 +132,12 @@ export interface MCPAdapter {
   /** Short identifier (e.g., "claude", "cline", "continue") */
   readonly id: string;
 
+  /** Model profile whose context window usage is measured against unless --model is given */
+  readonly defaultModel: string;
+
+  /** Reference kinds (${env:}, ${file:}, ${cmd:}) the tool expands by itself */
+  readonly nativeReferenceKinds: ReferenceKind[];
+
   /** Detect if this tool is installed and configured */
   detect(): boolean;
 
@@ -91,14 +180,23 @@ export interface MCPAdapter {
   /** Check if this adapter supports project-level configuration */
   supportsProjectScope(): boolean;
 
-  /** Load project-level configuration (if supported) */
-  loadProjectConfig?(projectPath: string): MCPConfig | null;
+  /** Check if this adapter has a private per-project layer besides the shared project config */
+  supportsLocalScope(): boolean;
+
+  /** Check if a server enabled at user level can be switched off for a single project */
+  supportsDisablingInheritedServers(): boolean;
 
-  /** Save project-level configuration (if supported) */
-  saveProjectConfig?(projectPath: string, config: MCPConfig): void;
+  /** Load project-level configuration (if supported); `scope` picks the project or local layer */
+  loadProjectConfig?(projectPath: string, scope?: ConfigScope): MCPConfig | null;
+
+  /** Save project-level configuration (if supported); `scope` picks the project or local layer */
+  saveProjectConfig?(projectPath: string, config: MCPConfig, scope?: ConfigScope): void;
 
   /** Get merged configuration (user + project) with inheritance tracking */
-  getMergedConfig?(projectPath: string): ScopedMCPConfig;
+  getMergedConfig?(projectPath: string, scope?: ConfigScope): ScopedMCPConfig;
+
+  /** Find the nearest project directory (at or above startPath) with a project config */
+  detectProjectRoot?(startPath: string): string | null;
 }
 
 /**
@@ -107,6 +205,9 @@ export interface MCPAdapter {
 export abstract class BaseAdapter implements MCPAdapter {
   abstract readonly name: string;
   abstract readonly id: string;
+  readonly defaultModel: string = 'claude-sonnet';
+
+  readonly nativeReferenceKinds: ReferenceKind[] = [];
 
   abstract detect(): boolean;
   abstract getConfigPath(): string;
@@ -171,4 +272,141 @@ export abstract class BaseAdapter implements MCPAdapter {
   supportsProjectScope(): boolean {
     return false;
   }
+
+  supportsLocalScope(): boolean {
+    return false;
+  }
+
+  supportsDisablingInheritedServers(): boolean {
+    return true;
+  }
+
+  /**
+   * Merges a user-level and a project-level config with inheritance tracking.
+   * Project servers override user servers of the same name, and servers disabled
+   * at project level are removed from the merged enabled set.
+   *
+   * `layer` names the layer `projectConfig` comes from. Passing an already
+   * merged config as `userConfig` stacks a further layer on top (e.g. user,
+   * then project, then local), keeping the earlier inheritance and sources.
+   *
+   * Tools that cannot switch off user-level servers per project keep running
+   * them, so project-level entries disabling those are ignored.
+   */
+  protected mergeScopedConfigs(
+    userConfig: MCPConfig | ScopedMCPConfig,
+    projectConfig: MCPConfig | null,
+    projectPath: string,
+    layer: ConfigScope = 'project'
+  ): ScopedMCPConfig {
+    const baseInheritance = (userConfig as ScopedMCPConfig).inheritance;
+    const baseSources = baseInheritance?.sources || {};
+
+    if (!projectConfig) {
+      if (baseInheritance && (userConfig as ScopedMCPConfig).scope !== 'user') {
+        // Already merged with a lower layer; nothing to add
+        return userConfig as ScopedMCPConfig;
+      }
+
+      // No project config, return user config with scope info
+      const inherited = Object.keys(userConfig.enabled);
+      return {
+        ...userConfig,
+        scope: 'user',
+        inheritance: {
+          inherited,
+          overridden: [],
+          additions: [],
+          sources: Object.fromEntries(inherited.map(name => [name, 'user' as ConfigScope]))
+        }
+      };
+    }
+
+    const normalizedPath = normalizeProjectPath(projectPath);
+
+    // Get project disabled server names
+    const projectDisabledNames = Object.keys(projectConfig.disabled || {}).filter(name =>
+      this.supportsDisablingInheritedServers() || !userConfig.enabled[name]
+    );
+    const userEnabledNames = Object.keys(userConfig.enabled);
+    const projectEnabledNames = Object.keys(projectConfig.enabled);
+
+    const inheritance: ServerInheritance = {
+      inherited: [],
+      overridden: [],
+      additions: [],
+      sources: {}
+    };
+
+    // Build merged enabled servers
+    const mergedEnabled: Record<string, MCPServer> = {};
+
+    // 1. Start with user-level enabled servers (inherited)
+    for (const name of userEnabledNames) {
+      // Skip if disabled at project level
+      if (!projectDisabledNames.includes(name)) {
+        // Check if overridden by project
+        if (projectEnabledNames.includes(name)) {
+          // Overridden - use project config
+          mergedEnabled[name] = projectConfig.enabled[name];
+          inheritance.overridden.push(name);
+          inheritance.sources![name] = layer;
+        } else {
+          // Inherited from user (or kept as classified by a lower layer)
+          mergedEnabled[name] = userConfig.enabled[name];
+          if (baseInheritance?.overridden.includes(name)) {
+            inheritance.overridden.push(name);
+          } else if (baseInheritance?.additions.includes(name)) {
+            inheritance.additions.push(name);
+          } else {
+            inheritance.inherited.push(name);
+          }
+          inheritance.sources![name] = baseSources[name] || 'user';
+        }
+      }
+    }
+
+    // 2. Add project-only servers (additions)
+    for (const name of projectEnabledNames) {
+      if (!userEnabledNames.includes(name)) {
+        mergedEnabled[name] = projectConfig.enabled[name];
+        inheritance.additions.push(name);
+        inheritance.sources![name] = layer;
+      }
+    }
+
+    // Build merged disabled servers
+    const mergedDisabled: Record<string, MCPServer> = { ...userConfig.disabled };
+
+    // Add project-disabled servers to disabled list
+    for (const name of projectDisabledNames) {
+      // Get server config from project enabled (if it was there) or user enabled
+      if (projectConfig.enabled[name]) {
+        mergedDisabled[name] = projectConfig.enabled[name];
+      } else if (userConfig.enabled[name]) {
+        mergedDisabled[name] = userConfig.enabled[name];
+      } else {
+        mergedDisabled[name] = projectConfig.disabled[name];
+      }
+    }
+
+    // Servers disabled at user level but enabled for the project are enabled
+    for (const name of Object.keys(mergedEnabled)) {
+      delete mergedDisabled[name];
+    }
+
+    return {
+      enabled: mergedEnabled,
+      disabled: mergedDisabled,
+      metadata: {
+        ...userConfig.metadata,
+        tool: userConfig.metadata?.tool || this.id,
+        scope: 'project',
+        projectPath: normalizedPath
+      },
+      inheritance,
+      scope: 'project',
+      projectPath: normalizedPath
+    };
+  }
 }
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ClaudeAdapter } from './claude.js';
+
+// Claude Desktop config location (platform-aware)
+function getConfigPath(): string {
+  const configDir = process.platform === 'darwin'
+    ? 'Library/Application Support/Claude'
+    : process.platform === 'win32'
+    ? 'AppData/Roaming/Claude'
+    : '.config/Claude';
+  return path.join(os.homedir(), configDir, 'claude_desktop_config.json');
+}
+
+function getBackupDir(): string {
+  return path.join(os.homedir(), '.claude-mcp-backups', 'claude-desktop');
+}
+
+/**
+ * Adapter for the Claude Desktop app
+ * Manages claude_desktop_config.json, which uses the same `mcpServers` shape
+ * as ~/.claude.json, so enabling/disabling works exactly like Claude Code
+ * (disabled servers are kept in `_disabled_mcpServers`).
+ */
+export class ClaudeDesktopAdapter extends ClaudeAdapter {
+  readonly name: string = 'Claude Desktop';
+  readonly id: string = 'claude-desktop';
+
+  protected configPath: string = getConfigPath();
+  protected backupDir: string = getBackupDir();
+  protected backupPrefix: string = 'claude-desktop';
+
+  /**
+   * Claude Desktop only writes this file once the user opens its developer
+   * settings, so require it to exist and contain a JSON object
+   */
+  detect(): boolean {
+    if (!fs.existsSync(this.configPath)) {
+      return false;
+    }
+
+    try {
+      const config = JSON.parse(fs.readFileSync(this.configPath, 'utf-8'));
+      return typeof config === 'object' && config !== null && !Array.isArray(config);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Claude Desktop has no per-project configuration
+   */
+  supportsProjectScope(): boolean {
+    return false;
+  }
+
+  supportsLocalScope(): boolean {
+    return false;
+  }
+}
@@ -1,11 +1,16 @@
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
-import { BaseAdapter, type MCPConfig, type MCPServer, type ScopedMCPConfig, type ServerInheritance } from './base.js';
-import { normalizeProjectPath } from '../utils/scope.js';
+import { BaseAdapter, type ConfigScope, type MCPConfig, type MCPServer, type ScopedMCPConfig } from './base.js';
+import { findProjectFile, normalizeProjectPath } from '../utils/scope.js';
 
-const CONFIG_PATH = path.join(os.homedir(), '.claude.json');
-const BACKUP_DIR = path.join(os.homedir(), '.claude-mcp-backups');
+function getConfigPath(): string {
+  return path.join(os.homedir(), '.claude.json');
+}
+
+function getBackupDir(): string {
+  return path.join(os.homedir(), '.claude-mcp-backups');
+}
 
 interface ClaudeConfigFile {
   mcpServers: Record<string, MCPServer>;
@@ -14,58 +19,91 @@ interface ClaudeConfigFile {
   [key: string]: any;
 }
 
+/**
+ * Per-project entry in ~/.claude.json (Claude Code's "local" scope).
+ * Besides its own servers it holds the on/off state of the project's .mcp.json servers.
+ */
 interface ClaudeProjectConfig {
-  mcpServers: Record<string, MCPServer>;
+  mcpServers?: Record<string, MCPServer>;
   disabledMcpServers?: string[];
+  enabledMcpjsonServers?: string[];
+  disabledMcpjsonServers?: string[];
+  [key: string]: any;
+}
+
+/**
+ * Shared, checked-in .mcp.json at the project root (Claude Code's "project" scope)
+ */
+interface McpJsonFile {
+  mcpServers?: Record<string, MCPServer>;
   [key: string]: any;
 }
 
+// Shared project config, relative to the project root
+const PROJECT_CONFIG_FILE = '.mcp.json';
+
+function isSameServer(a: MCPServer | undefined, b: MCPServer | undefined): boolean {
+  return a !== undefined && b !== undefined && JSON.stringify(a) === JSON.stringify(b);
+}
+
 /**
  * Adapter for Claude Code
  * Manages ~/.claude.json configuration
+ *
+ * Claude Code has three scopes: user (top-level `mcpServers`), project (the
+ * shared .mcp.json at the repo root) and local (`projects[path]` in
+ * ~/.claude.json). Servers are only ever switched off in ~/.claude.json:
+ * .mcp.json servers through the project's `disabledMcpjsonServers` and
+ * `enabledMcpjsonServers` lists, everything else through `disabledMcpServers`,
+ * so the committed .mcp.json is only written when server definitions change.
  */
 export class ClaudeAdapter extends BaseAdapter {
-  readonly name = 'Claude Code';
-  readonly id = 'claude';
+  readonly name: string = 'Claude Code';
+  readonly id: string = 'claude';
+
+  // Allow overriding paths for testing and for the Claude Desktop subclass
+  protected configPath: string = getConfigPath();
+  protected backupDir: string = getBackupDir();
+  protected backupPrefix: string = 'claude';
 
   detect(): boolean {
-    return fs.existsSync(CONFIG_PATH);
+    return fs.existsSync(this.configPath);
   }
 
   getConfigPath(): string {
-    return CONFIG_PATH;
+    return this.configPath;
   }
 
   private ensureBackupDir(): void {
-    if (!fs.existsSync(BACKUP_DIR)) {
-      fs.mkdirSync(BACKUP_DIR, { recursive: true });
+    if (!fs.existsSync(this.backupDir)) {
+      fs.mkdirSync(this.backupDir, { recursive: true });
     }
   }
 
   createBackup(): string {
-    if (!fs.existsSync(CONFIG_PATH)) {
-      throw new Error(`Claude config not found at ${CONFIG_PATH}`);
+    if (!fs.existsSync(this.configPath)) {
+      throw new Error(`Claude config not found at ${this.configPath}`);
     }
 
     this.ensureBackupDir();
 
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const backupPath = path.join(BACKUP_DIR, `claude-${timestamp}.json`);
+    const backupPath = path.join(this.backupDir, `${this.backupPrefix}-${timestamp}.json`);
 
-    fs.copyFileSync(CONFIG_PATH, backupPath);
+    fs.copyFileSync(this.configPath, backupPath);
 
     return backupPath;
   }
 
   loadConfig(): MCPConfig {
-    if (!fs.existsSync(CONFIG_PATH)) {
+    if (!fs.existsSync(this.configPath)) {
       throw new Error(
-        `Claude config not found at ${CONFIG_PATH}\n` +
-        'Make sure Claude Code is installed and you have run it at least once.'
+        `Claude config not found at ${this.configPath}\n` +
+        `Make sure ${this.name} is installed and you have run it at least once.`
       );
     }
 
-    const raw = fs.readFileSync(CONFIG_PATH, 'utf-8');
+    const raw = fs.readFileSync(this.configPath, 'utf-8');
 
     try {
       const claudeConfig: ClaudeConfigFile = JSON.parse(raw);
@@ -75,7 +113,7 @@ export class ClaudeAdapter extends BaseAdapter {
         enabled: claudeConfig.mcpServers || {},
         disabled: claudeConfig._disabled_mcpServers || {},
         metadata: {
-          tool: 'claude',
+          tool: this.id,
           originalFormat: true
         }
       };
@@ -90,7 +128,7 @@ export class ClaudeAdapter extends BaseAdapter {
 
     try {
       // Read existing config to preserve other fields
-      const existingRaw = fs.readFileSync(CONFIG_PATH, 'utf-8');
+      const existingRaw = fs.readFileSync(this.configPath, 'utf-8');
       const existingConfig: ClaudeConfigFile = JSON.parse(existingRaw);
 
       // Update MCP server sections
@@ -105,10 +143,10 @@ export class ClaudeAdapter extends BaseAdapter {
 
       // Write back to file
       const jsonString = JSON.stringify(existingConfig, null, 2);
-      fs.writeFileSync(CONFIG_PATH, jsonString, 'utf-8');
+      fs.writeFileSync(this.configPath, jsonString, 'utf-8');
     } catch (error) {
       // If write fails, restore from backup
-      fs.copyFileSync(backupPath, CONFIG_PATH);
+      fs.copyFileSync(backupPath, this.configPath);
       throw new Error(`Failed to save config (restored from backup): ${error}`);
     }
   }
@@ -117,45 +155,72 @@ export class ClaudeAdapter extends BaseAdapter {
     return true;
   }
 
-  loadProjectConfig(projectPath: string): MCPConfig | null {
-    if (!fs.existsSync(CONFIG_PATH)) {
+  supportsLocalScope(): boolean {
+    return true;
+  }
+
+  detectProjectRoot(startPath: string): string | null {
+    return findProjectFile(startPath, PROJECT_CONFIG_FILE);
+  }
+
+  private readClaudeConfig(): ClaudeConfigFile {
+    return JSON.parse(fs.readFileSync(this.configPath, 'utf-8'));
+  }
+
+  private readMcpJson(projectPath: string): McpJsonFile | null {
+    const mcpJsonPath = path.join(projectPath, PROJECT_CONFIG_FILE);
+    if (!fs.existsSync(mcpJsonPath)) {
       return null;
     }
+    return JSON.parse(fs.readFileSync(mcpJsonPath, 'utf-8'));
+  }
 
+  /**
+   * Loads one project-level layer: the shared .mcp.json (`project`, the default)
+   * or the private `projects[path]` entry in ~/.claude.json (`local`).
+   * Disabled servers are listed in both layers, since Claude keeps that state
+   * in ~/.claude.json for either kind of server.
+   */
+  loadProjectConfig(projectPath: string, scope: ConfigScope = 'project'): MCPConfig | null {
     try {
-      const raw = fs.readFileSync(CONFIG_PATH, 'utf-8');
-      const claudeConfig: ClaudeConfigFile = JSON.parse(raw);
-
       const normalizedPath = normalizeProjectPath(projectPath);
-      const projectConfig = claudeConfig.projects?.[normalizedPath];
+      const claudeConfig: ClaudeConfigFile = fs.existsSync(this.configPath) ? this.readClaudeConfig() : { mcpServers: {} };
+      const localConfig = claudeConfig.projects?.[normalizedPath];
+      const mcpJson = this.readMcpJson(normalizedPath);
 
-      if (!projectConfig) {
+      if (scope === 'local' ? !localConfig : !mcpJson) {
         return null;
       }
 
-      // Convert project config format to MCPConfig
-      // Project config: mcpServers: {} + disabledMcpServers: []
-      // We need to convert disabledMcpServers array to disabled object
+      const mcpJsonServers = mcpJson?.mcpServers || {};
+      const localServers = localConfig?.mcpServers || {};
+      const layerServers = scope === 'local' ? localServers : mcpJsonServers;
+
+      // .mcp.json servers are switched off by their own list, everything else by disabledMcpServers
+      const disabledNames = [
+        ...(localConfig?.disabledMcpServers || []),
+        ...(localConfig?.disabledMcpjsonServers || []).filter(name => mcpJsonServers[name])
+      ].filter((name, index, all) => all.indexOf(name) === index);
+
+      const enabled: Record<string, MCPServer> = {};
+      for (const [name, server] of Object.entries(layerServers)) {
+        if (!disabledNames.includes(name)) {
+          enabled[name] = server;
+        }
+      }
+
+      // Disabled servers are tracked by name only, so take their definition from
+      // the narrowest layer that has one. Names no layer defines are left out
+      // (and kept on save).
       const disabled: Record<string, MCPServer> = {};
-      const disabledNames = projectConfig.disabledMcpServers || [];
-
-      // For disabled servers, we need to get their config from user-level or from enabled
-      // If they're in the enabled list, move them to disabled
-      const enabled = { ...projectConfig.mcpServers };
-      
-      // Note: Project-level disabled servers are tracked by name only
-      // They might exist in user-level config, but we'll track them as disabled
       for (const name of disabledNames) {
-        // If the server exists in enabled, move it to disabled
-        if (enabled[name]) {
-          disabled[name] = enabled[name];
-          delete enabled[name];
-        } else {
-          // Create a placeholder - the actual config will come from user-level if it exists
-          disabled[name] = {
-            command: '',
-            // This will be merged with user-level config in getMergedConfig
-          };
+        const server = layerServers[name]
+          || localServers[name]
+          || mcpJsonServers[name]
+          || claudeConfig.mcpServers?.[name]
+          || claudeConfig._disabled_mcpServers?.[name];
+        if (server) {
+          disabled[name] = server;
         }
       }
 
@@ -164,7 +229,7 @@ export class ClaudeAdapter extends BaseAdapter {
         disabled,
         metadata: {
           tool: 'claude',
-          scope: 'project',
+          scope,
           projectPath: normalizedPath
         }
       };
@@ -173,137 +238,141 @@ export class ClaudeAdapter extends BaseAdapter {
     }
   }
 
-  saveProjectConfig(projectPath: string, config: MCPConfig): void {
-    if (!fs.existsSync(CONFIG_PATH)) {
-      throw new Error(`Claude config not found at ${CONFIG_PATH}`);
+  /**
+   * Saves one project-level layer. New or changed server definitions go to that
+   * layer's file; enabled/disabled state always goes to `projects[path]`.
+   * Existing .mcp.json definitions are never removed.
+   */
+  saveProjectConfig(projectPath: string, config: MCPConfig, scope: ConfigScope = 'project'): void {
+    if (!fs.existsSync(this.configPath)) {
+      throw new Error(`Claude config not found at ${this.configPath}`);
     }
 
-    // Create backup before modifying
+    const normalizedPath = normalizeProjectPath(projectPath);
+    const mcpJsonPath = path.join(normalizedPath, PROJECT_CONFIG_FILE);
+
+    // Create backups before modifying
     const backupPath = this.createBackup();
+    const mcpJsonBackupPath = fs.existsSync(mcpJsonPath)
+      ? path.join(this.backupDir, path.basename(backupPath).replace(`${this.backupPrefix}-`, `${this.backupPrefix}-mcp-json-`))
+      : null;
+    if (mcpJsonBackupPath) {
+      fs.copyFileSync(mcpJsonPath, mcpJsonBackupPath);
+    }
 
     try {
-      const raw = fs.readFileSync(CONFIG_PATH, 'utf-8');
-      const claudeConfig: ClaudeConfigFile = JSON.parse(raw);
+      const claudeConfig = this.readClaudeConfig();
+      const localConfig: ClaudeProjectConfig = { ...claudeConfig.projects?.[normalizedPath] };
+      const mcpJson: McpJsonFile = this.readMcpJson(normalizedPath) || {};
+      const mcpJsonServers = mcpJson.mcpServers || {};
+
+      // Definitions this layer would otherwise inherit from the layers below it
+      const inherited: Record<string, MCPServer> = scope === 'local'
+        ? { ...claudeConfig.mcpServers, ...mcpJsonServers }
+        : { ...claudeConfig.mcpServers };
+      const existingLayer = scope === 'local' ? localConfig.mcpServers || {} : mcpJsonServers;
+
+      const knownLayers = [claudeConfig.mcpServers || {}, claudeConfig._disabled_mcpServers || {}, mcpJsonServers, localConfig.mcpServers || {}];
+
+      // Servers already defined elsewhere need no definition here
+      const needsDefinition = (name: string, server: MCPServer, isEnabled: boolean) => {
+        if (existingLayer[name]) {
+          return true;
+        }
+        // Private local servers are never copied into the committed .mcp.json
+        if (scope === 'project' && isSameServer(server, localConfig.mcpServers?.[name])) {
+          return false;
+        }
+        return isEnabled
+          ? !isSameServer(server, inherited[name])
+          : !knownLayers.some(layer => isSameServer(server, layer[name]));
+      };
 
-      const normalizedPath = normalizeProjectPath(projectPath);
+      const layerServers: Record<string, MCPServer> = scope === 'local' ? {} : { ...mcpJsonServers };
+      for (const [name, server] of Object.entries(config.disabled)) {
+        if (needsDefinition(name, server, false)) {
+          layerServers[name] = server;
+        }
+      }
+      for (const [name, server] of Object.entries(config.enabled)) {
+        if (needsDefinition(name, server, true)) {
+          layerServers[name] = server;
+        }
+      }
 
-      // Initialize projects object if it doesn't exist
-      if (!claudeConfig.projects) {
-        claudeConfig.projects = {};
+      // Keep the existing server order; new definitions are appended
+      const orderedServers: Record<string, MCPServer> = {};
+      for (const name of [...Object.keys(existingLayer), ...Object.keys(layerServers)]) {
+        if (layerServers[name] && !orderedServers[name]) {
+          orderedServers[name] = layerServers[name];
+        }
       }
 
-      // Convert MCPConfig to project config format
-      // Project format: mcpServers: {} + disabledMcpServers: []
-      const disabledNames = Object.keys(config.disabled || {});
-      const projectConfig: ClaudeProjectConfig = {
-        mcpServers: config.enabled,
-      };
+      const localServers = scope === 'local' ? orderedServers : localConfig.mcpServers || {};
+      const projectServers = scope === 'local' ? mcpJsonServers : orderedServers;
+      const isMcpJsonServer = (name: string) => projectServers[name] !== undefined && localServers[name] === undefined;
 
-      // Add disabledMcpServers if there are any
-      if (disabledNames.length > 0) {
-        projectConfig.disabledMcpServers = disabledNames;
-      }
+      const disabledNames = Object.keys(config.disabled);
+      const previouslyDisabled = localConfig.disabledMcpjsonServers || [];
 
-      claudeConfig.projects[normalizedPath] = projectConfig;
+      // Names disabled ahead of any definition were not loaded, so carry them over
+      const undefinedNames = (localConfig.disabledMcpServers || []).filter(name =>
+        !config.enabled[name] && !config.disabled[name] && !knownLayers.some(layer => layer[name])
+      );
 
-      // Write back to file
-      const jsonString = JSON.stringify(claudeConfig, null, 2);
-      fs.writeFileSync(CONFIG_PATH, jsonString, 'utf-8');
+      localConfig.mcpServers = localServers;
+      this.setNameList(localConfig, 'disabledMcpServers', [
+        ...disabledNames.filter(name => !isMcpJsonServer(name)),
+        ...undefinedNames
+      ]);
+      this.setNameList(localConfig, 'disabledMcpjsonServers', disabledNames.filter(isMcpJsonServer));
+      // Re-enabling a .mcp.json server approves it explicitly
+      this.setNameList(localConfig, 'enabledMcpjsonServers', [
+        ...(localConfig.enabledMcpjsonServers || []).filter(name => !disabledNames.includes(name)),
+        ...Object.keys(config.enabled).filter(name => isMcpJsonServer(name) && previouslyDisabled.includes(name))
+      ]);
+
+      claudeConfig.projects = { ...claudeConfig.projects, [normalizedPath]: localConfig };
+      fs.writeFileSync(this.configPath, JSON.stringify(claudeConfig, null, 2), 'utf-8');
+
+      // Only touch the committed .mcp.json when a definition actually changed
+      if (scope === 'project' && JSON.stringify(projectServers) !== JSON.stringify(mcpJsonServers)) {
+        fs.writeFileSync(mcpJsonPath, JSON.stringify({ ...mcpJson, mcpServers: projectServers }, null, 2) + '\n', 'utf-8');
+      }
     } catch (error) {
       // If write fails, restore from backup
-      fs.copyFileSync(backupPath, CONFIG_PATH);
+      fs.copyFileSync(backupPath, this.configPath);
+      if (mcpJsonBackupPath) {
+        fs.copyFileSync(mcpJsonBackupPath, mcpJsonPath);
+      }
       throw new Error(`Failed to save project config (restored from backup): ${error}`);
     }
   }
 
-  getMergedConfig(projectPath: string): ScopedMCPConfig {
-    const userConfig = this.loadConfig();
-    const projectConfig = this.loadProjectConfig(projectPath);
-
-    if (!projectConfig) {
-      // No project config, return user config with scope info
-      return {
-        ...userConfig,
-        scope: 'user',
-        inheritance: {
-          inherited: Object.keys(userConfig.enabled),
-          overridden: [],
-          additions: []
-        }
-      };
-    }
-
-    const normalizedPath = normalizeProjectPath(projectPath);
-
-    // Get project disabled server names (array format)
-    const projectDisabledNames = Object.keys(projectConfig.disabled || {});
-    const userEnabledNames = Object.keys(userConfig.enabled);
-    const projectEnabledNames = Object.keys(projectConfig.enabled);
-
-    const inheritance: ServerInheritance = {
-      inherited: [],
-      overridden: [],
-      additions: []
-    };
-
-    // Build merged enabled servers
-    const mergedEnabled: Record<string, MCPServer> = {};
-
-    // 1. Start with user-level enabled servers (inherited)
-    for (const name of userEnabledNames) {
-      // Skip if disabled at project level
-      if (!projectDisabledNames.includes(name)) {
-        // Check if overridden by project
-        if (projectEnabledNames.includes(name)) {
-          // Overridden - use project config
-          mergedEnabled[name] = projectConfig.enabled[name];
-          inheritance.overridden.push(name);
-        } else {
-          // Inherited from user
-          mergedEnabled[name] = userConfig.enabled[name];
-          inheritance.inherited.push(name);
-        }
-      }
-    }
-
-    // 2. Add project-only servers (additions)
-    for (const name of projectEnabledNames) {
-      if (!userEnabledNames.includes(name)) {
-        mergedEnabled[name] = projectConfig.enabled[name];
-        inheritance.additions.push(name);
-      }
-    }
-
-    // Build merged disabled servers
-    const mergedDisabled: Record<string, MCPServer> = { ...userConfig.disabled };
-
-    // Add project-disabled servers to disabled list
-    for (const name of projectDisabledNames) {
-      // Get server config from project enabled (if it was there) or user enabled
-      if (projectConfig.enabled[name]) {
-        mergedDisabled[name] = projectConfig.enabled[name];
-      } else if (userConfig.enabled[name]) {
-        mergedDisabled[name] = userConfig.enabled[name];
-      } else {
-        // Server was disabled by name only, use placeholder
-        mergedDisabled[name] = {
-          command: '',
-        };
-      }
+  /**
+   * Sets a server name list on a project entry, dropping duplicates.
+   * An empty list is removed unless the entry already had that key.
+   */
+  private setNameList(localConfig: ClaudeProjectConfig, key: string, names: string[]): void {
+    const unique = names.filter((name, index, all) => all.indexOf(name) === index);
+    if (unique.length > 0 || key in localConfig) {
+      localConfig[key] = unique;
     }
+  }
 
-    return {
-      enabled: mergedEnabled,
-      disabled: mergedDisabled,
-      metadata: {
-        ...userConfig.metadata,
-        tool: userConfig.metadata?.tool || 'claude',
-        scope: 'project',
-        projectPath: normalizedPath
-      },
-      inheritance,
-      scope: 'project',
-      projectPath: normalizedPath
-    };
+  /**
+   * Merges all three layers (user, then .mcp.json, then local), with
+   * `inheritance.sources` recording the layer of each enabled server
+   */
+  getMergedConfig(projectPath: string, scope: ConfigScope = 'project'): ScopedMCPConfig {
+    const withProject = this.mergeScopedConfigs(
+      this.loadConfig(),
+      this.loadProjectConfig(projectPath, 'project'),
+      projectPath,
+      'project'
+    );
+    const merged = this.mergeScopedConfigs(withProject, this.loadProjectConfig(projectPath, 'local'), projectPath, 'local');
+
+    return merged.scope === 'user' ? merged : { ...merged, scope };
   }
 }
@@ -2,17 +2,17 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import { BaseAdapter, type MCPConfig, type MCPServer } from './base.js';
+import { splitByDisabledFlag, mergeWithDisabledFlag } from './disabled-flag.js';
+import { getVSCodeUserDir, getVSCodeExtensionStorageDir } from '../utils/vscode.js';
 
 // VS Code user settings location
-const VSCODE_CONFIG_DIR = path.join(
-  os.homedir(),
-  process.platform === 'darwin'
-    ? 'Library/Application Support/Code/User'
-    : process.platform === 'win32'
-    ? 'AppData/Roaming/Code/User'
-    : '.config/Code/User'
+const CONFIG_PATH = path.join(getVSCodeUserDir(), 'settings.json');
+// Cline's own MCP settings file (written by the extension itself)
+const NATIVE_CONFIG_PATH = path.join(
+  getVSCodeExtensionStorageDir('saoudrizwan.claude-dev'),
+  'settings',
+  'cline_mcp_settings.json'
 );
-const CONFIG_PATH = path.join(VSCODE_CONFIG_DIR, 'settings.json');
 const BACKUP_DIR = path.join(os.homedir(), '.claude-mcp-backups', 'cline');
 
 interface VSCodeSettings {
@@ -21,21 +21,51 @@ interface VSCodeSettings {
   [key: string]: any;
 }
 
+interface ClineMcpSettings {
+  mcpServers: Record<string, MCPServer>;
+  [key: string]: any;
+}
+
 /**
  * Adapter for Cline (VS Code extension)
- * Manages VS Code settings.json configuration
+ *
+ * Prefers Cline's native cline_mcp_settings.json in VS Code globalStorage, where
+ * servers are toggled with the per-server `disabled: true` flag (so Cline shows
+ * them as disabled). Falls back to the `cline.mcpServers` keys in VS Code
+ * settings.json when the native file does not exist.
  */
 export class ClineAdapter extends BaseAdapter {
   readonly name = 'Cline';
   readonly id = 'cline';
 
+  // Allow overriding paths for testing
+  protected settingsPath: string = CONFIG_PATH;
+  protected nativeConfigPath: string = NATIVE_CONFIG_PATH;
+  protected backupDir: string = BACKUP_DIR;
+
+  /**
+   * Whether Cline's own settings file is present and should be used
+   */
+  private usesNativeSettings(): boolean {
+    return fs.existsSync(this.nativeConfigPath);
+  }
+
   detect(): boolean {
-    if (!fs.existsSync(CONFIG_PATH)) {
+    if (this.usesNativeSettings()) {
+      try {
+        const settings: ClineMcpSettings = JSON.parse(fs.readFileSync(this.nativeConfigPath, 'utf-8'));
+        return 'mcpServers' in settings;
+      } catch {
+        return false;
+      }
+    }
+
+    if (!fs.existsSync(this.settingsPath)) {
       return false;
     }
 
     try {
-      const settings: VSCodeSettings = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
+      const settings: VSCodeSettings = JSON.parse(fs.readFileSync(this.settingsPath, 'utf-8'));
       // Check if Cline MCP servers are configured
       return 'cline.mcpServers' in settings || 'cline._disabled_mcpServers' in settings;
     } catch {
@@ -44,39 +74,44 @@ export class ClineAdapter extends BaseAdapter {
   }
 
   getConfigPath(): string {
-    return CONFIG_PATH;
+    return this.usesNativeSettings() ? this.nativeConfigPath : this.settingsPath;
   }
 
   private ensureBackupDir(): void {
-    if (!fs.existsSync(BACKUP_DIR)) {
-      fs.mkdirSync(BACKUP_DIR, { recursive: true });
+    if (!fs.existsSync(this.backupDir)) {
+      fs.mkdirSync(this.backupDir, { recursive: true });
     }
   }
 
   createBackup(): string {
-    if (!fs.existsSync(CONFIG_PATH)) {
-      throw new Error(`VS Code settings not found at ${CONFIG_PATH}`);
+    const configPath = this.getConfigPath();
+    if (!fs.existsSync(configPath)) {
+      throw new Error(`Cline settings not found at ${configPath}`);
     }
 
     this.ensureBackupDir();
 
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const backupPath = path.join(BACKUP_DIR, `cline-${timestamp}.json`);
+    const backupPath = path.join(this.backupDir, `cline-${timestamp}.json`);
 
-    fs.copyFileSync(CONFIG_PATH, backupPath);
+    fs.copyFileSync(configPath, backupPath);
 
     return backupPath;
   }
 
   loadConfig(): MCPConfig {
-    if (!fs.existsSync(CONFIG_PATH)) {
+    if (this.usesNativeSettings()) {
+      return this.loadNativeConfig();
+    }
+
+    if (!fs.existsSync(this.settingsPath)) {
       throw new Error(
-        `VS Code settings not found at ${CONFIG_PATH}\n` +
+        `VS Code settings not found at ${this.settingsPath}\n` +
         'Make sure VS Code and Cline are installed.'
       );
     }
 
-    const raw = fs.readFileSync(CONFIG_PATH, 'utf-8');
+    const raw = fs.readFileSync(this.settingsPath, 'utf-8');
 
     try {
       const settings: VSCodeSettings = JSON.parse(raw);
@@ -95,12 +130,17 @@ export class ClineAdapter extends BaseAdapter {
   }
 
   saveConfig(config: MCPConfig): void {
+    if (this.usesNativeSettings()) {
+      this.saveNativeConfig(config);
+      return;
+    }
+
     // Create backup before modifying
     const backupPath = this.createBackup();
 
     try {
       // Read existing settings to preserve other configuration
-      const existingRaw = fs.readFileSync(CONFIG_PATH, 'utf-8');
+      const existingRaw = fs.readFileSync(this.settingsPath, 'utf-8');
       const existingSettings: VSCodeSettings = JSON.parse(existingRaw);
 
       // Update Cline MCP server sections
@@ -115,11 +155,51 @@ export class ClineAdapter extends BaseAdapter {
 
       // Write back to file
       const jsonString = JSON.stringify(existingSettings, null, 2);
-      fs.writeFileSync(CONFIG_PATH, jsonString, 'utf-8');
+      fs.writeFileSync(this.settingsPath, jsonString, 'utf-8');
     } catch (error) {
       // If write fails, restore from backup
-      fs.copyFileSync(backupPath, CONFIG_PATH);
+      fs.copyFileSync(backupPath, this.settingsPath);
       throw new Error(`Failed to save settings (restored from backup): ${error}`);
     }
   }
+
+  private loadNativeConfig(): MCPConfig {
+    try {
+      const settings: ClineMcpSettings = JSON.parse(fs.readFileSync(this.nativeConfigPath, 'utf-8'));
+      const { enabled, disabled } = splitByDisabledFlag(settings.mcpServers || {});
+
+      return {
+        enabled,
+        disabled,
+        metadata: {
+          tool: 'cline',
+          nativeSettings: true
+        }
+      };
+    } catch (error) {
+      throw new Error(`Failed to parse Cline MCP settings: ${error}`);
+    }
+  }
+
+  private saveNativeConfig(config: MCPConfig): void {
+    // Create backup before modifying
+    const backupPath = this.createBackup();
+
+    try {
+      // Read existing settings to preserve other fields and server order
+      const existingSettings: ClineMcpSettings = JSON.parse(fs.readFileSync(this.nativeConfigPath, 'utf-8'));
+
+      existingSettings.mcpServers = mergeWithDisabledFlag(
+        config.enabled,
+        config.disabled,
+        existingSettings.mcpServers
+      );
+
+      fs.writeFileSync(this.nativeConfigPath, JSON.stringify(existingSettings, null, 2), 'utf-8');
+    } catch (error) {
+      // If write fails, restore from backup
+      fs.copyFileSync(backupPath, this.nativeConfigPath);
+      throw new Error(`Failed to save Cline MCP settings (restored from backup): ${error}`);
+    }
+  }
 }
@@ -0,0 +1,198 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { BaseAdapter, type MCPConfig, type MCPServer } from './base.js';
+import { parseToml, stringifyTable, extractTables, replaceTables } from '../utils/toml.js';
+
+// Codex config location (CODEX_HOME overrides the default ~/.codex)
+function getCodexHome(): string {
+  return process.env.CODEX_HOME || path.join(os.homedir(), '.codex');
+}
+
+function getConfigPath(): string {
+  return path.join(getCodexHome(), 'config.toml');
+}
+
+function getDisabledConfigPath(): string {
+  return path.join(getCodexHome(), 'mcp-disabled.toml');
+}
+
+function getBackupDir(): string {
+  return path.join(os.homedir(), '.claude-mcp-backups', 'codex');
+}
+
+// Codex keeps MCP servers under [mcp_servers.<name>] tables
+const SERVERS_KEY = 'mcp_servers';
+
+/**
+ * Adapter for OpenAI Codex CLI
+ * Manages the [mcp_servers.<name>] tables in ~/.codex/config.toml
+ *
+ * Saving splices server tables into the existing file, so other tables and
+ * comments are kept, and unchanged servers keep their original text.
+ * Disabled servers are moved to mcp-disabled.toml (same table layout),
+ * which Codex never reads.
+ */
+export class CodexAdapter extends BaseAdapter {
+  readonly name = 'Codex CLI';
+  readonly id = 'codex';
+  readonly defaultModel = 'gpt-5';
+
+  // Allow overriding paths for testing
+  protected configPath: string = getConfigPath();
+  protected disabledConfigPath: string = getDisabledConfigPath();
+  protected backupDir: string = getBackupDir();
+
+  detect(): boolean {
+    if (!fs.existsSync(this.configPath)) {
+      return false;
+    }
+
+    try {
+      const config = parseToml(fs.readFileSync(this.configPath, 'utf-8'));
+      // Check if Codex MCP servers are configured
+      return SERVERS_KEY in config || fs.existsSync(this.disabledConfigPath);
+    } catch {
+      return false;
+    }
+  }
+
+  getConfigPath(): string {
+    return this.configPath;
+  }
+
+  private ensureBackupDir(): void {
+    if (!fs.existsSync(this.backupDir)) {
+      fs.mkdirSync(this.backupDir, { recursive: true });
+    }
+  }
+
+  createBackup(): string {
+    if (!fs.existsSync(this.configPath)) {
+      throw new Error(`Codex config not found at ${this.configPath}`);
+    }
+
+    this.ensureBackupDir();
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = path.join(this.backupDir, `codex-${timestamp}.toml`);
+    const disabledBackupPath = path.join(this.backupDir, `codex-disabled-${timestamp}.toml`);
+
+    // Backup main config
+    fs.copyFileSync(this.configPath, backupPath);
+
+    // Backup disabled config if it exists
+    if (fs.existsSync(this.disabledConfigPath)) {
+      fs.copyFileSync(this.disabledConfigPath, disabledBackupPath);
+    }
+
+    return backupPath;
+  }
+
+  private readServers(filePath: string): Record<string, MCPServer> {
+    if (!fs.existsSync(filePath)) {
+      return {};
+    }
+    return parseToml(fs.readFileSync(filePath, 'utf-8'))[SERVERS_KEY] || {};
+  }
+
+  loadConfig(): MCPConfig {
+    if (!fs.existsSync(this.configPath)) {
+      throw new Error(
+        `Codex config not found at ${this.configPath}\n` +
+        'Make sure Codex CLI is installed and you have configured MCP servers.'
+      );
+    }
+
+    try {
+      return {
+        enabled: this.readServers(this.configPath),
+        disabled: this.readServers(this.disabledConfigPath),
+        metadata: {
+          tool: 'codex',
+          separateDisabledFile: true
+        }
+      };
+    } catch (error) {
+      throw new Error(`Failed to parse Codex config: ${error}`);
+    }
+  }
+
+  saveConfig(config: MCPConfig): void {
+    // Create backup before modifying
+    const backupPath = this.createBackup();
+
+    try {
+      const raw = fs.readFileSync(this.configPath, 'utf-8');
+      const disabledRaw = fs.existsSync(this.disabledConfigPath)
+        ? fs.readFileSync(this.disabledConfigPath, 'utf-8')
+        : '';
+
+      // Original table text for every known server, so a server moving between
+      // files keeps its comments and formatting when its settings didn't change
+      const originals = new Map([
+        ...extractTables(disabledRaw, SERVERS_KEY),
+        ...extractTables(raw, SERVERS_KEY)
+      ]);
+
+      fs.writeFileSync(
+        this.configPath,
+        replaceTables(raw, SERVERS_KEY, this.toTables(config.enabled, originals)),
+        'utf-8'
+      );
+
+      // Handle disabled servers in separate file
+      if (Object.keys(config.disabled).length > 0) {
+        const header = disabledRaw ? '' : '# MCP servers disabled by house-mcp-manager (not read by Codex)\n\n';
+        fs.writeFileSync(
+          this.disabledConfigPath,
+          replaceTables(header + disabledRaw, SERVERS_KEY, this.toTables(config.disabled, originals)),
+          'utf-8'
+        );
+      } else if (fs.existsSync(this.disabledConfigPath)) {
+        // Clean up disabled config if empty
+        fs.unlinkSync(this.disabledConfigPath);
+      }
+    } catch (error) {
+      // If write fails, restore from backup
+      fs.copyFileSync(backupPath, this.configPath);
+
+      // Also restore disabled file if backup exists
+      const timestamp = path.basename(backupPath).replace('codex-', '').replace('.toml', '');
+      const disabledBackupPath = path.join(this.backupDir, `codex-disabled-${timestamp}.toml`);
+      if (fs.existsSync(disabledBackupPath)) {
+        fs.copyFileSync(disabledBackupPath, this.disabledConfigPath);
+      }
+
+      throw new Error(`Failed to save Codex config (restored from backup): ${error}`);
+    }
+  }
+
+  /**
+   * Renders servers as TOML tables, reusing the original text of servers
+   * whose settings are unchanged
+   */
+  private toTables(servers: Record<string, MCPServer>, originals: Map<string, string>): Record<string, string> {
+    const tables: Record<string, string> = {};
+
+    for (const [name, server] of Object.entries(servers)) {
+      const original = originals.get(name);
+      if (original && this.isSameServer(original, name, server)) {
+        tables[name] = original;
+      } else {
+        tables[name] = stringifyTable(SERVERS_KEY, name, server);
+      }
+    }
+
+    return tables;
+  }
+
+  private isSameServer(tableText: string, name: string, server: MCPServer): boolean {
+    try {
+      const parsed = parseToml(tableText)[SERVERS_KEY]?.[name];
+      return JSON.stringify(parsed) === JSON.stringify(server);
+    } catch {
+      return false;
+    }
+  }
+}
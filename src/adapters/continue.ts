@@ -0,0 +1,333 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+import { isDeepStrictEqual } from 'util';
+import YAML, { isMap, isSeq, YAMLSeq, type Document } from 'yaml';
+import { BaseAdapter, getServerHost, isRemoteServer, type MCPConfig, type MCPServer } from './base.js';
+
+// Continue config location
+function getContinueConfigDir(): string {
+  return path.join(os.homedir(), '.continue');
+}
+
+function getYamlConfigPath(): string {
+  return path.join(getContinueConfigDir(), 'config.yaml');
+}
+
+function getJsonConfigPath(): string {
+  return path.join(getContinueConfigDir(), 'config.json');
+}
+
+function getDisabledConfigPath(): string {
+  return path.join(getContinueConfigDir(), 'mcp-disabled.json');
+}
+
+function getBackupDir(): string {
+  return path.join(os.homedir(), '.claude-mcp-backups', 'continue');
+}
+
+/**
+ * Server entry in config.yaml (`mcpServers` is a list of named blocks)
+ */
+type ContinueYamlServer = MCPServer & {
+  name: string;
+};
+
+/**
+ * Server entry in the legacy config.json
+ * (`experimental.modelContextProtocolServers` is a list of unnamed transports)
+ */
+interface ContinueJsonServer {
+  transport: MCPServer;
+  [key: string]: any;
+}
+
+interface ContinueJsonConfigFile {
+  experimental?: {
+    modelContextProtocolServers?: ContinueJsonServer[];
+    [key: string]: any;
+  };
+  [key: string]: any;
+}
+
+interface DisabledConfigFile {
+  mcpServers: Record<string, MCPServer>;
+}
+
+type ContinueFormat = 'yaml' | 'json';
+
+/**
+ * Derives a stable name for a legacy config.json server, which has no name of its own.
+ * Uses the package or script being launched (e.g. "npx -y @scope/server-github" -> "server-github"),
+ * or the host for remote servers.
+ */
+export function deriveServerName(server: MCPServer): string {
+  if (isRemoteServer(server)) {
+    return getServerHost(server).replace(/:\d+$/, '') || 'server';
+  }
+
+  const target = (server.args || []).find(arg => !arg.startsWith('-')) || server.command || 'server';
+  const base = path.basename(String(target)).replace(/@[^/@]*$/, '').replace(/\.(js|mjs|cjs|ts|py)$/, '');
+  return base || 'server';
+}
+
+/**
+ * Short fingerprint of what a server launches or connects to
+ */
+function serverFingerprint(server: MCPServer): string {
+  const target = isRemoteServer(server) ? [server.url] : [server.command, server.args || []];
+  return crypto.createHash('sha256').update(JSON.stringify(target)).digest('hex').slice(0, 6);
+}
+
+/**
+ * Names the entries of a legacy config.json. A derived name shared with any
+ * other server, enabled or disabled, gets a suffix from the server's own
+ * command and args, so names stay the same as servers move between
+ * config.json and the disabled file.
+ */
+function nameJsonEntries(entries: ContinueJsonServer[], disabled: Record<string, MCPServer>): Array<[string, ContinueJsonServer]> {
+  const baseCounts = new Map<string, number>();
+  [...entries.map(entry => entry.transport), ...Object.values(disabled)].forEach(server => {
+    const baseName = deriveServerName(server);
+    baseCounts.set(baseName, (baseCounts.get(baseName) || 0) + 1);
+  });
+
+  const used = new Set<string>();
+  return entries.map(entry => {
+    const baseName = deriveServerName(entry.transport);
+    const stableName = (baseCounts.get(baseName) || 0) > 1 ? `${baseName}-${serverFingerprint(entry.transport)}` : baseName;
+
+    // Only identical servers can still collide
+    let name = stableName;
+    for (let i = 2; used.has(name); i++) {
+      name = `${stableName}-${i}`;
+    }
+    used.add(name);
+
+    return [name, entry];
+  });
+}
+
+/**
+ * Adapter for Continue (VS Code / JetBrains extension)
+ * Manages the `mcpServers` block in ~/.continue/config.yaml, or the
+ * `experimental.modelContextProtocolServers` list in the legacy ~/.continue/config.json.
+ *
+ * Continue validates its config strictly, so disabled servers are kept in a
+ * separate ~/.continue/mcp-disabled.json file (same approach as Cursor).
+ */
+export class ContinueAdapter extends BaseAdapter {
+  readonly name = 'Continue';
+  readonly id = 'continue';
+
+  // Allow overriding paths for testing
+  protected yamlConfigPath: string = getYamlConfigPath();
+  protected jsonConfigPath: string = getJsonConfigPath();
+  protected disabledConfigPath: string = getDisabledConfigPath();
+  protected backupDir: string = getBackupDir();
+
+  /**
+   * config.yaml takes precedence over config.json, matching Continue itself
+   */
+  private getFormat(): ContinueFormat {
+    return fs.existsSync(this.yamlConfigPath) || !fs.existsSync(this.jsonConfigPath) ? 'yaml' : 'json';
+  }
+
+  detect(): boolean {
+    return fs.existsSync(this.yamlConfigPath) || fs.existsSync(this.jsonConfigPath);
+  }
+
+  getConfigPath(): string {
+    return this.getFormat() === 'yaml' ? this.yamlConfigPath : this.jsonConfigPath;
+  }
+
+  private ensureBackupDir(): void {
+    if (!fs.existsSync(this.backupDir)) {
+      fs.mkdirSync(this.backupDir, { recursive: true });
+    }
+  }
+
+  createBackup(): string {
+    const configPath = this.getConfigPath();
+    if (!fs.existsSync(configPath)) {
+      throw new Error(`Continue config not found at ${configPath}`);
+    }
+
+    this.ensureBackupDir();
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const extension = path.extname(configPath);
+    const backupPath = path.join(this.backupDir, `continue-${timestamp}${extension}`);
+    const disabledBackupPath = path.join(this.backupDir, `continue-disabled-${timestamp}.json`);
+
+    // Backup main config
+    fs.copyFileSync(configPath, backupPath);
+
+    // Backup disabled config if it exists
+    if (fs.existsSync(this.disabledConfigPath)) {
+      fs.copyFileSync(this.disabledConfigPath, disabledBackupPath);
+    }
+
+    return backupPath;
+  }
+
+  loadConfig(): MCPConfig {
+    const configPath = this.getConfigPath();
+    if (!fs.existsSync(configPath)) {
+      throw new Error(
+        `Continue config not found at ${configPath}\n` +
+        'Make sure Continue is installed and has created its config file.'
+      );
+    }
+
+    const format = this.getFormat();
+
+    try {
+      const disabled = this.readDisabledServers();
+      const enabled = format === 'yaml' ? this.readYamlServers() : this.readJsonServers(disabled);
+
+      return {
+        enabled,
+        disabled,
+        metadata: {
+          tool: 'continue',
+          format,
+          separateDisabledFile: true
+        }
+      };
+    } catch (error) {
+      throw new Error(`Failed to parse Continue config: ${error}`);
+    }
+  }
+
+  private readDisabledServers(): Record<string, MCPServer> {
+    if (!fs.existsSync(this.disabledConfigPath)) {
+      return {};
+    }
+    const disabledConfig: DisabledConfigFile = JSON.parse(fs.readFileSync(this.disabledConfigPath, 'utf-8'));
+    return disabledConfig.mcpServers || {};
+  }
+
+  saveConfig(config: MCPConfig): void {
+    // Create backup before modifying
+    const backupPath = this.createBackup();
+    const configPath = this.getConfigPath();
+
+    try {
+      if (this.getFormat() === 'yaml') {
+        this.writeYamlServers(config.enabled);
+      } else {
+        this.writeJsonServers(config.enabled);
+      }
+
+      // Handle disabled servers in separate file
+      if (Object.keys(config.disabled).length > 0) {
+        const disabledConfig: DisabledConfigFile = {
+          mcpServers: config.disabled
+        };
+        fs.writeFileSync(this.disabledConfigPath, JSON.stringify(disabledConfig, null, 2), 'utf-8');
+      } else if (fs.existsSync(this.disabledConfigPath)) {
+        // Clean up disabled config if empty
+        fs.unlinkSync(this.disabledConfigPath);
+      }
+    } catch (error) {
+      // If write fails, restore from backup
+      fs.copyFileSync(backupPath, configPath);
+
+      // Also restore disabled file if backup exists
+      const timestamp = path.basename(backupPath, path.extname(backupPath)).replace('continue-', '');
+      const disabledBackupPath = path.join(this.backupDir, `continue-disabled-${timestamp}.json`);
+      if (fs.existsSync(disabledBackupPath)) {
+        fs.copyFileSync(disabledBackupPath, this.disabledConfigPath);
+      }
+
+      throw new Error(`Failed to save config (restored from backup): ${error}`);
+    }
+  }
+
+  private parseYamlDocument(): Document {
+    const doc = YAML.parseDocument(fs.readFileSync(this.yamlConfigPath, 'utf-8'));
+    if (doc.errors.length > 0) {
+      throw doc.errors[0];
+    }
+    return doc;
+  }
+
+  private readYamlServers(): Record<string, MCPServer> {
+    const doc = this.parseYamlDocument();
+    const entries: ContinueYamlServer[] = (doc.toJS() || {}).mcpServers || [];
+    const servers: Record<string, MCPServer> = {};
+
+    for (const { name, ...server } of entries) {
+      servers[name] = server as MCPServer;
+    }
+
+    return servers;
+  }
+
+  private writeYamlServers(enabled: Record<string, MCPServer>): void {
+    const doc = this.parseYamlDocument();
+
+    // Keep the original nodes (and their comments) for servers that did not change
+    const existingNodes = new Map<string, unknown>();
+    const existing = doc.get('mcpServers');
+    if (isSeq(existing)) {
+      for (const item of existing.items) {
+        if (isMap(item)) {
+          existingNodes.set(String(item.get('name')), item);
+        }
+      }
+    }
+
+    const items = Object.entries(enabled).map(([name, server]) => {
+      const entry: ContinueYamlServer = { name, ...server };
+      const node = existingNodes.get(name);
+      if (node && isMap(node) && isDeepStrictEqual(node.toJSON(), entry)) {
+        return node;
+      }
+      return doc.createNode(entry);
+    });
+
+    if (items.length > 0 || existing !== undefined) {
+      const seq = new YAMLSeq();
+      seq.items = items;
+      doc.set('mcpServers', seq);
+    }
+
+    fs.writeFileSync(this.yamlConfigPath, doc.toString(), 'utf-8');
+  }
+
+  private readJsonServers(disabled: Record<string, MCPServer>): Record<string, MCPServer> {
+    const continueConfig: ContinueJsonConfigFile = JSON.parse(fs.readFileSync(this.jsonConfigPath, 'utf-8'));
+    const entries = continueConfig.experimental?.modelContextProtocolServers || [];
+
+    // Legacy entries are unnamed, so each gets a derived one
+    return Object.fromEntries(nameJsonEntries(entries, disabled).map(([name, entry]) => [name, { ...entry.transport }]));
+  }
+
+  private writeJsonServers(enabled: Record<string, MCPServer>): void {
+    // Read existing config to preserve other fields
+    const continueConfig: ContinueJsonConfigFile = JSON.parse(fs.readFileSync(this.jsonConfigPath, 'utf-8'));
+
+    // Keep whatever else an existing entry holds besides its transport
+    const existingEntries = new Map(nameJsonEntries(
+      continueConfig.experimental?.modelContextProtocolServers || [],
+      this.readDisabledServers()
+    ));
+
+    const entries: ContinueJsonServer[] = Object.entries(enabled).map(([name, server]) => ({
+      ...existingEntries.get(name),
+      transport: isRemoteServer(server)
+        ? { type: 'sse', ...server }
+        : { type: 'stdio', ...server }
+    }));
+
+    continueConfig.experimental = {
+      ...continueConfig.experimental,
+      modelContextProtocolServers: entries
+    };
+
+    fs.writeFileSync(this.jsonConfigPath, JSON.stringify(continueConfig, null, 2), 'utf-8');
+  }
+}
@@ -1,7 +1,8 @@
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
-import { BaseAdapter, type MCPConfig, type MCPServer } from './base.js';
+import { BaseAdapter, type MCPConfig, type MCPServer, type ScopedMCPConfig } from './base.js';
+import { findProjectFile, normalizeProjectPath } from '../utils/scope.js';
 
 // Cursor config location (platform-aware)
 function getCursorConfigDir(): string {
@@ -20,6 +21,10 @@ function getBackupDir(): string {
   return path.join(os.homedir(), '.claude-mcp-backups', 'cursor');
 }
 
+// Workspace-level files, relative to the project root
+const PROJECT_CONFIG_FILE = path.join('.cursor', 'mcp.json');
+const PROJECT_DISABLED_FILE = path.join('.cursor', 'mcp-disabled.json');
+
 interface CursorConfigFile {
   mcpServers: Record<string, MCPServer>;
   [key: string]: any;
@@ -31,6 +36,10 @@ interface CursorConfigFile {
  *
  * Unlike Claude/Cline which use synthetic _disabled_mcpServers in the same file,
  * Cursor uses a separate file to avoid polluting the native config.
+ *
+ * At project scope the workspace's .cursor/mcp.json is managed the same way,
+ * with its own .cursor/mcp-disabled.json. Cursor has no per-workspace switch
+ * for global servers, so those can only be disabled at user scope.
  */
 export class CursorAdapter extends BaseAdapter {
   readonly name = 'Cursor';
@@ -65,28 +74,108 @@ export class CursorAdapter extends BaseAdapter {
     }
   }
 
-  createBackup(): string {
-    if (!fs.existsSync(this.configPath)) {
-      throw new Error(`Cursor config not found at ${this.configPath}`);
+  /**
+   * Backs up an mcp.json file and its disabled sidecar (if present)
+   */
+  private backupFiles(configPath: string, disabledPath: string, prefix: string): string {
+    if (!fs.existsSync(configPath)) {
+      throw new Error(`Cursor config not found at ${configPath}`);
     }
 
     this.ensureBackupDir();
 
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const backupPath = path.join(this.backupDir, `cursor-${timestamp}.json`);
-    const disabledBackupPath = path.join(this.backupDir, `cursor-disabled-${timestamp}.json`);
+    const backupPath = path.join(this.backupDir, `${prefix}-${timestamp}.json`);
+    const disabledBackupPath = path.join(this.backupDir, `${prefix}-disabled-${timestamp}.json`);
 
     // Backup main config
-    fs.copyFileSync(this.configPath, backupPath);
+    fs.copyFileSync(configPath, backupPath);
 
     // Backup disabled config if it exists
-    if (fs.existsSync(this.disabledConfigPath)) {
-      fs.copyFileSync(this.disabledConfigPath, disabledBackupPath);
+    if (fs.existsSync(disabledPath)) {
+      fs.copyFileSync(disabledPath, disabledBackupPath);
     }
 
     return backupPath;
   }
 
+  createBackup(): string {
+    return this.backupFiles(this.configPath, this.disabledConfigPath, 'cursor');
+  }
+
+  private readServers(configPath: string, disabledPath: string): { enabled: Record<string, MCPServer>; disabled: Record<string, MCPServer> } {
+    let enabled: Record<string, MCPServer> = {};
+    if (fs.existsSync(configPath)) {
+      const cursorConfig: CursorConfigFile = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      enabled = cursorConfig.mcpServers || {};
+    }
+
+    // Load disabled servers from separate file
+    let disabled: Record<string, MCPServer> = {};
+    if (fs.existsSync(disabledPath)) {
+      const disabledConfig: CursorConfigFile = JSON.parse(fs.readFileSync(disabledPath, 'utf-8'));
+      disabled = disabledConfig.mcpServers || {};
+    }
+
+    return { enabled, disabled };
+  }
+
+  /**
+   * Writes enabled servers to an mcp.json (preserving other fields) and disabled
+   * servers to its sidecar, restoring both from backup on failure
+   */
+  private writeServers(configPath: string, disabledPath: string, config: MCPConfig, backupPrefix: string): void {
+    // Create backup before modifying (a new file has nothing to back up)
+    const backupPath = fs.existsSync(configPath)
+      ? this.backupFiles(configPath, disabledPath, backupPrefix)
+      : null;
+    const newFiles = [configPath, disabledPath].filter(file => !fs.existsSync(file));
+
+    try {
+      // Read existing main config to preserve other fields
+      const existingConfig: CursorConfigFile = backupPath
+        ? JSON.parse(fs.readFileSync(configPath, 'utf-8'))
+        : { mcpServers: {} };
+
+      // Update enabled servers in main config
+      existingConfig.mcpServers = config.enabled;
+
+      // Write main config
+      fs.mkdirSync(path.dirname(configPath), { recursive: true });
+      fs.writeFileSync(configPath, JSON.stringify(existingConfig, null, 2), 'utf-8');
+
+      // Handle disabled servers in separate file
+      if (Object.keys(config.disabled).length > 0) {
+        // Create/update disabled config file
+        const disabledConfig: CursorConfigFile = {
+          mcpServers: config.disabled
+        };
+        fs.writeFileSync(disabledPath, JSON.stringify(disabledConfig, null, 2), 'utf-8');
+      } else if (fs.existsSync(disabledPath)) {
+        // Clean up disabled config if empty
+        fs.unlinkSync(disabledPath);
+      }
+    } catch (error) {
+      // If write fails, remove the files it created and restore the others from backup
+      newFiles.filter(file => fs.existsSync(file)).forEach(file => fs.unlinkSync(file));
+      if (backupPath) {
+        fs.copyFileSync(backupPath, configPath);
+
+        // Also restore disabled file if backup exists
+        const disabledBackupPath = path.join(
+          this.backupDir,
+          path.basename(backupPath).replace(`${backupPrefix}-`, `${backupPrefix}-disabled-`)
+        );
+        if (fs.existsSync(disabledBackupPath)) {
+          fs.copyFileSync(disabledBackupPath, disabledPath);
+        }
+        throw new Error(`Failed to save config (restored from backup): ${error}`);
+      }
+
+      throw new Error(`Failed to save config: ${error}`);
+    }
+  }
+
   loadConfig(): MCPConfig {
     if (!fs.existsSync(this.configPath)) {
       throw new Error(
@@ -96,21 +185,11 @@ export class CursorAdapter extends BaseAdapter {
     }
 
     try {
-      // Load enabled servers from main config
-      const raw = fs.readFileSync(this.configPath, 'utf-8');
-      const cursorConfig: CursorConfigFile = JSON.parse(raw);
-
-      // Load disabled servers from separate file
-      let disabledServers: Record<string, MCPServer> = {};
-      if (fs.existsSync(this.disabledConfigPath)) {
-        const disabledRaw = fs.readFileSync(this.disabledConfigPath, 'utf-8');
-        const disabledConfig: CursorConfigFile = JSON.parse(disabledRaw);
-        disabledServers = disabledConfig.mcpServers || {};
-      }
+      const { enabled, disabled } = this.readServers(this.configPath, this.disabledConfigPath);
 
       return {
-        enabled: cursorConfig.mcpServers || {},
-        disabled: disabledServers,
+        enabled,
+        disabled,
         metadata: {
           tool: 'cursor',
           separateDisabledFile: true
@@ -122,47 +201,66 @@ export class CursorAdapter extends BaseAdapter {
   }
 
   saveConfig(config: MCPConfig): void {
-    // Create backup before modifying
-    const backupPath = this.createBackup();
+    this.writeServers(this.configPath, this.disabledConfigPath, config, 'cursor');
+  }
 
-    try {
-      // Read existing main config to preserve other fields
-      const existingRaw = fs.readFileSync(this.configPath, 'utf-8');
-      const existingConfig: CursorConfigFile = JSON.parse(existingRaw);
+  supportsProjectScope(): boolean {
+    return true;
+  }
 
-      // Update enabled servers in main config
-      existingConfig.mcpServers = config.enabled;
+  supportsDisablingInheritedServers(): boolean {
+    return false;
+  }
 
-      // Write main config
-      const jsonString = JSON.stringify(existingConfig, null, 2);
-      fs.writeFileSync(this.configPath, jsonString, 'utf-8');
+  detectProjectRoot(startPath: string): string | null {
+    // ~/.cursor holds the global config, so the home directory is never a project
+    const roots = [PROJECT_CONFIG_FILE, PROJECT_DISABLED_FILE]
+      .map(file => findProjectFile(startPath, file))
+      .filter((root): root is string => root !== null && root !== os.homedir());
 
-      // Handle disabled servers in separate file
-      if (Object.keys(config.disabled).length > 0) {
-        // Create/update disabled config file
-        const disabledConfig: CursorConfigFile = {
-          mcpServers: config.disabled
-        };
-        const disabledJsonString = JSON.stringify(disabledConfig, null, 2);
-        fs.writeFileSync(this.disabledConfigPath, disabledJsonString, 'utf-8');
-      } else {
-        // Clean up disabled config if empty
-        if (fs.existsSync(this.disabledConfigPath)) {
-          fs.unlinkSync(this.disabledConfigPath);
+    // The nearest directory with either file is the project
+    return roots.sort((a, b) => b.length - a.length)[0] ?? null;
+  }
+
+  loadProjectConfig(projectPath: string): MCPConfig | null {
+    const normalizedPath = normalizeProjectPath(projectPath);
+    const configPath = path.join(normalizedPath, PROJECT_CONFIG_FILE);
+    const disabledPath = path.join(normalizedPath, PROJECT_DISABLED_FILE);
+
+    if (!fs.existsSync(configPath) && !fs.existsSync(disabledPath)) {
+      return null;
+    }
+
+    try {
+      const { enabled, disabled } = this.readServers(configPath, disabledPath);
+
+      return {
+        enabled,
+        disabled,
+        metadata: {
+          tool: 'cursor',
+          scope: 'project',
+          projectPath: normalizedPath,
+          separateDisabledFile: true
         }
-      }
+      };
     } catch (error) {
-      // If write fails, restore from backup
-      fs.copyFileSync(backupPath, this.configPath);
-
-      // Also restore disabled file if backup exists
-      const timestamp = path.basename(backupPath).replace('cursor-', '').replace('.json', '');
-      const disabledBackupPath = path.join(this.backupDir, `cursor-disabled-${timestamp}.json`);
-      if (fs.existsSync(disabledBackupPath)) {
-        fs.copyFileSync(disabledBackupPath, this.disabledConfigPath);
-      }
-
-      throw new Error(`Failed to save config (restored from backup): ${error}`);
+      throw new Error(`Failed to load project config: ${error}`);
     }
   }
+
+  saveProjectConfig(projectPath: string, config: MCPConfig): void {
+    const normalizedPath = normalizeProjectPath(projectPath);
+
+    this.writeServers(
+      path.join(normalizedPath, PROJECT_CONFIG_FILE),
+      path.join(normalizedPath, PROJECT_DISABLED_FILE),
+      config,
+      'cursor-project'
+    );
+  }
+
+  getMergedConfig(projectPath: string): ScopedMCPConfig {
+    return this.mergeScopedConfigs(this.loadConfig(), this.loadProjectConfig(projectPath), projectPath);
+  }
 }
@@ -0,0 +1,62 @@
+import type { MCPServer } from './base.js';
+
+/**
+ * Helpers for tools that mark servers with a native per-server `disabled: true`
+ * flag (Windsurf, Cline, Roo Code) instead of removing them from the config.
+ */
+
+/**
+ * Splits a native server map into enabled and disabled servers.
+ * The `disabled` flag itself is stripped so servers can move freely between the two.
+ */
+export function splitByDisabledFlag(servers: Record<string, MCPServer>): {
+  enabled: Record<string, MCPServer>;
+  disabled: Record<string, MCPServer>;
+} {
+  const enabled: Record<string, MCPServer> = {};
+  const disabled: Record<string, MCPServer> = {};
+
+  for (const [name, server] of Object.entries(servers)) {
+    const { disabled: isDisabled, ...rest } = server;
+    if (isDisabled === true) {
+      disabled[name] = rest as MCPServer;
+    } else {
+      enabled[name] = rest as MCPServer;
+    }
+  }
+
+  return { enabled, disabled };
+}
+
+/**
+ * Merges enabled and disabled servers back into a single native server map,
+ * setting `disabled: true` on disabled servers.
+ * Servers keep the order they had in `existing`; new servers are appended.
+ */
+export function mergeWithDisabledFlag<T extends { disabled?: boolean } = MCPServer>(
+  enabled: Record<string, T>,
+  disabled: Record<string, T>,
+  existing: Record<string, T> = {}
+): Record<string, T> {
+  const names = [
+    ...Object.keys(existing),
+    ...Object.keys(enabled),
+    ...Object.keys(disabled)
+  ].filter((name, index, all) => all.indexOf(name) === index);
+
+  const merged: Record<string, T> = {};
+
+  for (const name of names) {
+    if (disabled[name]) {
+      merged[name] = { ...disabled[name], disabled: true };
+    } else if (enabled[name]) {
+      const { disabled: _flag, ...rest } = enabled[name];
+      // Keep an explicit `disabled: false` if the tool wrote one
+      merged[name] = existing[name]?.disabled === false
+        ? { ...rest, disabled: false } as T
+        : rest as T;
+    }
+  }
+
+  return merged;
+}
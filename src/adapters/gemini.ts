@@ -0,0 +1,339 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { BaseAdapter, getServerTransport, isRemoteServer, type MCPConfig, type MCPServer, type ScopedMCPConfig } from './base.js';
+import { parseJsonc, updateJsoncMap, setJsoncValue } from '../utils/jsonc.js';
+import { findProjectFile, normalizeProjectPath } from '../utils/scope.js';
+
+function getConfigPath(): string {
+  return path.join(os.homedir(), '.gemini', 'settings.json');
+}
+
+function getBackupDir(): string {
+  return path.join(os.homedir(), '.claude-mcp-backups', 'gemini');
+}
+
+// Project-level settings, relative to the project root
+const PROJECT_SETTINGS_FILE = path.join('.gemini', 'settings.json');
+
+/**
+ * A server as Gemini CLI stores it. Remote servers use `url` for SSE and
+ * `httpUrl` for streamable HTTP.
+ */
+export interface GeminiServer {
+  httpUrl?: string;
+  [key: string]: any;
+}
+
+interface GeminiSettings {
+  mcpServers?: Record<string, GeminiServer>;
+  /** Servers Gemini CLI will not start */
+  excludeMcpServers?: string[];
+  /** When present, the only servers Gemini CLI will start */
+  allowMCPServers?: string[];
+  [key: string]: any;
+}
+
+/**
+ * Converts a Gemini server to the MCPServer shape: `httpUrl` becomes `url`
+ * with `type: "http"`, and a plain `url` gets `type: "sse"`
+ */
+export function fromGeminiServer(server: GeminiServer): MCPServer {
+  const { httpUrl, ...rest } = server;
+  if (httpUrl !== undefined) {
+    return { ...rest, type: rest.type ?? 'http', url: httpUrl };
+  }
+  if (!server.command && server.url !== undefined) {
+    return { ...server, type: server.type ?? 'sse' } as MCPServer;
+  }
+  return server as MCPServer;
+}
+
+/**
+ * Converts an MCPServer back to Gemini's shape. When `existing` (the entry
+ * currently in the file) describes the same server, it is returned as-is.
+ */
+export function toGeminiServer(server: MCPServer, existing?: GeminiServer): GeminiServer {
+  if (existing && JSON.stringify(fromGeminiServer(existing)) === JSON.stringify(server)) {
+    return existing;
+  }
+  if (!isRemoteServer(server)) {
+    return server;
+  }
+  const { url, type: _type, ...rest } = server;
+  return getServerTransport(server) === 'http' ? { ...rest, httpUrl: url } : { ...rest, url };
+}
+
+function readServers(settings: GeminiSettings): Record<string, MCPServer> {
+  return Object.fromEntries(
+    Object.entries(settings.mcpServers || {}).map(([name, server]) => [name, fromGeminiServer(server)])
+  );
+}
+
+/**
+ * Splits servers into enabled and disabled according to Gemini's native
+ * exclude/allow lists
+ */
+function splitByLists(settings: GeminiSettings): { enabled: Record<string, MCPServer>; disabled: Record<string, MCPServer> } {
+  const exclude = settings.excludeMcpServers || [];
+  const allow = settings.allowMCPServers;
+  const enabled: Record<string, MCPServer> = {};
+  const disabled: Record<string, MCPServer> = {};
+
+  for (const [name, server] of Object.entries(readServers(settings))) {
+    if (exclude.includes(name) || (allow && !allow.includes(name))) {
+      disabled[name] = server;
+    } else {
+      enabled[name] = server;
+    }
+  }
+
+  return { enabled, disabled };
+}
+
+/**
+ * Adapter for Gemini CLI
+ * Manages `mcpServers` in ~/.gemini/settings.json and, at project scope,
+ * in the project's .gemini/settings.json.
+ *
+ * Servers are never moved out of `mcpServers`. Disabling uses Gemini's own
+ * `excludeMcpServers` list (and `allowMCPServers`, when the user has one).
+ * Remote servers are read from `url` (SSE) or `httpUrl` (streamable HTTP).
+ */
+export class GeminiAdapter extends BaseAdapter {
+  readonly name = 'Gemini CLI';
+  readonly id = 'gemini';
+  readonly defaultModel = 'gemini-2.5-pro';
+
+  // Allow overriding paths for testing
+  protected configPath: string = getConfigPath();
+  protected backupDir: string = getBackupDir();
+
+  detect(): boolean {
+    if (!fs.existsSync(this.configPath)) {
+      return false;
+    }
+
+    try {
+      const settings = parseJsonc<GeminiSettings>(fs.readFileSync(this.configPath, 'utf-8'));
+      // Check if Gemini MCP servers are configured
+      return 'mcpServers' in settings;
+    } catch {
+      return false;
+    }
+  }
+
+  getConfigPath(): string {
+    return this.configPath;
+  }
+
+  private ensureBackupDir(): void {
+    if (!fs.existsSync(this.backupDir)) {
+      fs.mkdirSync(this.backupDir, { recursive: true });
+    }
+  }
+
+  private backupFile(filePath: string, prefix: string): string {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Gemini settings not found at ${filePath}`);
+    }
+
+    this.ensureBackupDir();
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = path.join(this.backupDir, `${prefix}-${timestamp}.json`);
+
+    fs.copyFileSync(filePath, backupPath);
+
+    return backupPath;
+  }
+
+  createBackup(): string {
+    return this.backupFile(this.configPath, 'gemini');
+  }
+
+  private readSettings(filePath: string): GeminiSettings {
+    return parseJsonc<GeminiSettings>(fs.readFileSync(filePath, 'utf-8'));
+  }
+
+  /**
+   * Writes servers and exclude/allow lists back to a settings file,
+   * leaving comments and unrelated settings in place
+   */
+  private writeSettings(
+    filePath: string,
+    servers: Record<string, MCPServer>,
+    enabledNames: string[],
+    disabledNames: string[],
+    backupPrefix: string
+  ): void {
+    // Create backup before modifying (a new file has nothing to back up)
+    const backupPath = fs.existsSync(filePath) ? this.backupFile(filePath, backupPrefix) : null;
+
+    try {
+      let raw = backupPath ? fs.readFileSync(filePath, 'utf-8') : '{}\n';
+      const existing = parseJsonc<GeminiSettings>(raw);
+
+      const existingServers = existing.mcpServers || {};
+      raw = updateJsoncMap(raw, 'mcpServers', Object.fromEntries(
+        Object.entries(servers).map(([name, server]) => [name, toGeminiServer(server, existingServers[name])])
+      ));
+
+      // Keep list entries for servers defined elsewhere (e.g. the other scope)
+      const managed = new Set([...enabledNames, ...disabledNames]);
+      const exclude = [
+        ...(existing.excludeMcpServers || []).filter(name => !managed.has(name)),
+        ...disabledNames
+      ];
+      raw = setJsoncValue(raw, 'excludeMcpServers', exclude.length > 0 || existing.excludeMcpServers ? exclude : undefined);
+
+      if (existing.allowMCPServers) {
+        raw = setJsoncValue(raw, 'allowMCPServers', [
+          ...existing.allowMCPServers.filter(name => !managed.has(name)),
+          ...enabledNames
+        ]);
+      }
+
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, raw, 'utf-8');
+    } catch (error) {
+      // If write fails, restore from backup
+      if (backupPath) {
+        fs.copyFileSync(backupPath, filePath);
+      }
+      throw new Error(`Failed to save Gemini settings (restored from backup): ${error}`);
+    }
+  }
+
+  loadConfig(): MCPConfig {
+    if (!fs.existsSync(this.configPath)) {
+      throw new Error(
+        `Gemini settings not found at ${this.configPath}\n` +
+        'Make sure Gemini CLI is installed and you have configured MCP servers.'
+      );
+    }
+
+    try {
+      const { enabled, disabled } = splitByLists(this.readSettings(this.configPath));
+
+      return {
+        enabled,
+        disabled,
+        metadata: {
+          tool: 'gemini',
+          nativeExcludeList: true
+        }
+      };
+    } catch (error) {
+      throw new Error(`Failed to parse Gemini settings: ${error}`);
+    }
+  }
+
+  saveConfig(config: MCPConfig): void {
+    const existing = this.readSettings(this.configPath).mcpServers || {};
+
+    // Keep the original server order; new servers are appended
+    const servers: Record<string, MCPServer> = {};
+    for (const name of Object.keys(existing)) {
+      const server = config.enabled[name] || config.disabled[name];
+      if (server) {
+        servers[name] = server;
+      }
+    }
+    Object.assign(servers, config.enabled, config.disabled);
+
+    this.writeSettings(
+      this.configPath,
+      servers,
+      Object.keys(config.enabled),
+      Object.keys(config.disabled),
+      'gemini'
+    );
+  }
+
+  supportsProjectScope(): boolean {
+    return true;
+  }
+
+  detectProjectRoot(startPath: string): string | null {
+    const root = findProjectFile(startPath, PROJECT_SETTINGS_FILE);
+    // ~/.gemini/settings.json is the user-level file, not a project
+    return root && path.resolve(root) !== path.resolve(path.dirname(path.dirname(this.configPath)))
+      ? root
+      : null;
+  }
+
+  loadProjectConfig(projectPath: string): MCPConfig | null {
+    const normalizedPath = normalizeProjectPath(projectPath);
+    const settingsPath = path.join(normalizedPath, PROJECT_SETTINGS_FILE);
+
+    if (!fs.existsSync(settingsPath)) {
+      return null;
+    }
+
+    try {
+      const settings = this.readSettings(settingsPath);
+      const { enabled, disabled } = splitByLists(settings);
+
+      // Servers excluded at project level may be defined at user level only
+      const userServers = fs.existsSync(this.configPath)
+        ? readServers(this.readSettings(this.configPath))
+        : {};
+      for (const name of settings.excludeMcpServers || []) {
+        if (!disabled[name] && userServers[name]) {
+          disabled[name] = userServers[name];
+        }
+      }
+
+      return {
+        enabled,
+        disabled,
+        metadata: {
+          tool: 'gemini',
+          scope: 'project',
+          projectPath: normalizedPath
+        }
+      };
+    } catch (error) {
+      throw new Error(`Failed to load project config: ${error}`);
+    }
+  }
+
+  saveProjectConfig(projectPath: string, config: MCPConfig): void {
+    const normalizedPath = normalizeProjectPath(projectPath);
+    const settingsPath = path.join(normalizedPath, PROJECT_SETTINGS_FILE);
+
+    const existingServers = fs.existsSync(settingsPath)
+      ? this.readSettings(settingsPath).mcpServers || {}
+      : {};
+    const userSettings = fs.existsSync(this.configPath) ? this.readSettings(this.configPath) : {};
+    const userServers = userSettings.mcpServers || {};
+
+    // Project-defined servers keep their definition; inherited servers are excluded by name only
+    const servers: Record<string, MCPServer> = { ...config.enabled };
+    for (const [name, server] of Object.entries(config.disabled)) {
+      if (existingServers[name] || !userServers[name]) {
+        servers[name] = server;
+      }
+    }
+
+    // Gemini replaces (rather than merges) list settings from the user file,
+    // so carry user-level exclusions over to keep those servers disabled here
+    const disabledNames = [
+      ...(userSettings.excludeMcpServers || []).filter(name => !config.enabled[name]),
+      ...Object.keys(config.disabled)
+    ].filter((name, index, all) => all.indexOf(name) === index);
+
+    this.writeSettings(
+      settingsPath,
+      servers,
+      Object.keys(config.enabled),
+      disabledNames,
+      'gemini-project'
+    );
+  }
+
+  getMergedConfig(projectPath: string): ScopedMCPConfig {
+    return this.mergeScopedConfigs(this.loadConfig(), this.loadProjectConfig(projectPath), projectPath);
+  }
+}
@@ -0,0 +1,213 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import YAML, { isMap, isScalar, YAMLMap, type Document } from 'yaml';
+import { BaseAdapter, type MCPConfig, type MCPServer } from './base.js';
+
+// Goose config location (platform-aware)
+function getGooseConfigDir(): string {
+  if (process.platform === 'win32') {
+    return path.join(process.env.APPDATA || path.join(os.homedir(), 'AppData/Roaming'), 'Block', 'goose', 'config');
+  }
+  return path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'goose');
+}
+
+function getConfigPath(): string {
+  return path.join(getGooseConfigDir(), 'config.yaml');
+}
+
+function getBackupDir(): string {
+  return path.join(os.homedir(), '.claude-mcp-backups', 'goose');
+}
+
+/**
+ * An extension as Goose stores it.
+ * `stdio` extensions launch `cmd` with `args`/`envs`, `sse` extensions connect
+ * to `uri`, and `builtin` extensions ship with Goose itself.
+ */
+export interface GooseExtension {
+  name?: string;
+  type?: 'stdio' | 'sse' | 'builtin' | string;
+  enabled?: boolean;
+  cmd?: string;
+  args?: string[];
+  envs?: Record<string, string>;
+  uri?: string;
+  [key: string]: any;
+}
+
+/**
+ * Converts a Goose extension to the MCPServer shape
+ * (`cmd` -> `command`, `envs` -> `env`, `uri` -> `url`). The `enabled` flag is dropped.
+ */
+export function fromGooseExtension(extension: GooseExtension): MCPServer {
+  const { cmd, envs, uri, enabled: _enabled, ...rest } = extension;
+  return {
+    ...rest,
+    ...(cmd !== undefined ? { command: cmd } : {}),
+    ...(envs !== undefined ? { env: envs } : {}),
+    ...(uri !== undefined ? { url: uri } : {})
+  } as MCPServer;
+}
+
+/**
+ * Converts an MCPServer back to a Goose extension with the given `enabled` flag
+ */
+export function toGooseExtension(name: string, server: MCPServer, enabled: boolean): GooseExtension {
+  const { command, env, url, disabled: _disabled, ...rest } = server;
+  return {
+    name,
+    type: url ? 'sse' : 'stdio',
+    ...rest,
+    ...(command ? { cmd: command } : {}),
+    ...(env !== undefined ? { envs: env } : {}),
+    ...(url !== undefined ? { uri: url } : {}),
+    enabled
+  };
+}
+
+/**
+ * Adapter for Goose (Block's open-source agent)
+ * Manages the `extensions` map in ~/.config/goose/config.yaml
+ *
+ * Goose has a native per-extension `enabled` flag, so disabled servers stay
+ * in the config and toggling only flips that flag. The YAML document is edited
+ * in place, so comments and other settings survive a save.
+ */
+export class GooseAdapter extends BaseAdapter {
+  readonly name = 'Goose';
+  readonly id = 'goose';
+
+  // Allow overriding paths for testing
+  protected configPath: string = getConfigPath();
+  protected backupDir: string = getBackupDir();
+
+  detect(): boolean {
+    if (!fs.existsSync(this.configPath)) {
+      return false;
+    }
+
+    try {
+      // Check if Goose extensions are configured
+      return isMap(this.parseDocument().get('extensions'));
+    } catch {
+      return false;
+    }
+  }
+
+  getConfigPath(): string {
+    return this.configPath;
+  }
+
+  private ensureBackupDir(): void {
+    if (!fs.existsSync(this.backupDir)) {
+      fs.mkdirSync(this.backupDir, { recursive: true });
+    }
+  }
+
+  createBackup(): string {
+    if (!fs.existsSync(this.configPath)) {
+      throw new Error(`Goose config not found at ${this.configPath}`);
+    }
+
+    this.ensureBackupDir();
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = path.join(this.backupDir, `goose-${timestamp}.yaml`);
+
+    fs.copyFileSync(this.configPath, backupPath);
+
+    return backupPath;
+  }
+
+  private parseDocument(): Document {
+    const doc = YAML.parseDocument(fs.readFileSync(this.configPath, 'utf-8'));
+    if (doc.errors.length > 0) {
+      throw doc.errors[0];
+    }
+    return doc;
+  }
+
+  loadConfig(): MCPConfig {
+    if (!fs.existsSync(this.configPath)) {
+      throw new Error(
+        `Goose config not found at ${this.configPath}\n` +
+        'Make sure Goose is installed and you have configured extensions.'
+      );
+    }
+
+    try {
+      const extensions: Record<string, GooseExtension> = (this.parseDocument().toJS() || {}).extensions || {};
+      const enabled: Record<string, MCPServer> = {};
+      const disabled: Record<string, MCPServer> = {};
+
+      for (const [name, extension] of Object.entries(extensions)) {
+        // Goose treats a missing flag as enabled
+        if (extension.enabled === false) {
+          disabled[name] = fromGooseExtension(extension);
+        } else {
+          enabled[name] = fromGooseExtension(extension);
+        }
+      }
+
+      return {
+        enabled,
+        disabled,
+        metadata: {
+          tool: 'goose',
+          nativeEnabledFlag: true
+        }
+      };
+    } catch (error) {
+      throw new Error(`Failed to parse Goose config: ${error}`);
+    }
+  }
+
+  saveConfig(config: MCPConfig): void {
+    // Create backup before modifying
+    const backupPath = this.createBackup();
+
+    try {
+      const doc = this.parseDocument();
+      let extensions = doc.get('extensions');
+      if (!isMap(extensions)) {
+        extensions = new YAMLMap();
+        doc.set('extensions', extensions);
+      }
+      const extensionsMap = extensions as YAMLMap;
+
+      // Remove extensions that are no longer configured
+      for (const item of [...extensionsMap.items]) {
+        const name = String(isScalar(item.key) ? item.key.value : item.key);
+        if (!config.enabled[name] && !config.disabled[name]) {
+          extensionsMap.delete(item.key);
+        }
+      }
+
+      const entries: Array<[string, MCPServer, boolean]> = [
+        ...Object.entries(config.enabled).map(([name, server]): [string, MCPServer, boolean] => [name, server, true]),
+        ...Object.entries(config.disabled).map(([name, server]): [string, MCPServer, boolean] => [name, server, false])
+      ];
+
+      for (const [name, server, isEnabled] of entries) {
+        const node = extensionsMap.get(name);
+
+        if (isMap(node) && JSON.stringify(fromGooseExtension(node.toJSON())) === JSON.stringify(server)) {
+          // Unchanged extension: only flip the native flag, keeping its layout and comments.
+          // A missing flag means enabled, so it is only added when disabling.
+          if (node.has('enabled') ? node.get('enabled') !== isEnabled : !isEnabled) {
+            node.set('enabled', isEnabled);
+          }
+        } else {
+          extensionsMap.set(name, doc.createNode(toGooseExtension(name, server, isEnabled)));
+        }
+      }
+
+      fs.writeFileSync(this.configPath, doc.toString(), 'utf-8');
+    } catch (error) {
+      // If write fails, restore from backup
+      fs.copyFileSync(backupPath, this.configPath);
+      throw new Error(`Failed to save Goose config (restored from backup): ${error}`);
+    }
+  }
+}
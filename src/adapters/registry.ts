@@ -1,7 +1,16 @@
 import type { MCPAdapter } from './base.js';
 import { ClaudeAdapter } from './claude.js';
+import { ClaudeDesktopAdapter } from './claude-desktop.js';
 import { ClineAdapter } from './cline.js';
+import { ContinueAdapter } from './continue.js';
+import { ZedAdapter } from './zed.js';
+import { WindsurfAdapter } from './windsurf.js';
+import { VSCodeAdapter } from './vscode.js';
+import { GeminiAdapter } from './gemini.js';
 import { CursorAdapter } from './cursor.js';
+import { CodexAdapter } from './codex.js';
+import { GooseAdapter } from './goose.js';
+import { RooAdapter } from './roo.js';
 
 /**
  * Registry of all available MCP adapters
@@ -9,8 +18,17 @@ import { CursorAdapter } from './cursor.js';
 export class AdapterRegistry {
   private static adapters: MCPAdapter[] = [
     new ClaudeAdapter(),
+    new ClaudeDesktopAdapter(),
     new CursorAdapter(),
+    new WindsurfAdapter(),
     new ClineAdapter(),
+    new RooAdapter(),
+    new VSCodeAdapter(),
+    new ContinueAdapter(),
+    new ZedAdapter(),
+    new GeminiAdapter(),
+    new CodexAdapter(),
+    new GooseAdapter(),
     // Add more adapters here as they're implemented
   ];
 
@@ -37,7 +55,7 @@ export class AdapterRegistry {
 
   /**
    * Auto-select the best adapter
-   * Priority: Claude > Cursor > Cline > Continue > Others
+   * Priority: Claude > Cursor > Windsurf > Cline > Roo Code > VS Code > Continue > Claude Desktop > Others
    */
   static autoSelect(): MCPAdapter | null {
     const detected = this.detectAll();
@@ -47,7 +65,7 @@ export class AdapterRegistry {
     }
 
     // Priority order
-    const priority = ['claude', 'cursor', 'cline', 'continue', 'zed'];
+    const priority = ['claude', 'cursor', 'windsurf', 'cline', 'roo', 'vscode', 'continue', 'claude-desktop', 'zed'];
 
     for (const id of priority) {
       const adapter = detected.find(a => a.id === id);
@@ -0,0 +1,202 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { BaseAdapter, type MCPConfig, type MCPServer, type ScopedMCPConfig } from './base.js';
+import { splitByDisabledFlag, mergeWithDisabledFlag } from './disabled-flag.js';
+import { findProjectFile, normalizeProjectPath } from '../utils/scope.js';
+import { getVSCodeExtensionStorageDir } from '../utils/vscode.js';
+
+function getConfigPath(): string {
+  return path.join(getVSCodeExtensionStorageDir('rooveterinaryinc.roo-cline'), 'settings', 'mcp_settings.json');
+}
+
+function getBackupDir(): string {
+  return path.join(os.homedir(), '.claude-mcp-backups', 'roo');
+}
+
+// Project-level config, relative to the project root
+const PROJECT_CONFIG_FILE = path.join('.roo', 'mcp.json');
+
+interface RooMcpSettings {
+  mcpServers: Record<string, MCPServer>;
+  [key: string]: any;
+}
+
+/**
+ * Adapter for Roo Code (VS Code extension, a Cline fork)
+ * Manages the global mcp_settings.json in VS Code globalStorage and, at project
+ * scope, the project's .roo/mcp.json.
+ *
+ * Both files use Roo's native per-server `disabled: true` flag. Per-server
+ * fields such as `alwaysAllow` are kept as-is. Roo lets a project entry replace
+ * a global one of the same name, so an inherited server is disabled for a
+ * project by writing a copy of it with `disabled: true` to .roo/mcp.json.
+ */
+export class RooAdapter extends BaseAdapter {
+  readonly name = 'Roo Code';
+  readonly id = 'roo';
+
+  // Allow overriding paths for testing
+  protected configPath: string = getConfigPath();
+  protected backupDir: string = getBackupDir();
+
+  detect(): boolean {
+    if (!fs.existsSync(this.configPath)) {
+      return false;
+    }
+
+    try {
+      const settings: RooMcpSettings = JSON.parse(fs.readFileSync(this.configPath, 'utf-8'));
+      // Check if Roo MCP servers are configured
+      return 'mcpServers' in settings;
+    } catch {
+      return false;
+    }
+  }
+
+  getConfigPath(): string {
+    return this.configPath;
+  }
+
+  private ensureBackupDir(): void {
+    if (!fs.existsSync(this.backupDir)) {
+      fs.mkdirSync(this.backupDir, { recursive: true });
+    }
+  }
+
+  private backupFile(filePath: string, prefix: string): string {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Roo Code MCP settings not found at ${filePath}`);
+    }
+
+    this.ensureBackupDir();
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = path.join(this.backupDir, `${prefix}-${timestamp}.json`);
+
+    fs.copyFileSync(filePath, backupPath);
+
+    return backupPath;
+  }
+
+  createBackup(): string {
+    return this.backupFile(this.configPath, 'roo');
+  }
+
+  private readServers(filePath: string): Record<string, MCPServer> {
+    const settings: RooMcpSettings = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return settings.mcpServers || {};
+  }
+
+  /**
+   * Writes servers back to a settings file with the native `disabled` flag,
+   * keeping other fields and the original server order
+   */
+  private writeServers(filePath: string, servers: Record<string, MCPServer>, backupPrefix: string): void {
+    // Create backup before modifying (a new file has nothing to back up)
+    const backupPath = fs.existsSync(filePath) ? this.backupFile(filePath, backupPrefix) : null;
+
+    try {
+      const settings: RooMcpSettings = backupPath
+        ? JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+        : { mcpServers: {} };
+
+      settings.mcpServers = servers;
+
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(settings, null, 2), 'utf-8');
+    } catch (error) {
+      // If write fails, restore from backup
+      if (backupPath) {
+        fs.copyFileSync(backupPath, filePath);
+      }
+      throw new Error(`Failed to save Roo Code MCP settings (restored from backup): ${error}`);
+    }
+  }
+
+  loadConfig(): MCPConfig {
+    if (!fs.existsSync(this.configPath)) {
+      throw new Error(
+        `Roo Code MCP settings not found at ${this.configPath}\n` +
+        'Make sure VS Code and Roo Code are installed.'
+      );
+    }
+
+    try {
+      const { enabled, disabled } = splitByDisabledFlag(this.readServers(this.configPath));
+
+      return {
+        enabled,
+        disabled,
+        metadata: {
+          tool: 'roo',
+          nativeSettings: true
+        }
+      };
+    } catch (error) {
+      throw new Error(`Failed to parse Roo Code MCP settings: ${error}`);
+    }
+  }
+
+  saveConfig(config: MCPConfig): void {
+    const existing = this.readServers(this.configPath);
+    this.writeServers(this.configPath, mergeWithDisabledFlag(config.enabled, config.disabled, existing), 'roo');
+  }
+
+  supportsProjectScope(): boolean {
+    return true;
+  }
+
+  detectProjectRoot(startPath: string): string | null {
+    return findProjectFile(startPath, PROJECT_CONFIG_FILE);
+  }
+
+  loadProjectConfig(projectPath: string): MCPConfig | null {
+    const normalizedPath = normalizeProjectPath(projectPath);
+    const configPath = path.join(normalizedPath, PROJECT_CONFIG_FILE);
+
+    if (!fs.existsSync(configPath)) {
+      return null;
+    }
+
+    try {
+      const { enabled, disabled } = splitByDisabledFlag(this.readServers(configPath));
+
+      return {
+        enabled,
+        disabled,
+        metadata: {
+          tool: 'roo',
+          scope: 'project',
+          projectPath: normalizedPath
+        }
+      };
+    } catch (error) {
+      throw new Error(`Failed to load project config: ${error}`);
+    }
+  }
+
+  saveProjectConfig(projectPath: string, config: MCPConfig): void {
+    const normalizedPath = normalizeProjectPath(projectPath);
+    const configPath = path.join(normalizedPath, PROJECT_CONFIG_FILE);
+
+    const existing = fs.existsSync(configPath) ? this.readServers(configPath) : {};
+    const globalServers = fs.existsSync(this.configPath) ? this.readServers(this.configPath) : {};
+
+    // Re-enabling an inherited server only needs its disabling override removed
+    const enabled: Record<string, MCPServer> = {};
+    for (const [name, server] of Object.entries(config.enabled)) {
+      const { disabled: _flag, ...globalServer } = globalServers[name] || {};
+      const isOverride = existing[name]?.disabled === true && globalServers[name] !== undefined;
+      if (!(isOverride && JSON.stringify(server) === JSON.stringify(globalServer))) {
+        enabled[name] = server;
+      }
+    }
+
+    this.writeServers(configPath, mergeWithDisabledFlag(enabled, config.disabled, existing), 'roo-project');
+  }
+
+  getMergedConfig(projectPath: string): ScopedMCPConfig {
+    return this.mergeScopedConfigs(this.loadConfig(), this.loadProjectConfig(projectPath), projectPath);
+  }
+}
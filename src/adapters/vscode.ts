@@ -0,0 +1,246 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { BaseAdapter, type MCPConfig, type MCPServer, type ScopedMCPConfig } from './base.js';
+import { parseJsonc, updateJsoncMap } from '../utils/jsonc.js';
+import { findProjectFile, normalizeProjectPath } from '../utils/scope.js';
+import type { ReferenceKind } from '../utils/references.js';
+import { getVSCodeUserDir } from '../utils/vscode.js';
+
+function getConfigPath(): string {
+  return path.join(getVSCodeUserDir(), 'mcp.json');
+}
+
+function getDisabledConfigPath(): string {
+  return path.join(getVSCodeUserDir(), 'mcp-disabled.json');
+}
+
+function getBackupDir(): string {
+  return path.join(os.homedir(), '.claude-mcp-backups', 'vscode');
+}
+
+// Workspace-level files, relative to the project root
+const PROJECT_CONFIG_FILE = path.join('.vscode', 'mcp.json');
+const PROJECT_DISABLED_FILE = path.join('.vscode', 'mcp-disabled.json');
+
+/**
+ * VS Code mcp.json file. Besides `servers` it may hold `inputs`
+ * (prompted secrets referenced as ${input:id}), which must survive saves.
+ */
+interface VSCodeMcpFile {
+  servers?: Record<string, MCPServer>;
+  inputs?: any[];
+  [key: string]: any;
+}
+
+interface DisabledConfigFile {
+  servers: Record<string, MCPServer>;
+}
+
+const EMPTY_MCP_FILE = '{\n  "servers": {}\n}\n';
+
+/**
+ * Adapter for VS Code's built-in MCP support
+ * Manages the `servers` map in the user-profile mcp.json and, at project
+ * scope, in the workspace's .vscode/mcp.json.
+ *
+ * Servers may be stdio (`command`) or remote (`type: "http"`/`"sse"` with `url`).
+ * mcp.json allows comments, so only changed servers are rewritten.
+ * Disabled servers are kept in an mcp-disabled.json file next to each mcp.json.
+ * VS Code has no per-workspace switch for user-profile servers, so those
+ * can only be disabled at user scope.
+ */
+export class VSCodeAdapter extends BaseAdapter {
+  readonly name = 'VS Code';
+  readonly id = 'vscode';
+
+  // VS Code expands ${env:VAR} in mcp.json itself
+  readonly nativeReferenceKinds: ReferenceKind[] = ['env'];
+
+  // Allow overriding paths for testing
+  protected configPath: string = getConfigPath();
+  protected disabledConfigPath: string = getDisabledConfigPath();
+  protected backupDir: string = getBackupDir();
+
+  detect(): boolean {
+    if (fs.existsSync(this.configPath)) {
+      try {
+        parseJsonc(fs.readFileSync(this.configPath, 'utf-8'));
+        return true;
+      } catch {
+        return false;
+      }
+    }
+
+    // A workspace config is enough to manage VS Code at project scope
+    return this.detectProjectRoot(process.cwd()) !== null;
+  }
+
+  getConfigPath(): string {
+    return this.configPath;
+  }
+
+  private ensureBackupDir(): void {
+    if (!fs.existsSync(this.backupDir)) {
+      fs.mkdirSync(this.backupDir, { recursive: true });
+    }
+  }
+
+  /**
+   * Backs up an mcp.json file and its disabled sidecar (if present)
+   */
+  private backupFiles(configPath: string, disabledPath: string, prefix: string): string {
+    if (!fs.existsSync(configPath)) {
+      throw new Error(`VS Code MCP config not found at ${configPath}`);
+    }
+
+    this.ensureBackupDir();
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = path.join(this.backupDir, `${prefix}-${timestamp}.json`);
+
+    fs.copyFileSync(configPath, backupPath);
+
+    if (fs.existsSync(disabledPath)) {
+      fs.copyFileSync(disabledPath, path.join(this.backupDir, `${prefix}-disabled-${timestamp}.json`));
+    }
+
+    return backupPath;
+  }
+
+  createBackup(): string {
+    return this.backupFiles(this.configPath, this.disabledConfigPath, 'vscode');
+  }
+
+  private readServers(configPath: string, disabledPath: string): { enabled: Record<string, MCPServer>; disabled: Record<string, MCPServer> } {
+    let enabled: Record<string, MCPServer> = {};
+    if (fs.existsSync(configPath)) {
+      const mcpFile = parseJsonc<VSCodeMcpFile>(fs.readFileSync(configPath, 'utf-8'));
+      enabled = mcpFile.servers || {};
+    }
+
+    let disabled: Record<string, MCPServer> = {};
+    if (fs.existsSync(disabledPath)) {
+      const disabledFile: DisabledConfigFile = JSON.parse(fs.readFileSync(disabledPath, 'utf-8'));
+      disabled = disabledFile.servers || {};
+    }
+
+    return { enabled, disabled };
+  }
+
+  /**
+   * Writes servers back to an mcp.json (keeping `inputs`, comments and other keys)
+   * and its disabled sidecar, restoring both from backup on failure
+   */
+  private writeServers(configPath: string, disabledPath: string, config: MCPConfig, backupPrefix: string): void {
+    // Create backup before modifying (a new file has nothing to back up)
+    const backupPath = fs.existsSync(configPath)
+      ? this.backupFiles(configPath, disabledPath, backupPrefix)
+      : null;
+    const newFiles = [configPath, disabledPath].filter(file => !fs.existsSync(file));
+
+    try {
+      const raw = backupPath ? fs.readFileSync(configPath, 'utf-8') : EMPTY_MCP_FILE;
+      fs.mkdirSync(path.dirname(configPath), { recursive: true });
+      fs.writeFileSync(configPath, updateJsoncMap(raw, 'servers', config.enabled), 'utf-8');
+
+      // Handle disabled servers in separate file
+      if (Object.keys(config.disabled).length > 0) {
+        const disabledFile: DisabledConfigFile = { servers: config.disabled };
+        fs.writeFileSync(disabledPath, JSON.stringify(disabledFile, null, 2), 'utf-8');
+      } else if (fs.existsSync(disabledPath)) {
+        // Clean up disabled config if empty
+        fs.unlinkSync(disabledPath);
+      }
+    } catch (error) {
+      // If write fails, remove the files it created and restore the others from backup
+      newFiles.filter(file => fs.existsSync(file)).forEach(file => fs.unlinkSync(file));
+      if (backupPath) {
+        fs.copyFileSync(backupPath, configPath);
+
+        const disabledBackupPath = backupPath.replace(`${backupPrefix}-`, `${backupPrefix}-disabled-`);
+        if (fs.existsSync(disabledBackupPath)) {
+          fs.copyFileSync(disabledBackupPath, disabledPath);
+        }
+        throw new Error(`Failed to save VS Code MCP config (restored from backup): ${error}`);
+      }
+
+      throw new Error(`Failed to save VS Code MCP config: ${error}`);
+    }
+  }
+
+  loadConfig(): MCPConfig {
+    try {
+      // A missing user mcp.json just means no user-level servers yet
+      const { enabled, disabled } = this.readServers(this.configPath, this.disabledConfigPath);
+
+      return {
+        enabled,
+        disabled,
+        metadata: {
+          tool: 'vscode',
+          separateDisabledFile: true
+        }
+      };
+    } catch (error) {
+      throw new Error(`Failed to parse VS Code MCP config: ${error}`);
+    }
+  }
+
+  saveConfig(config: MCPConfig): void {
+    this.writeServers(this.configPath, this.disabledConfigPath, config, 'vscode');
+  }
+
+  supportsProjectScope(): boolean {
+    return true;
+  }
+
+  supportsDisablingInheritedServers(): boolean {
+    return false;
+  }
+
+  detectProjectRoot(startPath: string): string | null {
+    return findProjectFile(startPath, PROJECT_CONFIG_FILE) || findProjectFile(startPath, PROJECT_DISABLED_FILE);
+  }
+
+  loadProjectConfig(projectPath: string): MCPConfig | null {
+    const normalizedPath = normalizeProjectPath(projectPath);
+    const configPath = path.join(normalizedPath, PROJECT_CONFIG_FILE);
+    const disabledPath = path.join(normalizedPath, PROJECT_DISABLED_FILE);
+
+    if (!fs.existsSync(configPath) && !fs.existsSync(disabledPath)) {
+      return null;
+    }
+
+    try {
+      const { enabled, disabled } = this.readServers(configPath, disabledPath);
+
+      return {
+        enabled,
+        disabled,
+        metadata: {
+          tool: 'vscode',
+          scope: 'project',
+          projectPath: normalizedPath
+        }
+      };
+    } catch (error) {
+      throw new Error(`Failed to load project config: ${error}`);
+    }
+  }
+
+  saveProjectConfig(projectPath: string, config: MCPConfig): void {
+    const normalizedPath = normalizeProjectPath(projectPath);
+
+    this.writeServers(
+      path.join(normalizedPath, PROJECT_CONFIG_FILE),
+      path.join(normalizedPath, PROJECT_DISABLED_FILE),
+      config,
+      'vscode-project'
+    );
+  }
+
+  getMergedConfig(projectPath: string): ScopedMCPConfig {
+    return this.mergeScopedConfigs(this.loadConfig(), this.loadProjectConfig(projectPath), projectPath);
+  }
+}
@@ -0,0 +1,239 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { BaseAdapter, isRemoteServer, type MCPConfig, type MCPServer } from './base.js';
+import { splitByDisabledFlag, mergeWithDisabledFlag } from './disabled-flag.js';
+
+// Windsurf config location
+function getWindsurfConfigDir(): string {
+  return path.join(os.homedir(), '.codeium', 'windsurf');
+}
+
+function getConfigPath(): string {
+  return path.join(getWindsurfConfigDir(), 'mcp_config.json');
+}
+
+function getDisabledConfigPath(): string {
+  return path.join(getWindsurfConfigDir(), 'mcp-disabled.json');
+}
+
+function getBackupDir(): string {
+  return path.join(os.homedir(), '.claude-mcp-backups', 'windsurf');
+}
+
+/**
+ * A server as Windsurf stores it (remote servers use `serverUrl` instead of `url`)
+ */
+export interface WindsurfServer {
+  serverUrl?: string;
+  disabled?: boolean;
+  [key: string]: any;
+}
+
+interface WindsurfConfigFile {
+  mcpServers: Record<string, WindsurfServer>;
+  [key: string]: any;
+}
+
+/**
+ * Converts a Windsurf server to the MCPServer shape (remote servers use `serverUrl` -> `url`)
+ */
+export function fromWindsurfServer(server: WindsurfServer): MCPServer {
+  const { serverUrl, ...rest } = server;
+  if (serverUrl === undefined || rest.url !== undefined) {
+    return server as MCPServer;
+  }
+  return { ...rest, url: serverUrl };
+}
+
+/**
+ * Converts an MCPServer back to Windsurf's shape. When `existing` (the entry
+ * currently in the file) describes the same server, it is returned as-is.
+ */
+export function toWindsurfServer(server: MCPServer, existing?: WindsurfServer): WindsurfServer {
+  if (existing) {
+    const { disabled: _flag, ...original } = existing;
+    if (JSON.stringify(fromWindsurfServer(original)) === JSON.stringify(server)) {
+      return original;
+    }
+  }
+  if (!isRemoteServer(server)) {
+    return server;
+  }
+  const { url, ...rest } = server;
+  return { ...rest, serverUrl: url };
+}
+
+function mapServers<From, To>(
+  servers: Record<string, From>,
+  convert: (server: From, name: string) => To
+): Record<string, To> {
+  return Object.fromEntries(Object.entries(servers).map(([name, server]) => [name, convert(server, name)]));
+}
+
+/**
+ * How disabled servers are stored:
+ * - native: keep them in mcp_config.json with Windsurf's own `disabled: true` flag
+ * - sidecar: move them to a separate mcp-disabled.json file (same as Cursor)
+ */
+export type WindsurfDisabledStrategy = 'native' | 'sidecar';
+
+export const WINDSURF_DISABLED_STRATEGIES: WindsurfDisabledStrategy[] = ['native', 'sidecar'];
+
+/**
+ * Adapter for Windsurf (Codeium)
+ * Manages ~/.codeium/windsurf/mcp_config.json
+ *
+ * Remote servers are written with Windsurf's `serverUrl` key.
+ * Loading understands both strategies at once, so switching strategy
+ * migrates disabled servers on the next save.
+ */
+export class WindsurfAdapter extends BaseAdapter {
+  readonly name = 'Windsurf';
+  readonly id = 'windsurf';
+
+  // Allow overriding paths for testing
+  protected configPath: string = getConfigPath();
+  protected disabledConfigPath: string = getDisabledConfigPath();
+  protected backupDir: string = getBackupDir();
+
+  constructor(protected disabledStrategy: WindsurfDisabledStrategy = 'native') {
+    super();
+  }
+
+  /**
+   * Chooses where disabled servers are written from now on
+   */
+  setDisabledStrategy(strategy: string): void {
+    if (!WINDSURF_DISABLED_STRATEGIES.includes(strategy as WindsurfDisabledStrategy)) {
+      throw new Error(`Unknown Windsurf disabled strategy: "${strategy}". Use one of: ${WINDSURF_DISABLED_STRATEGIES.join(', ')}`);
+    }
+    this.disabledStrategy = strategy as WindsurfDisabledStrategy;
+  }
+
+  detect(): boolean {
+    if (!fs.existsSync(this.configPath)) {
+      return false;
+    }
+
+    try {
+      const config: WindsurfConfigFile = JSON.parse(fs.readFileSync(this.configPath, 'utf-8'));
+      // Check if Windsurf MCP servers are configured
+      return 'mcpServers' in config;
+    } catch {
+      return false;
+    }
+  }
+
+  getConfigPath(): string {
+    return this.configPath;
+  }
+
+  private ensureBackupDir(): void {
+    if (!fs.existsSync(this.backupDir)) {
+      fs.mkdirSync(this.backupDir, { recursive: true });
+    }
+  }
+
+  createBackup(): string {
+    if (!fs.existsSync(this.configPath)) {
+      throw new Error(`Windsurf config not found at ${this.configPath}`);
+    }
+
+    this.ensureBackupDir();
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = path.join(this.backupDir, `windsurf-${timestamp}.json`);
+    const disabledBackupPath = path.join(this.backupDir, `windsurf-disabled-${timestamp}.json`);
+
+    // Backup main config
+    fs.copyFileSync(this.configPath, backupPath);
+
+    // Backup disabled config if it exists
+    if (fs.existsSync(this.disabledConfigPath)) {
+      fs.copyFileSync(this.disabledConfigPath, disabledBackupPath);
+    }
+
+    return backupPath;
+  }
+
+  loadConfig(): MCPConfig {
+    if (!fs.existsSync(this.configPath)) {
+      throw new Error(
+        `Windsurf config not found at ${this.configPath}\n` +
+        'Make sure Windsurf is installed and you have configured MCP servers.'
+      );
+    }
+
+    try {
+      const raw = fs.readFileSync(this.configPath, 'utf-8');
+      const windsurfConfig: WindsurfConfigFile = JSON.parse(raw);
+
+      // Servers flagged with `disabled: true` in the main config
+      const { enabled, disabled } = splitByDisabledFlag(mapServers(windsurfConfig.mcpServers || {}, fromWindsurfServer));
+
+      // Servers moved to the sidecar file
+      if (fs.existsSync(this.disabledConfigPath)) {
+        const disabledConfig: WindsurfConfigFile = JSON.parse(fs.readFileSync(this.disabledConfigPath, 'utf-8'));
+        Object.assign(disabled, disabledConfig.mcpServers || {});
+      }
+
+      return {
+        enabled,
+        disabled,
+        metadata: {
+          tool: 'windsurf',
+          disabledStrategy: this.disabledStrategy
+        }
+      };
+    } catch (error) {
+      throw new Error(`Failed to parse Windsurf config: ${error}`);
+    }
+  }
+
+  saveConfig(config: MCPConfig): void {
+    // Create backup before modifying
+    const backupPath = this.createBackup();
+
+    try {
+      // Read existing config to preserve other fields
+      const existingRaw = fs.readFileSync(this.configPath, 'utf-8');
+      const existingConfig: WindsurfConfigFile = JSON.parse(existingRaw);
+      const hasDisabled = Object.keys(config.disabled).length > 0;
+      const existingServers = existingConfig.mcpServers || {};
+      const toNative = (server: MCPServer, name: string) => toWindsurfServer(server, existingServers[name]);
+      const enabled = mapServers(config.enabled, toNative);
+
+      if (this.disabledStrategy === 'native') {
+        existingConfig.mcpServers = mergeWithDisabledFlag(enabled, mapServers(config.disabled, toNative), existingServers);
+      } else {
+        existingConfig.mcpServers = mergeWithDisabledFlag(enabled, {}, existingServers);
+      }
+
+      fs.writeFileSync(this.configPath, JSON.stringify(existingConfig, null, 2), 'utf-8');
+
+      if (this.disabledStrategy === 'sidecar' && hasDisabled) {
+        // Create/update disabled config file
+        const disabledConfig: WindsurfConfigFile = {
+          mcpServers: config.disabled
+        };
+        fs.writeFileSync(this.disabledConfigPath, JSON.stringify(disabledConfig, null, 2), 'utf-8');
+      } else if (fs.existsSync(this.disabledConfigPath)) {
+        // Clean up disabled config if empty or no longer used
+        fs.unlinkSync(this.disabledConfigPath);
+      }
+    } catch (error) {
+      // If write fails, restore from backup
+      fs.copyFileSync(backupPath, this.configPath);
+
+      // Also restore disabled file if backup exists
+      const timestamp = path.basename(backupPath).replace('windsurf-', '').replace('.json', '');
+      const disabledBackupPath = path.join(this.backupDir, `windsurf-disabled-${timestamp}.json`);
+      if (fs.existsSync(disabledBackupPath)) {
+        fs.copyFileSync(disabledBackupPath, this.disabledConfigPath);
+      }
+
+      throw new Error(`Failed to save config (restored from backup): ${error}`);
+    }
+  }
+}
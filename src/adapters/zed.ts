@@ -0,0 +1,239 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { BaseAdapter, type MCPConfig, type MCPServer } from './base.js';
+import { parseJsonc, updateJsoncMap } from '../utils/jsonc.js';
+
+// Zed config location (platform-aware)
+function getZedConfigDir(): string {
+  if (process.platform === 'win32') {
+    return path.join(os.homedir(), 'AppData/Roaming/Zed');
+  }
+  return path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'zed');
+}
+
+function getConfigPath(): string {
+  return path.join(getZedConfigDir(), 'settings.json');
+}
+
+function getDisabledConfigPath(): string {
+  return path.join(getZedConfigDir(), 'mcp-disabled.json');
+}
+
+function getBackupDir(): string {
+  return path.join(os.homedir(), '.claude-mcp-backups', 'zed');
+}
+
+/**
+ * A context server as Zed stores it.
+ * Older Zed versions nest the launch details under `command`, newer ones
+ * accept the flat `command`/`args`/`env` shape. Remote servers use `url`.
+ */
+export interface ZedContextServer {
+  command?: string | { path: string; args?: string[]; env?: Record<string, string> };
+  args?: string[];
+  env?: Record<string, string>;
+  settings?: Record<string, any>;
+  [key: string]: any;
+}
+
+interface ZedSettings {
+  context_servers?: Record<string, ZedContextServer>;
+  [key: string]: any;
+}
+
+interface DisabledConfigFile {
+  context_servers: Record<string, ZedContextServer>;
+}
+
+/**
+ * Converts a Zed context server to the flat MCPServer shape
+ */
+export function fromZedServer(server: ZedContextServer): MCPServer {
+  if (server.command && typeof server.command === 'object') {
+    const { command, ...rest } = server;
+    return {
+      ...rest,
+      command: command.path,
+      ...(command.args ? { args: command.args } : {}),
+      ...(command.env ? { env: command.env } : {})
+    };
+  }
+  return server as MCPServer;
+}
+
+/**
+ * Converts a flat MCPServer back to Zed's nested `command: { path, args, env }` shape.
+ * Remote servers (no command) and servers originally written flat are left as-is.
+ */
+export function toZedServer(server: MCPServer, nested: boolean = true): ZedContextServer {
+  if (!nested || typeof server.command !== 'string' || !server.command) {
+    return server;
+  }
+
+  const { command, args, env, ...rest } = server;
+  return {
+    ...rest,
+    command: {
+      path: command,
+      ...(args ? { args } : {}),
+      ...(env ? { env } : {})
+    }
+  };
+}
+
+/**
+ * Adapter for the Zed editor
+ * Manages the `context_servers` key in ~/.config/zed/settings.json
+ *
+ * Zed's settings file allows comments and trailing commas, so edits are applied
+ * in place (only the changed servers are rewritten). Disabled servers are kept
+ * in a separate mcp-disabled.json file next to the settings.
+ */
+export class ZedAdapter extends BaseAdapter {
+  readonly name = 'Zed';
+  readonly id = 'zed';
+
+  // Allow overriding paths for testing
+  protected configPath: string = getConfigPath();
+  protected disabledConfigPath: string = getDisabledConfigPath();
+  protected backupDir: string = getBackupDir();
+
+  detect(): boolean {
+    if (!fs.existsSync(this.configPath)) {
+      return false;
+    }
+
+    try {
+      const settings = parseJsonc<ZedSettings>(fs.readFileSync(this.configPath, 'utf-8'));
+      // Check if Zed context servers are configured
+      return 'context_servers' in settings || fs.existsSync(this.disabledConfigPath);
+    } catch {
+      return false;
+    }
+  }
+
+  getConfigPath(): string {
+    return this.configPath;
+  }
+
+  private ensureBackupDir(): void {
+    if (!fs.existsSync(this.backupDir)) {
+      fs.mkdirSync(this.backupDir, { recursive: true });
+    }
+  }
+
+  createBackup(): string {
+    if (!fs.existsSync(this.configPath)) {
+      throw new Error(`Zed settings not found at ${this.configPath}`);
+    }
+
+    this.ensureBackupDir();
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = path.join(this.backupDir, `zed-${timestamp}.json`);
+    const disabledBackupPath = path.join(this.backupDir, `zed-disabled-${timestamp}.json`);
+
+    // Backup main settings
+    fs.copyFileSync(this.configPath, backupPath);
+
+    // Backup disabled config if it exists
+    if (fs.existsSync(this.disabledConfigPath)) {
+      fs.copyFileSync(this.disabledConfigPath, disabledBackupPath);
+    }
+
+    return backupPath;
+  }
+
+  loadConfig(): MCPConfig {
+    if (!fs.existsSync(this.configPath)) {
+      throw new Error(
+        `Zed settings not found at ${this.configPath}\n` +
+        'Make sure Zed is installed and you have configured context servers.'
+      );
+    }
+
+    try {
+      const settings = parseJsonc<ZedSettings>(fs.readFileSync(this.configPath, 'utf-8'));
+
+      let disabledServers: Record<string, ZedContextServer> = {};
+      if (fs.existsSync(this.disabledConfigPath)) {
+        const disabledConfig: DisabledConfigFile = JSON.parse(fs.readFileSync(this.disabledConfigPath, 'utf-8'));
+        disabledServers = disabledConfig.context_servers || {};
+      }
+
+      return {
+        enabled: this.fromZedServers(settings.context_servers || {}),
+        disabled: this.fromZedServers(disabledServers),
+        metadata: {
+          tool: 'zed',
+          separateDisabledFile: true
+        }
+      };
+    } catch (error) {
+      throw new Error(`Failed to parse Zed settings: ${error}`);
+    }
+  }
+
+  saveConfig(config: MCPConfig): void {
+    // Create backup before modifying
+    const backupPath = this.createBackup();
+
+    try {
+      const raw = fs.readFileSync(this.configPath, 'utf-8');
+      const existing = parseJsonc<ZedSettings>(raw).context_servers || {};
+
+      // Only changed servers are rewritten, so comments around the others survive
+      const updated = updateJsoncMap(raw, 'context_servers', this.toZedServers(config.enabled, existing));
+
+      fs.writeFileSync(this.configPath, updated, 'utf-8');
+
+      // Handle disabled servers in separate file
+      if (Object.keys(config.disabled).length > 0) {
+        const disabledConfig: DisabledConfigFile = {
+          context_servers: this.toZedServers(config.disabled, {})
+        };
+        fs.writeFileSync(this.disabledConfigPath, JSON.stringify(disabledConfig, null, 2), 'utf-8');
+      } else if (fs.existsSync(this.disabledConfigPath)) {
+        // Clean up disabled config if empty
+        fs.unlinkSync(this.disabledConfigPath);
+      }
+    } catch (error) {
+      // If write fails, restore from backup
+      fs.copyFileSync(backupPath, this.configPath);
+
+      // Also restore disabled file if backup exists
+      const timestamp = path.basename(backupPath).replace('zed-', '').replace('.json', '');
+      const disabledBackupPath = path.join(this.backupDir, `zed-disabled-${timestamp}.json`);
+      if (fs.existsSync(disabledBackupPath)) {
+        fs.copyFileSync(disabledBackupPath, this.disabledConfigPath);
+      }
+
+      throw new Error(`Failed to save settings (restored from backup): ${error}`);
+    }
+  }
+
+  private fromZedServers(servers: Record<string, ZedContextServer>): Record<string, MCPServer> {
+    const result: Record<string, MCPServer> = {};
+    for (const [name, server] of Object.entries(servers)) {
+      result[name] = fromZedServer(server);
+    }
+    return result;
+  }
+
+  /**
+   * Converts servers back to Zed's shape, keeping whichever shape (nested or flat)
+   * a server already had in the settings file
+   */
+  private toZedServers(
+    servers: Record<string, MCPServer>,
+    existing: Record<string, ZedContextServer>
+  ): Record<string, ZedContextServer> {
+    const result: Record<string, ZedContextServer> = {};
+    for (const [name, server] of Object.entries(servers)) {
+      const wasFlat = existing[name] !== undefined && typeof existing[name].command !== 'object';
+      result[name] = toZedServer(server, !wasFlat);
+    }
+    return result;
+  }
+}
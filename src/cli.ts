@@ -3,20 +3,34 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { AdapterRegistry } from './adapters/registry.js';
+import { WindsurfAdapter } from './adapters/windsurf.js';
 import { disableCommand } from './commands/disable.js';
 import { enableCommand } from './commands/enable.js';
 import { listCommand } from './commands/list.js';
 import { statusCommand } from './commands/status.js';
+import { measureCommand } from './commands/measure.js';
+import { inspectCommand, type InspectCommandOptions } from './commands/inspect.js';
+import { benchCommand, type BenchCommandOptions } from './commands/bench.js';
+import { doctorCommand, type DoctorCommandOptions } from './commands/doctor.js';
+import { calibrateCommand } from './commands/calibrate.js';
+import { fitCommand, type FitCommandOptions } from './commands/fit.js';
+import { budgetSetCommand, budgetShowCommand, budgetClearCommand, budgetPriorityCommand } from './commands/budget.js';
 import {
   saveProfile,
   loadProfile,
   listProfilesCommand,
   deleteProfile,
-  createPrebuiltProfiles
+  createPrebuiltProfiles,
+  checkProfileCommand,
+  type SaveProfileOptions,
+  type LoadProfileOptions
 } from './commands/profile.js';
 import { interactiveCommand } from './commands/interactive.js';
 import { detectCommand } from './commands/detect.js';
+import { catalogAddCommand, catalogListCommand, catalogRemoveCommand, type CatalogAddOptions } from './commands/catalog.js';
 import { resolveScopeInfo, type ScopeInfo } from './utils/scope.js';
+import { setDefaultTokenizer } from './utils/tokenizer.js';
+import { useProjectCatalog } from './utils/catalog.js';
 
 const program = new Command();
 
@@ -25,8 +39,28 @@ program
   .description(chalk.cyan('Universal MCP server manager for AI coding agents'))
   .version('1.0.0')
   .option('--tool <tool>', 'Specify which tool to manage (claude, cline, etc). Auto-detects if not specified.')
-  .option('--scope <scope>', 'Scope for configuration: user, project, or auto (default: auto)', 'auto')
-  .option('--project-path <path>', 'Project path for project-level config (default: current directory)');
+  .option('--scope <scope>', 'Scope for configuration: user, project, local, or auto (default: auto)', 'auto')
+  .option('--project-path <path>', 'Project path for project-level config (default: current directory)')
+  .option('--model <model>', 'Model whose context window usage is shown against, e.g. claude-sonnet-1m or 500k (default: per tool)')
+  .option('--tokenizer <tokenizer>', 'Tokenizer for counting measured tools: claude, o200k, cl100k or chars (default: claude)')
+  .option('--windsurf-disabled <strategy>', 'Where Windsurf keeps disabled servers: native (disabled flag) or sidecar (mcp-disabled.json) (default: native)');
+
+// Apply the chosen tokenizer and Windsurf strategy before any command runs
+program.hook('preAction', () => {
+  const { tokenizer, windsurfDisabled } = program.opts();
+
+  try {
+    if (tokenizer) {
+      setDefaultTokenizer(tokenizer);
+    }
+    if (windsurfDisabled) {
+      (AdapterRegistry.getById('windsurf') as WindsurfAdapter).setDisabledStrategy(windsurfDisabled);
+    }
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+});
 
 // Helper to get scope info and adapter
 function getAdapterAndScope(): { adapter: any; scopeInfo: ScopeInfo } {
@@ -35,14 +69,24 @@ function getAdapterAndScope(): { adapter: any; scopeInfo: ScopeInfo } {
   
   // Validate scope support
   try {
-    const scopeInfo = resolveScopeInfo(opts.scope, opts.projectPath);
+    const scopeInfo = resolveScopeInfo(opts.scope, opts.projectPath, adapter);
     
-    if (scopeInfo.scope === 'project' && !adapter.supportsProjectScope()) {
+    if (scopeInfo.scope !== 'user' && !adapter.supportsProjectScope()) {
       throw new Error(
         `${adapter.name} does not support project-level configuration.\n` +
         `Use --scope=user to manage user-level configuration instead.`
       );
     }
+
+    if (scopeInfo.scope === 'local' && !adapter.supportsLocalScope()) {
+      throw new Error(
+        `${adapter.name} has no separate local scope.\n` +
+        `Use --scope=project to manage its project-level configuration instead.`
+      );
+    }
+
+    // Estimates also consult the catalog of the project being managed
+    useProjectCatalog(scopeInfo.projectPath || opts.projectPath);
     
     return { adapter, scopeInfo };
   } catch (error) {
@@ -93,7 +137,110 @@ program
   .description('Show detailed server status with token estimates')
   .action(() => {
     const { adapter, scopeInfo } = getAdapterAndScope();
-    statusCommand(adapter, scopeInfo);
+    statusCommand(adapter, scopeInfo, program.opts().model);
+  });
+
+// Measure command
+program
+  .command('measure [server]')
+  .description('Start servers and count the tokens their tools, prompts and resources really use')
+  .option('--all', 'Also measure disabled servers')
+  .option('--timeout <seconds>', 'Time allowed per server, including startup', '30')
+  .action(async (server: string | undefined, options: { all?: boolean; timeout?: string }) => {
+    const { adapter, scopeInfo } = getAdapterAndScope();
+    await measureCommand(adapter, scopeInfo, server, options);
+  });
+
+// Inspect command
+program
+  .command('inspect <server>')
+  .description("Connect to a server and list its tools, prompts and resources with each one's token cost")
+  .option('--json', 'Output as JSON')
+  .option('--timeout <seconds>', 'Time allowed for the server to start and answer', '30')
+  .action(async (server: string, options: InspectCommandOptions) => {
+    const { adapter, scopeInfo } = getAdapterAndScope();
+    await inspectCommand(adapter, scopeInfo, server, options);
+  });
+
+// Bench command
+program
+  .command('bench [server]')
+  .description('Start enabled servers several times and report median and p95 startup times')
+  .option('--runs <n>', 'Times to start each server', '5')
+  .option('--timeout <seconds>', 'Time allowed per run, including startup', '30')
+  .action(async (server: string | undefined, options: BenchCommandOptions) => {
+    const { adapter, scopeInfo } = getAdapterAndScope();
+    await benchCommand(adapter, scopeInfo, server, options);
+  });
+
+// Doctor command
+program
+  .command('doctor [server]')
+  .description('Health-check enabled servers: command on PATH, local files, env vars and the MCP handshake')
+  .option('--timeout <seconds>', 'Time allowed per handshake, including startup', '30')
+  .option('--no-handshake', 'Only run the static checks, without starting servers')
+  .action(async (server: string | undefined, options: DoctorCommandOptions) => {
+    const { adapter, scopeInfo } = getAdapterAndScope();
+    await doctorCommand(adapter, scopeInfo, server, options);
+  });
+
+// Calibrate command
+program
+  .command('calibrate [file]')
+  .description("Record real per-server tool tokens from Claude Code's /context output (file or stdin)")
+  .option('--project', 'Write to the project catalog instead of the user catalog')
+  .action(async (file: string | undefined, options: { project?: boolean }) => {
+    const { adapter, scopeInfo } = getAdapterAndScope();
+    await calibrateCommand(adapter, scopeInfo, file, options);
+  });
+
+// Budget commands
+const budgetCmd = program
+  .command('budget')
+  .description('Manage the token budget for MCP servers at the chosen scope');
+
+budgetCmd
+  .command('show', { isDefault: true })
+  .description('Show the budget, current usage and server priorities')
+  .action(() => {
+    const { adapter, scopeInfo } = getAdapterAndScope();
+    budgetShowCommand(adapter, scopeInfo);
+  });
+
+budgetCmd
+  .command('set <tokens>')
+  .description('Set the most tokens MCP servers may use (e.g. 30000 or 30k)')
+  .action((tokens: string) => {
+    const { scopeInfo } = getAdapterAndScope();
+    budgetSetCommand(scopeInfo, tokens);
+  });
+
+budgetCmd
+  .command('clear')
+  .description('Remove the budget (priorities are kept)')
+  .action(() => {
+    const { scopeInfo } = getAdapterAndScope();
+    budgetClearCommand(scopeInfo);
+  });
+
+budgetCmd
+  .command('priority <server> <priority>')
+  .description('Set how much a server matters when fitting the budget (default 1, 0 = only if there is room)')
+  .action((server: string, priority: string) => {
+    const { scopeInfo } = getAdapterAndScope();
+    budgetPriorityCommand(scopeInfo, server, priority);
+  });
+
+// Fit command
+program
+  .command('fit')
+  .description('Enable the highest-priority servers that fit in the token budget and disable the rest')
+  .option('--budget <tokens>', 'Budget to fit instead of the saved one (e.g. 30k)')
+  .option('--dry-run', 'Only show the plan')
+  .option('-y, --yes', 'Apply without asking')
+  .action(async (options: FitCommandOptions) => {
+    const { adapter, scopeInfo } = getAdapterAndScope();
+    await fitCommand(adapter, scopeInfo, options);
   });
 
 // Profile commands
@@ -104,17 +251,28 @@ const profileCmd = program
 profileCmd
   .command('save <name>')
   .description('Save current configuration as a profile')
-  .action((name: string) => {
+  .option('--strip-secrets', 'Leave secret env and header values out of the profile')
+  .option('--secret-refs', 'Store secret env and header values as ${env:VAR} references')
+  .action((name: string, options: SaveProfileOptions) => {
     const { adapter, scopeInfo } = getAdapterAndScope();
-    saveProfile(adapter, name, scopeInfo);
+    saveProfile(adapter, name, scopeInfo, options);
   });
 
 profileCmd
   .command('load <name>')
-  .description('Load a saved profile')
-  .action((name: string) => {
+  .description('Load a saved profile, resolving its ${env:}, ${file:} and ${cmd:} references')
+  .option('--allow-cmd', 'Run ${cmd:...} references in the profile to get their values')
+  .action((name: string, options: LoadProfileOptions) => {
     const { adapter, scopeInfo } = getAdapterAndScope();
-    loadProfile(adapter, name, scopeInfo);
+    loadProfile(adapter, name, scopeInfo, options);
+  });
+
+profileCmd
+  .command('check <name>')
+  .description('Show which references in a profile resolve, before loading it')
+  .option('--allow-cmd', 'Run ${cmd:...} references to check them')
+  .action((name: string, options: LoadProfileOptions) => {
+    checkProfileCommand(name, options);
   });
 
 profileCmd
@@ -141,6 +299,40 @@ profileCmd
     createPrebuiltProfiles(adapter);
   });
 
+// Catalog commands
+const catalogCmd = program
+  .command('catalog')
+  .description('Manage the catalog of known server token counts');
+
+catalogCmd
+  .command('add <name>')
+  .description('Add or replace a catalog entry (matches the server name exactly unless --pattern or --command is given)')
+  .requiredOption('--tokens <count>', 'Tokens the server takes up')
+  .requiredOption('--tools <count>', 'Number of tools the server exposes')
+  .option('--pattern <regex>', 'Match server names against a regular expression')
+  .option('--command <text>', 'Match servers whose command, args or URL contain this text (e.g. a package name)')
+  .option('--project', 'Add to the project catalog instead of the user catalog')
+  .action((name: string, options: CatalogAddOptions) => {
+    catalogAddCommand(name, options, program.opts().projectPath);
+  });
+
+catalogCmd
+  .command('list')
+  .alias('ls')
+  .description('List built-in, user and project catalog entries')
+  .action(() => {
+    catalogListCommand(program.opts().projectPath);
+  });
+
+catalogCmd
+  .command('remove <name>')
+  .alias('rm')
+  .description('Remove a catalog entry')
+  .option('--project', 'Remove from the project catalog instead of the user catalog')
+  .action((name: string, options: { project?: boolean }) => {
+    catalogRemoveCommand(name, options, program.opts().projectPath);
+  });
+
 // Interactive command
 program
   .command('interactive')
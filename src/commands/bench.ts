@@ -0,0 +1,142 @@
+import chalk from 'chalk';
+import { isBuiltinServer, type MCPAdapter, type ScopedMCPConfig } from '../adapters/base.js';
+import type { ScopeInfo } from '../utils/scope.js';
+import {
+  header,
+  error as formatError,
+  formatScopeBadge,
+  formatCompactTokens,
+  formatServerTarget,
+  formatDuration,
+  createBenchTable
+} from '../utils/formatting.js';
+import { estimateServerTokens } from '../utils/tokens.js';
+import { benchServer, type BenchResult } from '../utils/bench.js';
+
+export interface BenchCommandOptions {
+  /** Times to start each server */
+  runs?: string;
+  /** Per-run timeout in seconds */
+  timeout?: string;
+}
+
+// Startup times worth a second look (ms)
+const SLOW_STARTUP_MS = 3000;
+const VERY_SLOW_STARTUP_MS = 10000;
+
+/**
+ * Helper to load config based on scope
+ */
+function loadScopedConfig(adapter: MCPAdapter, scopeInfo: ScopeInfo): ScopedMCPConfig {
+  if (scopeInfo.scope !== 'user' && adapter.supportsProjectScope() && adapter.getMergedConfig) {
+    return adapter.getMergedConfig(scopeInfo.projectPath!, scopeInfo.scope);
+  }
+  return { ...adapter.loadConfig(), scope: 'user' };
+}
+
+function colorDuration(ms: number | undefined): string {
+  if (ms === undefined) {
+    return chalk.gray('-');
+  }
+  const text = formatDuration(ms);
+  if (ms >= VERY_SLOW_STARTUP_MS) {
+    return chalk.red(text);
+  }
+  return ms >= SLOW_STARTUP_MS ? chalk.yellow(text) : chalk.green(text);
+}
+
+/**
+ * Starts each enabled server several times and reports how long it takes
+ * to initialize and list its tools, next to its token estimate
+ */
+export async function benchCommand(
+  adapter: MCPAdapter,
+  scopeInfo: ScopeInfo,
+  serverName: string | undefined,
+  options: BenchCommandOptions = {}
+): Promise<void> {
+  try {
+    const config = loadScopedConfig(adapter, scopeInfo);
+    const servers = serverName ? { ...config.disabled, ...config.enabled } : config.enabled;
+
+    if (serverName && !servers[serverName]) {
+      console.log(formatError(`Server "${serverName}" does not exist`));
+      console.log('\nUse "house-mcp-manager list" to see available servers.');
+      process.exit(1);
+    }
+
+    const runs = Number(options.runs ?? 5);
+    if (!Number.isInteger(runs) || runs <= 0) {
+      throw new Error(`Invalid runs: ${options.runs}. Must be a positive whole number.`);
+    }
+
+    const timeoutSeconds = Number(options.timeout ?? 30);
+    if (!Number.isFinite(timeoutSeconds) || timeoutSeconds <= 0) {
+      throw new Error(`Invalid timeout: ${options.timeout}. Must be a positive number of seconds.`);
+    }
+
+    const requested = serverName ? [serverName] : Object.keys(servers);
+    // Built-in servers run inside the tool, so there is no startup to time
+    const builtin = requested.filter(name => isBuiltinServer(servers[name]));
+    const names = requested.filter(name => !builtin.includes(name));
+    console.log(header(`Benchmarking MCP Server Startup (${adapter.name} - ${formatScopeBadge(config.scope || 'user')})`));
+
+    if (builtin.length > 0) {
+      console.log(chalk.gray(`Skipping built-in servers: ${builtin.join(', ')}`));
+    }
+
+    if (names.length === 0) {
+      console.log(chalk.gray(requested.length === 0 ? '\n  (no enabled servers)' : '\n  (no servers to start)'));
+      return;
+    }
+
+    console.log(chalk.dim(`Starting each server ${runs} time${runs === 1 ? '' : 's'}...`));
+
+    const results: Record<string, BenchResult> = {};
+
+    for (const name of names) {
+      process.stdout.write(`\n${chalk.bold(name)}${formatServerTarget(servers[name])}\n  `);
+      results[name] = await benchServer(servers[name], {
+        runs,
+        timeoutMs: timeoutSeconds * 1000,
+        onRun: (_, timing) => process.stdout.write(timing ? chalk.green('.') : chalk.red('x'))
+      });
+      process.stdout.write('\n');
+
+      if (results[name].failures > 0 && results[name].lastError) {
+        console.log(chalk.red(`  ${results[name].failures} failed: ${results[name].lastError.split('\n')[0]}`));
+      }
+    }
+
+    const table = createBenchTable();
+    names.forEach(name => {
+      const result = results[name];
+      table.push([
+        name,
+        formatCompactTokens(estimateServerTokens(name, servers[name])),
+        colorDuration(result.initialize?.median),
+        colorDuration(result.initialize?.p95),
+        colorDuration(result.toolsList?.median),
+        colorDuration(result.toolsList?.p95),
+        result.failures > 0 ? chalk.red(`${result.runs}/${runs}`) : `${result.runs}/${runs}`
+      ]);
+    });
+
+    console.log('\n' + table.toString());
+
+    const slow = names.filter(name => (results[name].toolsList?.median ?? 0) >= SLOW_STARTUP_MS);
+    if (slow.length > 0) {
+      console.log(chalk.yellow(`\n⚠️  Slow to start: ${slow.join(', ')}`));
+      console.log(chalk.dim('Servers started with npx or uvx usually start faster when installed globally and run directly.'));
+    }
+
+    const failed = names.filter(name => results[name].runs === 0);
+    if (failed.length > 0) {
+      console.log(chalk.red(`\n${failed.length} server${failed.length === 1 ? '' : 's'} never started. Use "house-mcp-manager doctor" to find out why.`));
+      process.exitCode = 1;
+    }
+  } catch (err) {
+    console.error(formatError(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+}
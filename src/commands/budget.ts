@@ -0,0 +1,116 @@
+import chalk from 'chalk';
+import type { MCPAdapter, ScopedMCPConfig } from '../adapters/base.js';
+import type { ScopeInfo } from '../utils/scope.js';
+import { success, error as formatError, header, formatScopeBadge, formatTokenCount } from '../utils/formatting.js';
+import { calculateTotalTokens, parseTokenAmount } from '../utils/tokens.js';
+import { DEFAULT_PRIORITY, getBudgetPath, loadBudget, saveBudget } from '../utils/budget.js';
+
+/**
+ * Helper to load config based on scope
+ */
+function loadScopedConfig(adapter: MCPAdapter, scopeInfo: ScopeInfo): ScopedMCPConfig {
+  if (scopeInfo.scope !== 'user' && adapter.supportsProjectScope() && adapter.getMergedConfig) {
+    return adapter.getMergedConfig(scopeInfo.projectPath!, scopeInfo.scope);
+  }
+  return { ...adapter.loadConfig(), scope: 'user' };
+}
+
+function scopeLabel(scopeInfo: ScopeInfo): string {
+  return scopeInfo.scope === 'user' ? 'user' : `project (${scopeInfo.projectPath})`;
+}
+
+/**
+ * Set the most tokens MCP servers may use at a scope
+ */
+export function budgetSetCommand(scopeInfo: ScopeInfo, amount: string): void {
+  try {
+    const budget = parseTokenAmount(amount);
+    if (!budget) {
+      throw new Error(`Invalid budget: ${amount}. Use a token count such as 30000 or 30k.`);
+    }
+
+    const budgetPath = saveBudget(scopeInfo, { ...loadBudget(scopeInfo), budget });
+
+    console.log(success(`Set the ${scopeLabel(scopeInfo)} MCP budget to ${budget.toLocaleString()} tokens`));
+    console.log(chalk.dim(`Budget: ${budgetPath}`));
+    console.log(chalk.dim('\nUse "house-mcp-manager fit" to choose servers that fit it.'));
+  } catch (err) {
+    console.error(formatError(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+}
+
+/**
+ * Remove the budget at a scope (priorities are kept)
+ */
+export function budgetClearCommand(scopeInfo: ScopeInfo): void {
+  try {
+    const settings = loadBudget(scopeInfo);
+    delete settings.budget;
+    saveBudget(scopeInfo, settings);
+    console.log(success(`Cleared the ${scopeLabel(scopeInfo)} MCP budget`));
+  } catch (err) {
+    console.error(formatError(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+}
+
+/**
+ * Set how much a server matters when `fit` has to choose
+ */
+export function budgetPriorityCommand(scopeInfo: ScopeInfo, serverName: string, value: string): void {
+  try {
+    const priority = Number(value);
+    if (!Number.isInteger(priority) || priority < 0) {
+      throw new Error(`Invalid priority: ${value}. Must be a whole number (0 = only keep it if there is room).`);
+    }
+
+    const settings = loadBudget(scopeInfo);
+    settings.priorities[serverName] = priority;
+    saveBudget(scopeInfo, settings);
+
+    console.log(success(`Set the priority of "${serverName}" to ${priority}`));
+  } catch (err) {
+    console.error(formatError(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+}
+
+/**
+ * Show the budget, current usage and server priorities at a scope
+ */
+export function budgetShowCommand(adapter: MCPAdapter, scopeInfo: ScopeInfo): void {
+  try {
+    const settings = loadBudget(scopeInfo);
+    const config = loadScopedConfig(adapter, scopeInfo);
+    const usage = calculateTotalTokens(config.enabled);
+
+    console.log(header(`MCP Token Budget (${adapter.name} - ${formatScopeBadge(config.scope || 'user')})`));
+    console.log(chalk.dim(`Budget file: ${getBudgetPath(scopeInfo)}`));
+
+    if (settings.budget) {
+      const status = usage > settings.budget
+        ? chalk.red(`over by ${(usage - settings.budget).toLocaleString()} tokens`)
+        : chalk.green(`${(settings.budget - usage).toLocaleString()} tokens left`);
+      console.log(`\n  Budget: ${settings.budget.toLocaleString()} tokens`);
+      console.log(`  Usage:  ${formatTokenCount(usage)} (${status})`);
+    } else {
+      console.log(chalk.gray('\n  No budget set.'));
+      console.log(`  Usage:  ${formatTokenCount(usage)}`);
+    }
+
+    console.log(chalk.bold('\nPriorities:'));
+    adapter.getAllServers(config).forEach(name => {
+      const priority = settings.priorities[name];
+      const label = priority === undefined ? chalk.dim(`${DEFAULT_PRIORITY} (default)`) : String(priority);
+      console.log(`  ${name.padEnd(24)} ${label}`);
+    });
+
+    if (!settings.budget) {
+      console.log(chalk.dim('\nUse "house-mcp-manager budget set <tokens>" to set a budget.'));
+    }
+  } catch (err) {
+    console.error(formatError(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import chalk from 'chalk';
+import type { MCPAdapter, ScopedMCPConfig } from '../adapters/base.js';
+import type { ScopeInfo } from '../utils/scope.js';
+import { success, error as formatError, header, createCalibrationTable, formatCompactTokens } from '../utils/formatting.js';
+import { parseContextUsage } from '../utils/context-usage.js';
+import { addCatalogEntry, readCatalog } from '../utils/catalog.js';
+import { estimateServerTokens } from '../utils/tokens.js';
+
+export interface CalibrateOptions {
+  /** Write to the project catalog instead of the user catalog */
+  project?: boolean;
+}
+
+/**
+ * Helper to load config based on scope
+ */
+function loadScopedConfig(adapter: MCPAdapter, scopeInfo: ScopeInfo): ScopedMCPConfig {
+  if (scopeInfo.scope !== 'user' && adapter.supportsProjectScope() && adapter.getMergedConfig) {
+    return adapter.getMergedConfig(scopeInfo.projectPath!, scopeInfo.scope);
+  }
+  return { ...adapter.loadConfig(), scope: 'user' };
+}
+
+/**
+ * Reads the `/context` output from a file, or from stdin when pasted or piped
+ */
+async function readContextOutput(file?: string): Promise<string> {
+  if (file) {
+    return fs.readFileSync(file, 'utf-8');
+  }
+
+  if (process.stdin.isTTY) {
+    console.log(chalk.dim('Paste the output of /context from Claude Code, then press Ctrl-D:\n'));
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Formats how far an estimate was from the real number
+ */
+function formatDeviation(estimated: number, actual: number): string {
+  if (actual === 0) {
+    return estimated === 0 ? chalk.green('exact') : chalk.red('n/a');
+  }
+
+  const percentage = Math.round(((estimated - actual) / actual) * 100);
+  const label = percentage === 0 ? 'exact' : `${percentage > 0 ? '+' : ''}${percentage}%`;
+  const magnitude = Math.abs(percentage);
+
+  if (magnitude > 50) return chalk.red(label);
+  if (magnitude > 20) return chalk.yellow(label);
+  return chalk.green(label);
+}
+
+/**
+ * Records the real per-server tool tokens from Claude Code's `/context`
+ * output in the catalog and shows how far the estimates were off
+ */
+export async function calibrateCommand(
+  adapter: MCPAdapter,
+  scopeInfo: ScopeInfo,
+  file: string | undefined,
+  options: CalibrateOptions = {}
+): Promise<void> {
+  try {
+    const usage = parseContextUsage(await readContextOutput(file));
+    const names = Object.keys(usage);
+
+    if (names.length === 0) {
+      console.error(formatError('No MCP tool lines found (expected lines like "mcp__github__create_issue (github): 1.2k tokens")'));
+      console.log('\nRun /context in Claude Code and pass its complete output.');
+      process.exit(1);
+    }
+
+    const config = loadScopedConfig(adapter, scopeInfo);
+    const servers = { ...config.disabled, ...config.enabled };
+
+    // Estimate before the catalog learns the real numbers
+    const estimates = Object.fromEntries(names.map(name => [
+      name,
+      servers[name] ? estimateServerTokens(name, servers[name]) : null
+    ]));
+
+    const layer = options.project ? 'project' : 'user';
+    const existing = readCatalog(layer);
+    let filePath = '';
+    for (const name of names) {
+      const { tokens, tools, toolTokens } = usage[name];
+      filePath = addCatalogEntry(layer, name, { ...existing[name], tokens, tools, toolTokens });
+    }
+
+    console.log(header(`Calibration from /context (${adapter.name})`));
+
+    const table = createCalibrationTable();
+    let actualTotal = 0;
+    let estimatedTotal = 0;
+
+    for (const name of names) {
+      const actual = usage[name].tokens;
+      const estimated = estimates[name];
+      actualTotal += actual;
+
+      if (estimated === null) {
+        table.push([name, String(usage[name].tools), actual.toLocaleString(), chalk.dim('not configured'), chalk.dim('-')]);
+        continue;
+      }
+
+      estimatedTotal += estimated;
+      table.push([
+        name,
+        String(usage[name].tools),
+        actual.toLocaleString(),
+        estimated.toLocaleString(),
+        formatDeviation(estimated, actual)
+      ]);
+    }
+
+    console.log(table.toString());
+
+    const compared = names.filter(name => estimates[name] !== null);
+    if (compared.length > 0) {
+      const comparedActual = compared.reduce((total, name) => total + usage[name].tokens, 0);
+      console.log(
+        `\nEstimated ${formatCompactTokens(estimatedTotal)} for ${compared.length} configured ` +
+        `server${compared.length === 1 ? '' : 's'}, ` +
+        `actually ${formatCompactTokens(comparedActual)} (${formatDeviation(estimatedTotal, comparedActual)})`
+      );
+    }
+
+    console.log(success(`Saved ${names.length} server${names.length === 1 ? '' : 's'} (${formatCompactTokens(actualTotal)}) to the ${layer} catalog`));
+    console.log(chalk.dim(`Catalog: ${filePath}`));
+  } catch (err) {
+    console.error(formatError(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,105 @@
+import chalk from 'chalk';
+import {
+  addCatalogEntry,
+  getCatalogPath,
+  loadCatalog,
+  removeCatalogEntry,
+  type CatalogEntry,
+  type ResolvedCatalogEntry
+} from '../utils/catalog.js';
+import { success, error as formatError, header, createCatalogTable, formatCompactTokens } from '../utils/formatting.js';
+
+export interface CatalogAddOptions {
+  tokens: string;
+  tools: string;
+  pattern?: string;
+  command?: string;
+  /** Write to the project catalog instead of the user catalog */
+  project?: boolean;
+}
+
+function parseCount(value: string, label: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`Invalid ${label}: ${value}. Must be a whole number.`);
+  }
+  return count;
+}
+
+function describeMatch(entry: ResolvedCatalogEntry): string {
+  if (entry.layer === 'builtin') {
+    return `name contains "${entry.name}"`;
+  }
+  const matches: string[] = [];
+  if (entry.pattern) matches.push(`name ~ /${entry.pattern}/`);
+  if (entry.command) matches.push(`command has "${entry.command}"`);
+  return matches.length > 0 ? matches.join(' or ') : `name is "${entry.name}"`;
+}
+
+/**
+ * Add or replace an entry in the user (or project) catalog
+ */
+export function catalogAddCommand(name: string, options: CatalogAddOptions, projectPath?: string): void {
+  try {
+    const entry: CatalogEntry = {
+      tokens: parseCount(options.tokens, 'token count'),
+      tools: parseCount(options.tools, 'tool count')
+    };
+    if (options.pattern) entry.pattern = options.pattern;
+    if (options.command) entry.command = options.command;
+
+    const layer = options.project ? 'project' : 'user';
+    const filePath = addCatalogEntry(layer, name, entry, projectPath);
+
+    console.log(success(`Added "${name}" to the ${layer} catalog (${formatCompactTokens(entry.tokens)}, ${entry.tools} tools)`));
+    console.log(chalk.dim(`Catalog: ${filePath}`));
+  } catch (err) {
+    console.error(formatError(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+}
+
+/**
+ * List the built-in, user and project catalog entries
+ */
+export function catalogListCommand(projectPath?: string): void {
+  try {
+    const catalog = loadCatalog(projectPath);
+
+    console.log(header('Known Servers Catalog'));
+
+    const table = createCatalogTable();
+    catalog.forEach(entry => {
+      const layer = entry.layer === 'builtin' ? chalk.gray(entry.layer) : chalk.cyan(entry.layer);
+      table.push([entry.name, describeMatch(entry), entry.tokens.toLocaleString(), String(entry.tools), layer]);
+    });
+    console.log(table.toString());
+
+    console.log(chalk.dim(`\nUser catalog: ${getCatalogPath('user')}`));
+    console.log(chalk.dim(`Project catalog: ${getCatalogPath('project', projectPath)}`));
+    console.log(chalk.dim('Use "house-mcp-manager catalog add <name> --tokens <n> --tools <n>" to add an entry.'));
+  } catch (err) {
+    console.error(formatError(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+}
+
+/**
+ * Remove an entry from the user (or project) catalog
+ */
+export function catalogRemoveCommand(name: string, options: { project?: boolean }, projectPath?: string): void {
+  try {
+    const layer = options.project ? 'project' : 'user';
+
+    if (!removeCatalogEntry(layer, name, projectPath)) {
+      console.error(formatError(`"${name}" is not in the ${layer} catalog`));
+      console.log('\nUse "house-mcp-manager catalog list" to see catalog entries.');
+      process.exit(1);
+    }
+
+    console.log(success(`Removed "${name}" from the ${layer} catalog`));
+  } catch (err) {
+    console.error(formatError(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+}
@@ -5,19 +5,26 @@ import { success, error as formatError } from '../utils/formatting.js';
 
 export function disableCommand(adapter: MCPAdapter, serverName: string, scopeInfo: ScopeInfo): void {
   try {
-    if (scopeInfo.scope === 'project' && adapter.supportsProjectScope()) {
+    if (scopeInfo.scope !== 'user' && adapter.supportsProjectScope()) {
       // Project-level disable
       const userConfig = adapter.loadConfig();
-      const projectConfig = adapter.loadProjectConfig?.(scopeInfo.projectPath!);
+      const projectConfig = adapter.loadProjectConfig?.(scopeInfo.projectPath!, scopeInfo.scope);
       
       // Check if server exists and is enabled (in merged config)
-      const mergedConfig = adapter.getMergedConfig?.(scopeInfo.projectPath!);
+      const mergedConfig = adapter.getMergedConfig?.(scopeInfo.projectPath!, scopeInfo.scope);
       if (!mergedConfig || !adapter.isServerEnabled(mergedConfig, serverName)) {
         console.log(formatError(`Server "${serverName}" is not enabled or does not exist`));
         console.log('\nUse "house-mcp-manager list" to see available servers.');
         process.exit(1);
       }
-      
+
+      // A project file cannot switch off a user-level server in some tools
+      if (userConfig.enabled[serverName] && !adapter.supportsDisablingInheritedServers()) {
+        console.log(formatError(`${adapter.name} cannot disable user-level server "${serverName}" for a single project`));
+        console.log(`\nTo disable it everywhere, use: house-mcp-manager disable ${serverName} --scope=user`);
+        process.exit(1);
+      }
+
       // Load or create project config
       let currentProjectConfig: MCPConfig;
       if (projectConfig) {
@@ -29,7 +36,7 @@ export function disableCommand(adapter: MCPAdapter, serverName: string, scopeInf
           disabled: {},
           metadata: {
             tool: adapter.id,
-            scope: 'project'
+            scope: scopeInfo.scope
           }
         };
       }
@@ -38,9 +45,9 @@ export function disableCommand(adapter: MCPAdapter, serverName: string, scopeInf
       if (currentProjectConfig.enabled[serverName]) {
         currentProjectConfig = adapter.disableServer(currentProjectConfig, serverName);
       } else {
-        // Server is inherited from user - add to project disabled list
-        // Get server config from user config
-        const serverConfig = userConfig.enabled[serverName] || userConfig.disabled[serverName];
+        // Server is inherited from a broader layer - add to project disabled list
+        // Get server config from the merged config
+        const serverConfig = mergedConfig.enabled[serverName] || userConfig.enabled[serverName];
         if (serverConfig) {
           if (!currentProjectConfig.disabled) {
             currentProjectConfig.disabled = {};
@@ -50,9 +57,9 @@ export function disableCommand(adapter: MCPAdapter, serverName: string, scopeInf
       }
       
       // Save project config
-      adapter.saveProjectConfig?.(scopeInfo.projectPath!, currentProjectConfig);
+      adapter.saveProjectConfig?.(scopeInfo.projectPath!, currentProjectConfig, scopeInfo.scope);
       
-      console.log(success(`Disabled "${serverName}" at project level`));
+      console.log(success(`Disabled "${serverName}" at ${scopeInfo.scope} level`));
       console.log(chalk.dim(`\nProject: ${scopeInfo.projectPath}`));
       console.log(`\nRestart ${adapter.name} for changes to take effect.`);
     } else {
@@ -0,0 +1,105 @@
+import chalk from 'chalk';
+import type { MCPAdapter, ScopedMCPConfig } from '../adapters/base.js';
+import type { ScopeInfo } from '../utils/scope.js';
+import { header, error as formatError, formatScopeBadge, formatServerTarget, createDoctorTable } from '../utils/formatting.js';
+import { diagnoseServer, type DoctorCheck } from '../utils/doctor.js';
+
+export interface DoctorCommandOptions {
+  /** Per-server handshake timeout in seconds */
+  timeout?: string;
+  /** Start each server and complete the MCP handshake (default true) */
+  handshake?: boolean;
+}
+
+/**
+ * Helper to load config based on scope
+ */
+function loadScopedConfig(adapter: MCPAdapter, scopeInfo: ScopeInfo): ScopedMCPConfig {
+  if (scopeInfo.scope !== 'user' && adapter.supportsProjectScope() && adapter.getMergedConfig) {
+    return adapter.getMergedConfig(scopeInfo.projectPath!, scopeInfo.scope);
+  }
+  return { ...adapter.loadConfig(), scope: 'user' };
+}
+
+function formatCheck(check: DoctorCheck): string {
+  const icon = check.status === 'ok' ? chalk.green('✓') : check.status === 'skip' ? chalk.gray('-') : chalk.red('✗');
+  const message = check.status === 'ok' ? chalk.dim(check.message) : check.message;
+  return `  ${icon} ${check.check.padEnd(10)} ${message}`;
+}
+
+/**
+ * Health-checks each enabled server: its command, local files, env vars
+ * and (unless disabled) the MCP initialize handshake
+ */
+export async function doctorCommand(
+  adapter: MCPAdapter,
+  scopeInfo: ScopeInfo,
+  serverName: string | undefined,
+  options: DoctorCommandOptions = {}
+): Promise<void> {
+  try {
+    const config = loadScopedConfig(adapter, scopeInfo);
+    const servers = serverName ? { ...config.disabled, ...config.enabled } : config.enabled;
+
+    if (serverName && !servers[serverName]) {
+      console.log(formatError(`Server "${serverName}" does not exist`));
+      console.log('\nUse "house-mcp-manager list" to see available servers.');
+      process.exit(1);
+    }
+
+    const timeoutSeconds = Number(options.timeout ?? 30);
+    if (!Number.isFinite(timeoutSeconds) || timeoutSeconds <= 0) {
+      throw new Error(`Invalid timeout: ${options.timeout}. Must be a positive number of seconds.`);
+    }
+
+    const names = serverName ? [serverName] : Object.keys(servers);
+    console.log(header(`Checking MCP Servers (${adapter.name} - ${formatScopeBadge(config.scope || 'user')})`));
+
+    if (names.length === 0) {
+      console.log(chalk.gray('\n  (no enabled servers)'));
+      return;
+    }
+
+    const failures: Array<{ name: string; check: DoctorCheck }> = [];
+
+    for (const name of names) {
+      const server = servers[name];
+      console.log(`\n${chalk.bold(name)}${formatServerTarget(server)}`);
+
+      const checks = await diagnoseServer(server, {
+        baseDir: config.projectPath || scopeInfo.projectPath || process.cwd(),
+        timeoutMs: timeoutSeconds * 1000,
+        handshake: options.handshake
+      });
+
+      checks.forEach(check => {
+        console.log(formatCheck(check));
+        if (check.status === 'fail') {
+          failures.push({ name, check });
+        }
+      });
+    }
+
+    const failedServers = new Set(failures.map(f => f.name)).size;
+    const healthy = names.length - failedServers;
+
+    if (failures.length === 0) {
+      console.log(chalk.green(`\n✓ All ${names.length} server${names.length === 1 ? '' : 's'} look healthy`));
+      return;
+    }
+
+    const table = createDoctorTable();
+    failures.forEach(({ name, check }) => {
+      table.push([name, check.check, check.message, check.fix || '']);
+    });
+
+    console.log(chalk.bold('\nProblems:'));
+    console.log(table.toString());
+    console.log(`\n${chalk.green(`${healthy} healthy`)}, ${chalk.red(`${failedServers} with problems`)}`);
+
+    process.exitCode = 1;
+  } catch (err) {
+    console.error(formatError(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+}
@@ -5,10 +5,10 @@ import { success, error as formatError, info } from '../utils/formatting.js';
 
 export function enableCommand(adapter: MCPAdapter, serverName: string, scopeInfo: ScopeInfo): void {
   try {
-    if (scopeInfo.scope === 'project' && adapter.supportsProjectScope()) {
+    if (scopeInfo.scope !== 'user' && adapter.supportsProjectScope()) {
       // Project-level enable
       const userConfig = adapter.loadConfig();
-      const projectConfig = adapter.loadProjectConfig?.(scopeInfo.projectPath!);
+      const projectConfig = adapter.loadProjectConfig?.(scopeInfo.projectPath!, scopeInfo.scope);
       
       // Check if server is already inherited from user (no-op case)
       if (adapter.isServerEnabled(userConfig, serverName)) {
@@ -16,7 +16,7 @@ export function enableCommand(adapter: MCPAdapter, serverName: string, scopeInfo
         const projectDisabled = projectConfig?.disabled[serverName];
         if (!projectDisabled) {
           console.log(info(`Server "${serverName}" is already enabled (inherited from user-level config)`));
-          console.log(chalk.dim(`To override it at project level, disable it first with: house-mcp-manager disable ${serverName} --scope=project`));
+          console.log(chalk.dim(`To override it at project level, disable it first with: house-mcp-manager disable ${serverName} --scope=${scopeInfo.scope}`));
           return;
         }
       }
@@ -32,7 +32,7 @@ export function enableCommand(adapter: MCPAdapter, serverName: string, scopeInfo
           disabled: {},
           metadata: {
             tool: adapter.id,
-            scope: 'project'
+            scope: scopeInfo.scope
           }
         };
       }
@@ -59,9 +59,9 @@ export function enableCommand(adapter: MCPAdapter, serverName: string, scopeInfo
       }
       
       // Save project config
-      adapter.saveProjectConfig?.(scopeInfo.projectPath!, currentProjectConfig);
+      adapter.saveProjectConfig?.(scopeInfo.projectPath!, currentProjectConfig, scopeInfo.scope);
       
-      console.log(success(`Enabled "${serverName}" at project level`));
+      console.log(success(`Enabled "${serverName}" at ${scopeInfo.scope} level`));
       console.log(chalk.dim(`\nProject: ${scopeInfo.projectPath}`));
       console.log(`\nRestart ${adapter.name} for changes to take effect.`);
     } else {
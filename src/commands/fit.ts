@@ -0,0 +1,153 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import type { MCPAdapter, ScopedMCPConfig } from '../adapters/base.js';
+import type { ScopeInfo } from '../utils/scope.js';
+import { success, error as formatError, warning, header, formatScopeBadge, formatChangePreview, formatCompactTokens } from '../utils/formatting.js';
+import { estimateServerTokens, calculateTotalTokens, parseTokenAmount } from '../utils/tokens.js';
+import { DEFAULT_PRIORITY, fitServers, loadBudget, type FitCandidate } from '../utils/budget.js';
+import { planServerSelection, applyServerSelection, getLockedServers } from '../utils/selection.js';
+
+export interface FitCommandOptions {
+  /** Budget to fit instead of the saved one */
+  budget?: string;
+  /** Apply without asking */
+  yes?: boolean;
+  /** Only show the plan */
+  dryRun?: boolean;
+}
+
+/**
+ * Helper to load config based on scope
+ */
+function loadScopedConfig(adapter: MCPAdapter, scopeInfo: ScopeInfo): ScopedMCPConfig {
+  if (scopeInfo.scope !== 'user' && adapter.supportsProjectScope() && adapter.getMergedConfig) {
+    return adapter.getMergedConfig(scopeInfo.projectPath!, scopeInfo.scope);
+  }
+  const config = adapter.loadConfig();
+  return {
+    ...config,
+    scope: 'user',
+    inheritance: {
+      inherited: Object.keys(config.enabled),
+      overridden: [],
+      additions: []
+    }
+  };
+}
+
+/**
+ * Enables the servers with the highest total priority that fit in the
+ * token budget and disables the rest
+ */
+export async function fitCommand(adapter: MCPAdapter, scopeInfo: ScopeInfo, options: FitCommandOptions = {}): Promise<void> {
+  try {
+    const settings = loadBudget(scopeInfo);
+    const budget = options.budget !== undefined ? parseTokenAmount(options.budget) : settings.budget;
+
+    if (!budget) {
+      if (options.budget !== undefined) {
+        throw new Error(`Invalid budget: ${options.budget}. Use a token count such as 30000 or 30k.`);
+      }
+      console.error(formatError('No token budget set'));
+      console.log('\nUse "house-mcp-manager budget set <tokens>" or pass --budget <tokens>.');
+      process.exit(1);
+    }
+
+    const config = loadScopedConfig(adapter, scopeInfo);
+    const allServers = adapter.getAllServers(config);
+    const isProjectScope = config.scope === 'project' || config.scope === 'local';
+
+    console.log(header(`Fitting MCP Servers to ${budget.toLocaleString()} Tokens (${adapter.name} - ${formatScopeBadge(config.scope || 'user')})`));
+    if (isProjectScope && config.projectPath) {
+      console.log(chalk.dim(`Project: ${config.projectPath}`));
+    }
+
+    if (allServers.length === 0) {
+      console.log(chalk.yellow('\nNo MCP servers found in your configuration.'));
+      return;
+    }
+
+    const candidates: FitCandidate[] = allServers.map(name => {
+      const enabled = adapter.isServerEnabled(config, name);
+      return {
+        name,
+        tokens: estimateServerTokens(name, enabled ? config.enabled[name] : config.disabled[name]),
+        priority: settings.priorities[name] ?? DEFAULT_PRIORITY,
+        enabled
+      };
+    });
+
+    // Servers the scope cannot disable always count against the budget
+    const locked = getLockedServers(adapter, config);
+    const lockedTokens = candidates.filter(c => locked.includes(c.name)).reduce((sum, c) => sum + c.tokens, 0);
+    const selectedServers = new Set([
+      ...locked,
+      ...fitServers(candidates.filter(c => !locked.includes(c.name)), Math.max(0, budget - lockedTokens))
+    ]);
+
+    console.log(chalk.bold('\nPlan:'));
+    candidates.forEach(candidate => {
+      const keep = selectedServers.has(candidate.name);
+      const marker = keep ? chalk.green('●') : chalk.gray('○');
+      const name = keep ? chalk.green(candidate.name.padEnd(24)) : chalk.gray(candidate.name.padEnd(24));
+      const note = locked.includes(candidate.name)
+        ? chalk.dim(' (user-level, cannot be disabled for this project)')
+        : !keep && candidate.tokens > budget ? chalk.dim(' (larger than the budget)') : '';
+      console.log(`  ${marker} ${name} ${formatCompactTokens(candidate.tokens).padEnd(15)} priority ${candidate.priority}${note}`);
+    });
+
+    const currentTokens = calculateTotalTokens(config.enabled);
+    const plan = planServerSelection(adapter, config, selectedServers);
+
+    if (lockedTokens > budget) {
+      console.log('\n' + warning(`User-level servers ${adapter.name} cannot disable for this project already use ${formatCompactTokens(lockedTokens)}, more than the budget`));
+    }
+
+    if (plan.toEnable.length === 0 && plan.toDisable.length === 0) {
+      console.log(chalk.green(`\n✓ The enabled servers already fit (${formatCompactTokens(currentTokens)}). No changes needed.`));
+      return;
+    }
+
+    const newTokens = calculateTotalTokens(plan.newConfig.enabled || {});
+    console.log(formatChangePreview(plan.toEnable, plan.toDisable, currentTokens, newTokens));
+
+    if (options.dryRun) {
+      console.log(chalk.dim('\nDry run - no changes made.'));
+      return;
+    }
+
+    if (!options.yes) {
+      const { confirm } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: 'Apply these changes?',
+          default: true
+        }
+      ]);
+
+      if (!confirm) {
+        console.log(chalk.yellow('\nChanges cancelled.'));
+        return;
+      }
+    }
+
+    applyServerSelection(adapter, scopeInfo, config, selectedServers, plan);
+    if (isProjectScope && adapter.supportsProjectScope() && adapter.saveProjectConfig) {
+      console.log(success(`\nChanges applied successfully to ${scopeInfo.scope}-level configuration!`));
+      console.log(chalk.dim(`Project: ${scopeInfo.projectPath}`));
+    } else {
+      console.log(success('\nChanges applied successfully!'));
+    }
+
+    console.log(chalk.dim(`Restart ${adapter.name} for changes to take effect.`));
+  } catch (err) {
+    if (err instanceof Error && err.message.includes('User force closed')) {
+      console.log(chalk.yellow('\n\nOperation cancelled.'));
+      process.exit(0);
+    }
+
+    console.error(formatError(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,123 @@
+import chalk from 'chalk';
+import type { MCPAdapter, ScopedMCPConfig } from '../adapters/base.js';
+import type { ScopeInfo } from '../utils/scope.js';
+import { header, error as formatError, formatScopeBadge, formatCompactTokens, formatServerTarget } from '../utils/formatting.js';
+import { measureServer } from '../utils/measure.js';
+import { cacheMeasurement } from '../utils/measurement-cache.js';
+import { inspectDefinitions, type InspectedItem } from '../utils/inspect.js';
+import { getTokenizer } from '../utils/tokenizer.js';
+import { redactServer } from '../utils/secrets.js';
+
+export interface InspectCommandOptions {
+  /** Print machine-readable JSON instead of a listing */
+  json?: boolean;
+  /** Time allowed for the server to start and answer, in seconds */
+  timeout?: string;
+}
+
+/**
+ * Helper to load config based on scope
+ */
+function loadScopedConfig(adapter: MCPAdapter, scopeInfo: ScopeInfo): ScopedMCPConfig {
+  if (scopeInfo.scope !== 'user' && adapter.supportsProjectScope() && adapter.getMergedConfig) {
+    return adapter.getMergedConfig(scopeInfo.projectPath!, scopeInfo.scope);
+  }
+  return { ...adapter.loadConfig(), scope: 'user' };
+}
+
+function formatDescription(description?: string): string {
+  return description ? chalk.dim(`    ${description.replace(/\s+/g, ' ').trim()}`) : chalk.dim('    (no description)');
+}
+
+function printSection(title: string, items: InspectedItem[], tokens: number, details: (item: any) => string | null): void {
+  console.log(chalk.bold(`\n${title} (${items.length})`) + chalk.dim(`  ${formatCompactTokens(tokens)}`));
+
+  if (items.length === 0) {
+    console.log(chalk.gray('  (none)'));
+    return;
+  }
+
+  items.forEach(item => {
+    console.log(`  ${chalk.cyan(item.name)} ${chalk.dim(formatCompactTokens(item.tokens))}`);
+    console.log(formatDescription(item.description));
+    const extra = details(item);
+    if (extra) {
+      console.log(`    ${extra}`);
+    }
+  });
+}
+
+/**
+ * Connects to one server, enabled or disabled, and lists the tools, prompts
+ * and resources it exposes with what each costs in tokens
+ */
+export async function inspectCommand(
+  adapter: MCPAdapter,
+  scopeInfo: ScopeInfo,
+  serverName: string,
+  options: InspectCommandOptions = {}
+): Promise<void> {
+  try {
+    const config = loadScopedConfig(adapter, scopeInfo);
+    const enabled = serverName in config.enabled;
+    const server = enabled ? config.enabled[serverName] : config.disabled[serverName];
+
+    if (!server) {
+      console.log(formatError(`Server "${serverName}" does not exist`));
+      console.log('\nUse "house-mcp-manager list" to see available servers.');
+      process.exit(1);
+    }
+
+    const timeoutSeconds = Number(options.timeout ?? 30);
+    if (!Number.isFinite(timeoutSeconds) || timeoutSeconds <= 0) {
+      throw new Error(`Invalid timeout: ${options.timeout}. Must be a positive number of seconds.`);
+    }
+
+    const tokenizer = getTokenizer();
+    const measurement = await measureServer(server, { timeoutMs: timeoutSeconds * 1000, tokenizer });
+    cacheMeasurement(server, measurement);
+
+    const inspection = inspectDefinitions(measurement.definitions!, tokenizer);
+
+    if (options.json) {
+      console.log(JSON.stringify({
+        server: serverName,
+        enabled,
+        config: redactServer(server),
+        tokenizer: tokenizer.id,
+        tokens: {
+          tools: measurement.toolTokens,
+          prompts: measurement.promptTokens,
+          resources: measurement.resourceTokens,
+          total: measurement.tokens
+        },
+        tools: inspection.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+          inputSchema: tool.definition.input_schema,
+          tokens: tool.tokens
+        })),
+        prompts: inspection.prompts.map(prompt => ({ ...prompt.definition, tokens: prompt.tokens })),
+        resources: inspection.resources.map(resource => ({ ...resource.definition, tokens: resource.tokens }))
+      }, null, 2));
+      return;
+    }
+
+    console.log(header(`Inspecting ${serverName} (${adapter.name} - ${formatScopeBadge(config.scope || 'user')})`));
+    console.log(`${enabled ? chalk.green('● enabled') : chalk.gray('○ disabled')}${formatServerTarget(server)}`);
+    console.log(chalk.dim(`Total: ${formatCompactTokens(measurement.tokens)} (counted with the ${tokenizer.id} tokenizer)`));
+
+    printSection('Tools', inspection.tools, measurement.toolTokens, tool => `Params: ${tool.parameters}`);
+    printSection('Prompts', inspection.prompts, measurement.promptTokens, prompt => {
+      const args: any[] = Array.isArray(prompt.definition.arguments) ? prompt.definition.arguments : [];
+      return args.length > 0
+        ? `Arguments: ${args.map(arg => `${arg.name}${arg.required ? '' : '?'}`).join(', ')}`
+        : null;
+    });
+    printSection('Resources', inspection.resources, measurement.resourceTokens, resource => resource.definition.uri ? chalk.dim(resource.definition.uri) : null);
+  } catch (err) {
+    console.error(formatError(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+}
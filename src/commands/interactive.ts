@@ -3,7 +3,8 @@ import chalk from 'chalk';
 import type { MCPAdapter, ScopedMCPConfig } from '../adapters/base.js';
 import type { ScopeInfo } from '../utils/scope.js';
 import { estimateServerTokens, calculateTotalTokens, calculateScopedTokens } from '../utils/tokens.js';
-import { success, error as formatError, header, formatScopeBadge } from '../utils/formatting.js';
+import { success, error as formatError, warning, header, formatScopeBadge, formatChangePreview } from '../utils/formatting.js';
+import { planServerSelection, applyServerSelection } from '../utils/selection.js';
 
 interface ServerChoice {
   name: string;
@@ -16,8 +17,8 @@ interface ServerChoice {
  * Helper to load config based on scope
  */
 function loadScopedConfig(adapter: MCPAdapter, scopeInfo: ScopeInfo): ScopedMCPConfig {
-  if (scopeInfo.scope === 'project' && adapter.supportsProjectScope() && adapter.getMergedConfig) {
-    return adapter.getMergedConfig(scopeInfo.projectPath!);
+  if (scopeInfo.scope !== 'user' && adapter.supportsProjectScope() && adapter.getMergedConfig) {
+    return adapter.getMergedConfig(scopeInfo.projectPath!, scopeInfo.scope);
   }
   const config = adapter.loadConfig();
   return {
@@ -35,7 +36,7 @@ export async function interactiveCommand(adapter: MCPAdapter, scopeInfo: ScopeIn
   try {
     const config = loadScopedConfig(adapter, scopeInfo);
     const allServers = adapter.getAllServers(config);
-    const isProjectScope = config.scope === 'project';
+    const isProjectScope = config.scope === 'project' || config.scope === 'local';
 
     if (allServers.length === 0) {
       console.log(chalk.yellow('No MCP servers found in your configuration.'));
@@ -96,66 +97,22 @@ export async function interactiveCommand(adapter: MCPAdapter, scopeInfo: ScopeIn
     ]);
 
     const selectedServers = new Set(answers.enabledServers as string[]);
+    const plan = planServerSelection(adapter, config, selectedServers);
 
-    // Determine what changed
-    const toEnable: string[] = [];
-    const toDisable: string[] = [];
-
-    allServers.forEach(name => {
-      const currentlyEnabled = adapter.isServerEnabled(config, name);
-      const shouldBeEnabled = selectedServers.has(name);
-
-      if (shouldBeEnabled && !currentlyEnabled) {
-        toEnable.push(name);
-      } else if (!shouldBeEnabled && currentlyEnabled) {
-        toDisable.push(name);
-      }
-    });
+    if (plan.locked.length > 0) {
+      console.log('\n' + warning(`${adapter.name} cannot disable user-level servers for a single project. Keeping enabled: ${plan.locked.join(', ')}`));
+      console.log(chalk.dim('Use --scope=user to disable them everywhere.'));
+    }
 
     // If no changes, exit
-    if (toEnable.length === 0 && toDisable.length === 0) {
+    if (plan.toEnable.length === 0 && plan.toDisable.length === 0) {
       console.log(chalk.yellow('\nNo changes made.'));
       return;
     }
 
     // Show preview of changes
-    console.log(chalk.bold('\nChanges to be made:'));
-
-    if (toEnable.length > 0) {
-      console.log(chalk.green('\nEnabling:'));
-      toEnable.forEach(name => console.log(`  ${chalk.green('+')} ${name}`));
-    }
-
-    if (toDisable.length > 0) {
-      console.log(chalk.gray('\nDisabling:'));
-      toDisable.forEach(name => console.log(`  ${chalk.gray('-')} ${name}`));
-    }
-
-    // Calculate new token usage
-    let newConfig = { ...config };
-
-    toDisable.forEach(name => {
-      newConfig = adapter.toggleServer(newConfig, name);
-    });
-
-    toEnable.forEach(name => {
-      newConfig = adapter.toggleServer(newConfig, name);
-    });
-
-    const newTokens = calculateTotalTokens(newConfig.enabled || {});
-    const tokenDiff = newTokens - currentTokens;
-
-    console.log(chalk.bold('\nToken Impact:'));
-    console.log(`  Current: ${chalk.white(currentTokens.toLocaleString())} tokens`);
-    console.log(`  New:     ${chalk.white(newTokens.toLocaleString())} tokens`);
-
-    if (tokenDiff > 0) {
-      console.log(`  Change:  ${chalk.red(`+${tokenDiff.toLocaleString()}`)} tokens (${chalk.red('increase')})`);
-    } else if (tokenDiff < 0) {
-      console.log(`  Change:  ${chalk.green(`${tokenDiff.toLocaleString()}`)} tokens (${chalk.green('decrease')})`);
-    } else {
-      console.log(`  Change:  ${chalk.gray('0')} tokens (no change)`);
-    }
+    const newTokens = calculateTotalTokens(plan.newConfig.enabled || {});
+    console.log(formatChangePreview(plan.toEnable, plan.toDisable, currentTokens, newTokens));
 
     // Confirm changes
     const { confirm } = await inquirer.prompt([
@@ -173,66 +130,11 @@ export async function interactiveCommand(adapter: MCPAdapter, scopeInfo: ScopeIn
     }
 
     // Apply changes based on scope
+    applyServerSelection(adapter, scopeInfo, config, selectedServers, plan);
     if (isProjectScope && adapter.supportsProjectScope() && adapter.saveProjectConfig) {
-      // For project scope, we need to update project config
-      // Build project config from changes
-      const userConfig = adapter.loadConfig();
-      let projectConfig = adapter.loadProjectConfig?.(scopeInfo.projectPath!);
-      
-      if (!projectConfig) {
-        projectConfig = {
-          enabled: {},
-          disabled: {},
-          metadata: {
-            tool: adapter.id,
-            scope: 'project'
-          }
-        };
-      }
-
-      // Update project config based on selections
-      // Remove all current project config
-      projectConfig.enabled = {};
-      projectConfig.disabled = {};
-
-      // For each server, determine if it should be in project config
-      allServers.forEach(name => {
-        const shouldBeEnabled = selectedServers.has(name);
-        const isInUserEnabled = adapter.isServerEnabled(userConfig, name);
-        
-        if (shouldBeEnabled) {
-          // If it's enabled, check if it needs to be in project config
-          if (!isInUserEnabled) {
-            // Not in user config - add to project enabled
-            const server = config.enabled[name] || config.disabled[name];
-            if (server) {
-              projectConfig.enabled[name] = server;
-            }
-          } else {
-            // Inherited from user - if it was disabled at project level, remove it
-            // (no-op, already enabled via inheritance)
-          }
-        } else {
-          // If it should be disabled
-          if (isInUserEnabled) {
-            // Inherited from user - add to project disabled
-            const server = userConfig.enabled[name];
-            if (server) {
-              projectConfig.disabled[name] = server;
-            }
-          } else {
-            // Not in user config - if it was in project enabled, remove it
-            // (no-op, already disabled)
-          }
-        }
-      });
-
-      adapter.saveProjectConfig(scopeInfo.projectPath!, projectConfig);
-      console.log(success('\nChanges applied successfully to project-level configuration!'));
+      console.log(success(`\nChanges applied successfully to ${scopeInfo.scope}-level configuration!`));
       console.log(chalk.dim(`Project: ${scopeInfo.projectPath}`));
     } else {
-      // User scope - save normally
-      adapter.saveConfig(newConfig);
       console.log(success('\nChanges applied successfully!'));
     }
     
@@ -1,14 +1,14 @@
 import chalk from 'chalk';
 import type { MCPAdapter, ScopedMCPConfig } from '../adapters/base.js';
 import type { ScopeInfo } from '../utils/scope.js';
-import { header, error as formatError, formatScopeBadge, sectionHeader } from '../utils/formatting.js';
+import { header, error as formatError, formatScopeBadge, sectionHeader, formatSourceLayer, formatServerTarget } from '../utils/formatting.js';
 
 /**
  * Helper to load config based on scope
  */
 function loadScopedConfig(adapter: MCPAdapter, scopeInfo: ScopeInfo): ScopedMCPConfig {
-  if (scopeInfo.scope === 'project' && adapter.supportsProjectScope() && adapter.getMergedConfig) {
-    return adapter.getMergedConfig(scopeInfo.projectPath!);
+  if (scopeInfo.scope !== 'user' && adapter.supportsProjectScope() && adapter.getMergedConfig) {
+    return adapter.getMergedConfig(scopeInfo.projectPath!, scopeInfo.scope);
   }
   const config = adapter.loadConfig();
   return {
@@ -25,7 +25,7 @@ function loadScopedConfig(adapter: MCPAdapter, scopeInfo: ScopeInfo): ScopedMCPC
 export function listCommand(adapter: MCPAdapter, scopeInfo: ScopeInfo): void {
   try {
     const config = loadScopedConfig(adapter, scopeInfo);
-    const isProjectScope = config.scope === 'project';
+    const isProjectScope = config.scope === 'project' || config.scope === 'local';
 
     const enabledServers = adapter.getEnabledServers(config);
     const disabledServers = adapter.getDisabledServers(config);
@@ -43,32 +43,35 @@ export function listCommand(adapter: MCPAdapter, scopeInfo: ScopeInfo): void {
       console.log(chalk.bold.green('\n✓ ENABLED SERVERS:'));
       
       if (isProjectScope && config.inheritance) {
-        const { inherited, overridden, additions } = config.inheritance;
+        const { inherited, overridden, additions, sources } = config.inheritance;
+        // Tools with more than one project layer show which layer each server comes from
+        const source = (name: string) => adapter.supportsLocalScope() ? formatSourceLayer(sources?.[name]) : '';
+        const target = (name: string) => formatServerTarget(config.enabled[name]);
         
         if (inherited.length > 0) {
           console.log(sectionHeader('Inherited from User'));
           inherited.forEach(name => {
-            console.log(`  ${chalk.green('●')} ${chalk.green(name)}`);
+            console.log(`  ${chalk.green('●')} ${chalk.green(name)}${target(name)}`);
           });
         }
         
         if (overridden.length > 0) {
           console.log(sectionHeader('Project Overrides'));
           overridden.forEach(name => {
-            console.log(`  ${chalk.green('●')} ${chalk.yellow(name)} ${chalk.dim('⚠️')}`);
+            console.log(`  ${chalk.green('●')} ${chalk.yellow(name)}${target(name)} ${chalk.dim('⚠️')}${source(name)}`);
           });
         }
         
         if (additions.length > 0) {
           console.log(sectionHeader('Project Additions'));
           additions.forEach(name => {
-            console.log(`  ${chalk.green('●')} ${chalk.green(name)}`);
+            console.log(`  ${chalk.green('●')} ${chalk.green(name)}${target(name)}${source(name)}`);
           });
         }
       } else {
         // User scope - simple list
         enabledServers.forEach(name => {
-          console.log(`  ${chalk.green('●')} ${name}`);
+          console.log(`  ${chalk.green('●')} ${name}${formatServerTarget(config.enabled[name])}`);
         });
       }
     } else {
@@ -84,7 +87,7 @@ export function listCommand(adapter: MCPAdapter, scopeInfo: ScopeInfo): void {
           !adapter.getEnabledServers(adapter.loadConfig()).includes(name)
           ? ` ${chalk.dim('[disabled at project level]')}`
           : '';
-        console.log(`  ${chalk.gray('○')} ${chalk.gray(name)}${label}`);
+        console.log(`  ${chalk.gray('○')} ${chalk.gray(name)}${formatServerTarget(config.disabled[name])}${label}`);
       });
     } else {
       console.log(chalk.bold.gray('\n○ DISABLED SERVERS:'));
@@ -0,0 +1,110 @@
+import chalk from 'chalk';
+import { isBuiltinServer, type MCPAdapter, type ScopedMCPConfig } from '../adapters/base.js';
+import type { ScopeInfo } from '../utils/scope.js';
+import { header, error as formatError, formatScopeBadge, formatCompactTokens, formatServerTarget } from '../utils/formatting.js';
+import { estimateServerTokens } from '../utils/tokens.js';
+import { measureServer } from '../utils/measure.js';
+import { cacheMeasurement, getCachedMeasurement, type ServerMeasurement } from '../utils/measurement-cache.js';
+import { getTokenizer } from '../utils/tokenizer.js';
+
+export interface MeasureCommandOptions {
+  /** Also measure disabled servers */
+  all?: boolean;
+  /** Per-server timeout in seconds */
+  timeout?: string;
+}
+
+/**
+ * Helper to load config based on scope
+ */
+function loadScopedConfig(adapter: MCPAdapter, scopeInfo: ScopeInfo): ScopedMCPConfig {
+  if (scopeInfo.scope !== 'user' && adapter.supportsProjectScope() && adapter.getMergedConfig) {
+    return adapter.getMergedConfig(scopeInfo.projectPath!, scopeInfo.scope);
+  }
+  return { ...adapter.loadConfig(), scope: 'user' };
+}
+
+/**
+ * Starts each server, lists its tools, prompts and resources over MCP and
+ * records how many tokens they really take up
+ */
+export async function measureCommand(
+  adapter: MCPAdapter,
+  scopeInfo: ScopeInfo,
+  serverName: string | undefined,
+  options: MeasureCommandOptions = {}
+): Promise<void> {
+  try {
+    const config = loadScopedConfig(adapter, scopeInfo);
+    const servers = { ...(options.all || serverName ? config.disabled : {}), ...config.enabled };
+
+    if (serverName && !servers[serverName]) {
+      console.log(formatError(`Server "${serverName}" does not exist`));
+      console.log('\nUse "house-mcp-manager list" to see available servers.');
+      process.exit(1);
+    }
+
+    const names = serverName ? [serverName] : Object.keys(servers);
+    const timeoutSeconds = Number(options.timeout ?? 30);
+    if (!Number.isFinite(timeoutSeconds) || timeoutSeconds <= 0) {
+      throw new Error(`Invalid timeout: ${options.timeout}. Must be a positive number of seconds.`);
+    }
+
+    const tokenizer = getTokenizer();
+    const scopeBadge = formatScopeBadge(config.scope || 'user');
+    console.log(header(`Measuring MCP Servers (${adapter.name} - ${scopeBadge})`));
+
+    if (names.length === 0) {
+      console.log(chalk.gray('\n  (no enabled servers)'));
+      return;
+    }
+
+    const measured: Record<string, ServerMeasurement> = {};
+    const failed: string[] = [];
+    const builtin: string[] = [];
+
+    for (const name of names) {
+      const server = servers[name];
+      console.log(`\n${chalk.bold(name)}${formatServerTarget(server)}`);
+
+      if (isBuiltinServer(server)) {
+        builtin.push(name);
+        console.log(chalk.gray('  - Built-in server, run by the tool itself (estimates will be used)'));
+        continue;
+      }
+
+      // Compare against the last measurement, or the heuristic estimate for new servers
+      const previous = estimateServerTokens(name, server, tokenizer);
+      const comparison = `${getCachedMeasurement(server) ? 'was' : 'estimated'} ${formatCompactTokens(previous)}`;
+
+      try {
+        const result = await measureServer(server, { timeoutMs: timeoutSeconds * 1000, tokenizer });
+        measured[name] = result;
+        cacheMeasurement(server, result);
+
+        console.log(
+          `  ${chalk.green('✓')} ${result.tools} tools, ${result.prompts} prompts, ${result.resources} resources` +
+          `  ${chalk.bold(formatCompactTokens(result.tokens))} ${chalk.dim(`(${comparison})`)}`
+        );
+      } catch (err) {
+        failed.push(name);
+        const [message, ...details] = (err instanceof Error ? err.message : String(err)).split('\n');
+        console.log(`  ${chalk.red('✗')} ${message}`);
+        details.forEach(line => console.log(chalk.dim(`    ${line}`)));
+      }
+    }
+
+    const measuredCount = Object.keys(measured).length;
+    const totalTokens = Object.values(measured).reduce((total, result) => total + result.tokens, 0);
+    console.log(chalk.bold(`\nMeasured ${measuredCount} of ${names.length - builtin.length} servers: ${formatCompactTokens(totalTokens)}`));
+    console.log(chalk.dim(`Counted with the ${tokenizer.id} tokenizer (${tokenizer.description})`));
+    if (failed.length > 0) {
+      console.log(chalk.yellow(`Could not measure: ${failed.join(', ')} (estimates will be used)`));
+      process.exitCode = 1;
+    }
+    console.log(chalk.dim('\nUse "house-mcp-manager status" to see measured numbers alongside estimates'));
+  } catch (err) {
+    console.error(formatError(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+}
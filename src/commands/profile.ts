@@ -2,9 +2,11 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import chalk from 'chalk';
-import type { MCPAdapter, MCPConfig, ScopedMCPConfig } from '../adapters/base.js';
+import type { ConfigScope, MCPAdapter, MCPConfig, MCPServer, ScopedMCPConfig } from '../adapters/base.js';
 import type { ScopeInfo } from '../utils/scope.js';
-import { success, error as formatError, createProfileTable, header } from '../utils/formatting.js';
+import { success, error as formatError, createProfileTable, createReferenceTable, header } from '../utils/formatting.js';
+import { findSecrets, referenceSecrets, stripSecrets } from '../utils/secrets.js';
+import { REFERENCE_KINDS, checkServerReferences, hasReferences, resolveConfigReferences } from '../utils/references.js';
 
 const PROFILES_DIR = path.join(os.homedir(), '.claude-mcp-profiles');
 
@@ -13,14 +15,28 @@ interface Profile {
   tool?: string;  // Optional for backward compat
   enabled?: Record<string, any>;
   disabled?: Record<string, any>;
-  scope?: 'user' | 'project';
+  scope?: ConfigScope;
   projectPath?: string;
   // Old format (backward compat)
   mcpServers?: Record<string, any>;
   _disabled_mcpServers?: Record<string, any>;
+  // Secret env/header entries left out on save, per server ("env.KEY", "headers.KEY")
+  strippedSecrets?: Record<string, string[]>;
   created: string;
 }
 
+export interface SaveProfileOptions {
+  /** Leave secret env and header values out of the profile */
+  stripSecrets?: boolean;
+  /** Store secret env and header values as ${env:VAR} references */
+  secretRefs?: boolean;
+}
+
+export interface LoadProfileOptions {
+  /** Run ${cmd:} references to get their values */
+  allowCmd?: boolean;
+}
+
 /**
  * Ensures profiles directory exists
  */
@@ -54,8 +70,8 @@ function listProfiles(): string[] {
  * Helper to load config based on scope
  */
 function loadScopedConfig(adapter: MCPAdapter, scopeInfo: ScopeInfo): ScopedMCPConfig {
-  if (scopeInfo.scope === 'project' && adapter.supportsProjectScope() && adapter.getMergedConfig) {
-    return adapter.getMergedConfig(scopeInfo.projectPath!);
+  if (scopeInfo.scope !== 'user' && adapter.supportsProjectScope() && adapter.getMergedConfig) {
+    return adapter.getMergedConfig(scopeInfo.projectPath!, scopeInfo.scope);
   }
   const config = adapter.loadConfig();
   return {
@@ -69,25 +85,61 @@ function loadScopedConfig(adapter: MCPAdapter, scopeInfo: ScopeInfo): ScopedMCPC
   };
 }
 
+/**
+ * Applies a secret handling mode to every server in a section of a profile
+ */
+function protectSecrets(
+  servers: Record<string, MCPServer>,
+  options: SaveProfileOptions,
+  stripped: Record<string, string[]>,
+  variables: Set<string>
+): Record<string, MCPServer> {
+  return Object.fromEntries(Object.entries(servers).map(([name, server]) => {
+    if (options.secretRefs) {
+      const result = referenceSecrets(name, server);
+      result.variables.forEach(variable => variables.add(variable));
+      return [name, result.server];
+    }
+    if (options.stripSecrets) {
+      const result = stripSecrets(server);
+      if (result.stripped.length > 0) {
+        stripped[name] = result.stripped;
+      }
+      return [name, result.server];
+    }
+    return [name, server];
+  }));
+}
+
 /**
  * Save current configuration as a profile
  */
-export function saveProfile(adapter: MCPAdapter, name: string, scopeInfo: ScopeInfo): void {
+export function saveProfile(adapter: MCPAdapter, name: string, scopeInfo: ScopeInfo, options: SaveProfileOptions = {}): void {
   try {
+    if (options.stripSecrets && options.secretRefs) {
+      throw new Error('Use either --strip-secrets or --secret-refs, not both');
+    }
+
     ensureProfilesDir();
 
     const config = loadScopedConfig(adapter, scopeInfo);
+    const stripped: Record<string, string[]> = {};
+    const variables = new Set<string>();
 
     const profile: Profile = {
       name,
       tool: adapter.id,
-      enabled: config.enabled || {},
-      disabled: config.disabled || {},
+      enabled: protectSecrets(config.enabled || {}, options, stripped, variables),
+      disabled: protectSecrets(config.disabled || {}, options, stripped, variables),
       scope: config.scope || 'user',
       projectPath: config.projectPath,
       created: new Date().toISOString()
     };
 
+    if (Object.keys(stripped).length > 0) {
+      profile.strippedSecrets = stripped;
+    }
+
     const profilePath = getProfilePath(name);
 
     fs.writeFileSync(profilePath, JSON.stringify(profile, null, 2));
@@ -95,6 +147,24 @@ export function saveProfile(adapter: MCPAdapter, name: string, scopeInfo: ScopeI
     const scopeLabel = config.scope === 'project' ? ' (project scope)' : '';
     console.log(success(`Saved profile "${name}" for ${adapter.name}${scopeLabel}`));
     console.log(chalk.dim(`Profile saved to: ${profilePath}`));
+
+    // Whatever is still in the profile is written in plain text
+    const remaining = Object.entries({ ...profile.disabled, ...profile.enabled })
+      .flatMap(([serverName, server]) => findSecrets(server).map(finding => `${serverName}: ${finding.location} ${finding.key}`));
+
+    if (options.secretRefs && variables.size > 0) {
+      console.log(chalk.dim(`\nSecrets were saved as references. Set these before loading the profile: ${[...variables].join(', ')}`));
+    }
+    if (options.stripSecrets && Object.keys(stripped).length > 0) {
+      console.log(chalk.dim('\nSecrets were left out. Loading the profile keeps the values currently configured for those servers.'));
+    }
+    if (remaining.length > 0) {
+      console.log(chalk.yellow(`\n⚠️  The profile contains ${remaining.length} likely secret${remaining.length === 1 ? '' : 's'} in plain text:`));
+      remaining.forEach(entry => console.log(chalk.yellow(`  ${entry}`)));
+      console.log(chalk.dim(options.stripSecrets || options.secretRefs
+        ? 'Secrets in args or URLs cannot be taken out; move them to env to protect them.'
+        : 'Use --strip-secrets to leave them out, or --secret-refs to store ${env:VAR} references instead.'));
+    }
   } catch (err) {
     console.error(formatError(err instanceof Error ? err.message : String(err)));
     process.exit(1);
@@ -102,9 +172,43 @@ export function saveProfile(adapter: MCPAdapter, name: string, scopeInfo: ScopeI
 }
 
 /**
- * Load a profile and apply it to the current configuration
+ * Puts back secret env and header values left out by --strip-secrets, from
+ * the same servers in the current configuration. Returns the ones it could not find.
  */
-export function loadProfile(adapter: MCPAdapter, name: string, scopeInfo: ScopeInfo): void {
+function restoreStrippedSecrets(
+  servers: Record<string, MCPServer>,
+  strippedSecrets: Record<string, string[]>,
+  current: MCPConfig
+): string[] {
+  const missing: string[] = [];
+
+  Object.entries(strippedSecrets).forEach(([serverName, entries]) => {
+    const server = servers[serverName];
+    if (!server) {
+      return;
+    }
+    const source: MCPServer | undefined = current.enabled[serverName] || current.disabled[serverName];
+
+    entries.forEach(entry => {
+      const [location, ...rest] = entry.split('.');
+      const key = rest.join('.');
+      const value = source?.[location]?.[key];
+      if (typeof value === 'string') {
+        server[location] = { ...server[location], [key]: value };
+      } else {
+        missing.push(`${serverName}: ${location} ${key}`);
+      }
+    });
+  });
+
+  return missing;
+}
+
+/**
+ * Load a profile and apply it to the current configuration. References in
+ * the profile's servers are resolved here, never in existing config files.
+ */
+export function loadProfile(adapter: MCPAdapter, name: string, scopeInfo: ScopeInfo, options: LoadProfileOptions = {}): void {
   try {
     const profilePath = getProfilePath(name);
 
@@ -126,40 +230,84 @@ export function loadProfile(adapter: MCPAdapter, name: string, scopeInfo: ScopeI
       console.log(chalk.yellow(`\nWarning: Profile "${name}" was saved with ${profile.scope} scope, loading into ${scopeInfo.scope} scope`));
     }
 
+    // Project files are shared, so secrets must not end up in them
+    const sharesFiles = scopeInfo.scope === 'project' && adapter.supportsProjectScope();
+
+    // Secrets left out on save come back from the current configuration,
+    // except in shared project files where they stay out
+    let missingSecrets: string[] = [];
+    if (profile.strippedSecrets && sharesFiles) {
+      missingSecrets = Object.entries(profile.strippedSecrets).flatMap(([serverName, entries]) =>
+        entries.map(entry => `${serverName}: ${entry.replace('.', ' ')}`)
+      );
+    } else if (profile.strippedSecrets) {
+      const current = loadScopedConfig(adapter, scopeInfo);
+      missingSecrets = [
+        ...restoreStrippedSecrets(profile.enabled || {}, profile.strippedSecrets, current),
+        ...restoreStrippedSecrets(profile.disabled || {}, profile.strippedSecrets, current)
+      ];
+    }
+
+    const enabled = profile.enabled || profile.mcpServers || {};  // Support old format
+    const disabled = profile.disabled || profile._disabled_mcpServers || {};  // Support old format
+
+    // References the tool cannot expand itself become real values on load
+    const kinds = REFERENCE_KINDS.filter(kind => !adapter.nativeReferenceKinds.includes(kind));
+    const referencing = Object.entries({ ...enabled, ...disabled })
+      .filter(([, server]) => hasReferences(server, kinds))
+      .map(([serverName]) => serverName);
+
+    // Resolved references are secrets too
+    if (sharesFiles && referencing.length > 0) {
+      console.error(formatError(`Profile "${name}" has references that would put secrets in shared project files: ${referencing.join(', ')}`));
+      console.log('\nLoad it with --scope=local or --scope=user instead.');
+      process.exit(1);
+    }
+
+    const resolved = resolveConfigReferences({ enabled, disabled }, kinds, { allowCommands: options.allowCmd });
+
     // Load config based on scope
-    if (scopeInfo.scope === 'project' && adapter.supportsProjectScope()) {
+    if (scopeInfo.scope !== 'user' && adapter.supportsProjectScope()) {
       // Load project config or create new one
-      let projectConfig = adapter.loadProjectConfig?.(scopeInfo.projectPath!);
+      let projectConfig = adapter.loadProjectConfig?.(scopeInfo.projectPath!, scopeInfo.scope);
       if (!projectConfig) {
         projectConfig = {
           enabled: {},
           disabled: {},
           metadata: {
             tool: adapter.id,
-            scope: 'project'
+            scope: scopeInfo.scope
           }
         };
       }
 
       // Update project config with profile data
-      projectConfig.enabled = profile.enabled || profile.mcpServers || {};  // Support old format
-      projectConfig.disabled = profile.disabled || profile._disabled_mcpServers || {};  // Support old format
+      projectConfig.enabled = resolved.enabled;
+      projectConfig.disabled = resolved.disabled;
 
-      adapter.saveProjectConfig?.(scopeInfo.projectPath!, projectConfig);
-      console.log(success(`Loaded profile "${name}" to project-level configuration`));
+      adapter.saveProjectConfig?.(scopeInfo.projectPath!, projectConfig, scopeInfo.scope);
+      console.log(success(`Loaded profile "${name}" to ${scopeInfo.scope}-level configuration`));
       console.log(chalk.dim(`Project: ${scopeInfo.projectPath}`));
     } else {
       // Load user config
       const config = adapter.loadConfig();
 
       // Update config with profile data
-      config.enabled = profile.enabled || profile.mcpServers || {};  // Support old format
-      config.disabled = profile.disabled || profile._disabled_mcpServers || {};  // Support old format
+      config.enabled = resolved.enabled;
+      config.disabled = resolved.disabled;
 
       adapter.saveConfig(config);
       console.log(success(`Loaded profile "${name}"`));
     }
 
+    if (missingSecrets.length > 0) {
+      console.log(chalk.yellow(sharesFiles
+        ? '\n⚠️  These secrets were left out of the profile and are not written to shared project files:'
+        : '\n⚠️  These secrets were left out of the profile and are not in the current configuration:'));
+      missingSecrets.forEach(entry => console.log(chalk.yellow(`  ${entry}`)));
+      console.log(chalk.dim(sharesFiles ? 'Add them at local or user scope by hand.' : 'Add them to the servers by hand.'));
+    }
+
     console.log(`\nRestart ${adapter.name} for changes to take effect.`);
   } catch (err) {
     console.error(formatError(err instanceof Error ? err.message : String(err)));
@@ -167,6 +315,69 @@ export function loadProfile(adapter: MCPAdapter, name: string, scopeInfo: ScopeI
   }
 }
 
+/**
+ * Show the ${env:}, ${file:} and ${cmd:} references in a profile and whether
+ * each resolves, before the profile is loaded
+ */
+export function checkProfileCommand(name: string, options: LoadProfileOptions = {}): void {
+  try {
+    const profilePath = getProfilePath(name);
+
+    if (!fs.existsSync(profilePath)) {
+      console.error(formatError(`Profile "${name}" does not exist`));
+      console.log('\nUse "house-mcp-manager profile list" to see available profiles.');
+      process.exit(1);
+    }
+
+    const profile: Profile = JSON.parse(fs.readFileSync(profilePath, 'utf-8'));
+    const sections: Array<[Record<string, MCPServer>, boolean]> = [
+      [profile.enabled || profile.mcpServers || {}, true],  // Support old format
+      [profile.disabled || profile._disabled_mcpServers || {}, false]
+    ];
+
+    console.log(header(`References in Profile "${name}"`));
+
+    const table = createReferenceTable();
+    const unresolved = new Set<string>();
+    let count = 0;
+
+    sections.forEach(([servers, enabled]) => {
+      Object.entries(servers).forEach(([serverName, server]) => {
+        checkServerReferences(server, REFERENCE_KINDS, { allowCommands: options.allowCmd }).forEach(reference => {
+          count++;
+          if (!reference.resolved) {
+            unresolved.add(serverName);
+          }
+          table.push([
+            enabled ? serverName : chalk.gray(`${serverName} (disabled)`),
+            reference.location,
+            `\${${reference.kind}:${reference.target}}`,
+            reference.resolved ? chalk.green('✓ resolves') : chalk.red(`✗ ${reference.error}`)
+          ]);
+        });
+      });
+    });
+
+    if (count === 0) {
+      console.log(chalk.gray('\nNo references in this profile.'));
+      return;
+    }
+
+    console.log(table.toString());
+
+    if (unresolved.size > 0) {
+      console.log(chalk.red(`\n${unresolved.size} server${unresolved.size === 1 ? '' : 's'} cannot be loaded yet: ${[...unresolved].join(', ')}`));
+      process.exitCode = 1;
+    } else {
+      console.log(chalk.green('\n✓ Every reference resolves.'));
+    }
+    console.log(chalk.dim('References are resolved when the profile is loaded, into user or local scope only. ${cmd:} references run only with --allow-cmd.'));
+  } catch (err) {
+    console.error(formatError(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+}
+
 /**
  * List all saved profiles
  */
@@ -1,15 +1,17 @@
 import chalk from 'chalk';
-import type { MCPAdapter, ScopedMCPConfig } from '../adapters/base.js';
+import { isRemoteServer, type MCPAdapter, type MCPServer, type ScopedMCPConfig } from '../adapters/base.js';
 import type { ScopeInfo } from '../utils/scope.js';
-import { createServerTable, header, formatTokenCount, error as formatError, formatScopeBadge, sectionHeader, formatCompactTokens } from '../utils/formatting.js';
-import { estimateServerTokens, estimateServerTools, calculateTotalTokens, calculateScopedTokens } from '../utils/tokens.js';
+import { createServerTable, header, formatTokenCount, error as formatError, formatScopeBadge, sectionHeader, formatCompactTokens, formatSourceLayer, formatServerTarget, formatTokenSource, formatContextShare, formatContextWindow } from '../utils/formatting.js';
+import { estimateServerTokens, estimateServerTools, calculateScopedTokens } from '../utils/tokens.js';
+import { getCachedMeasurement } from '../utils/measurement-cache.js';
+import { resolveModelProfile, getUsageThresholds } from '../utils/models.js';
 
 /**
  * Helper to load config based on scope
  */
 function loadScopedConfig(adapter: MCPAdapter, scopeInfo: ScopeInfo): ScopedMCPConfig {
-  if (scopeInfo.scope === 'project' && adapter.supportsProjectScope() && adapter.getMergedConfig) {
-    return adapter.getMergedConfig(scopeInfo.projectPath!);
+  if (scopeInfo.scope !== 'user' && adapter.supportsProjectScope() && adapter.getMergedConfig) {
+    return adapter.getMergedConfig(scopeInfo.projectPath!, scopeInfo.scope);
   }
   const config = adapter.loadConfig();
   return {
@@ -23,10 +25,29 @@ function loadScopedConfig(adapter: MCPAdapter, scopeInfo: ScopeInfo): ScopedMCPC
   };
 }
 
-export function statusCommand(adapter: MCPAdapter, scopeInfo: ScopeInfo): void {
+/**
+ * Remote servers show their transport and host, since nothing runs locally for them
+ */
+function remoteTarget(server: MCPServer): string {
+  return isRemoteServer(server) ? formatServerTarget(server) : '';
+}
+
+/**
+ * Whether a server's numbers come from a `measure` run or from heuristics
+ */
+function tokenSource(server: MCPServer): string {
+  return chalk.dim(formatTokenSource(getCachedMeasurement(server)?.measuredAt));
+}
+
+export function statusCommand(adapter: MCPAdapter, scopeInfo: ScopeInfo, modelFlag?: string): void {
   try {
+    const model = resolveModelProfile(adapter, modelFlag);
+    const contextWindow = model.contextWindow;
+    // Share of the model's context window, padded to line up in project listings
+    const share = (tokens: number) => formatContextShare(tokens, contextWindow).padEnd(7);
+
     const config = loadScopedConfig(adapter, scopeInfo);
-    const isProjectScope = config.scope === 'project';
+    const isProjectScope = config.scope === 'project' || config.scope === 'local';
 
     const enabledServers = adapter.getEnabledServers(config);
     const disabledServers = adapter.getDisabledServers(config);
@@ -38,6 +59,7 @@ export function statusCommand(adapter: MCPAdapter, scopeInfo: ScopeInfo): void {
     if (isProjectScope && config.projectPath) {
       console.log(chalk.dim(`Project: ${config.projectPath}`));
     }
+    console.log(chalk.dim(`Model: ${model.name} (${formatContextWindow(contextWindow)} context window)`));
 
     // Calculate tokens
     const scopedTokens = calculateScopedTokens(config);
@@ -48,7 +70,9 @@ export function statusCommand(adapter: MCPAdapter, scopeInfo: ScopeInfo): void {
       console.log(chalk.bold.green('\n✓ ENABLED SERVERS:'));
 
       if (isProjectScope && config.inheritance) {
-        const { inherited, overridden, additions } = config.inheritance;
+        const { inherited, overridden, additions, sources } = config.inheritance;
+        // Tools with more than one project layer show which layer each server comes from
+        const source = (name: string) => adapter.supportsLocalScope() ? formatSourceLayer(sources?.[name]) : '';
         
         // Inherited servers
         if (inherited.length > 0) {
@@ -57,7 +81,7 @@ export function statusCommand(adapter: MCPAdapter, scopeInfo: ScopeInfo): void {
             const server = config.enabled[name];
             const tokens = estimateServerTokens(name, server);
             const tools = estimateServerTools(name, server);
-            console.log(`  ${chalk.green(name.padEnd(20))} ${formatCompactTokens(tokens).padEnd(15)} ${tools} tools`);
+            console.log(`  ${chalk.green(name.padEnd(20))} ${formatCompactTokens(tokens).padEnd(15)} ${share(tokens)} ${tools} tools ${tokenSource(server)}${remoteTarget(server)}`);
           });
         }
         
@@ -68,7 +92,7 @@ export function statusCommand(adapter: MCPAdapter, scopeInfo: ScopeInfo): void {
             const server = config.enabled[name];
             const tokens = estimateServerTokens(name, server);
             const tools = estimateServerTools(name, server);
-            console.log(`  ${chalk.yellow(name.padEnd(20))} ${formatCompactTokens(tokens).padEnd(15)} ${tools} tools ${chalk.dim('⚠️')}`);
+            console.log(`  ${chalk.yellow(name.padEnd(20))} ${formatCompactTokens(tokens).padEnd(15)} ${share(tokens)} ${tools} tools ${tokenSource(server)}${remoteTarget(server)} ${chalk.dim('⚠️')}${source(name)}`);
           });
         }
         
@@ -79,7 +103,7 @@ export function statusCommand(adapter: MCPAdapter, scopeInfo: ScopeInfo): void {
             const server = config.enabled[name];
             const tokens = estimateServerTokens(name, server);
             const tools = estimateServerTools(name, server);
-            console.log(`  ${chalk.green(name.padEnd(20))} ${formatCompactTokens(tokens).padEnd(15)} ${tools} tools`);
+            console.log(`  ${chalk.green(name.padEnd(20))} ${formatCompactTokens(tokens).padEnd(15)} ${share(tokens)} ${tools} tools ${tokenSource(server)}${remoteTarget(server)}${source(name)}`);
           });
         }
       } else {
@@ -91,9 +115,9 @@ export function statusCommand(adapter: MCPAdapter, scopeInfo: ScopeInfo): void {
           const tools = estimateServerTools(name, server);
 
           enabledTable.push([
-            chalk.green(name),
+            chalk.green(name) + remoteTarget(server),
             chalk.green('Enabled'),
-            formatTokenCount(tokens),
+            `${formatTokenCount(tokens, contextWindow)} ${chalk.dim(formatContextShare(tokens, contextWindow))}\n${tokenSource(server)}`,
             chalk.white(tools.toString())
           ]);
         });
@@ -119,7 +143,7 @@ export function statusCommand(adapter: MCPAdapter, scopeInfo: ScopeInfo): void {
           const tools = estimateServerTools(name, server);
           const isProjectDisabled = userEnabled.includes(name);
           const label = isProjectDisabled ? chalk.dim('[disabled at project level]') : '';
-          console.log(`  ${chalk.gray(name.padEnd(20))} ${chalk.gray(formatCompactTokens(tokens).padEnd(15))} ${chalk.gray(tools + ' tools')} ${label}`);
+          console.log(`  ${chalk.gray(name.padEnd(20))} ${chalk.gray(formatCompactTokens(tokens).padEnd(15))} ${chalk.gray(share(tokens))} ${chalk.gray(tools + ' tools')} ${tokenSource(server)}${remoteTarget(server)} ${label}`);
         });
       } else {
         const disabledTable = createServerTable();
@@ -129,9 +153,9 @@ export function statusCommand(adapter: MCPAdapter, scopeInfo: ScopeInfo): void {
           const tools = estimateServerTools(name, server);
 
           disabledTable.push([
-            chalk.gray(name),
+            chalk.gray(name) + remoteTarget(server),
             chalk.gray('Disabled'),
-            chalk.gray(`~${tokens.toLocaleString()} tokens`),
+            `${chalk.gray(`~${tokens.toLocaleString()} tokens`)} ${chalk.dim(formatContextShare(tokens, contextWindow))}\n${tokenSource(server)}`,
             chalk.gray(tools.toString())
           ]);
         });
@@ -145,29 +169,34 @@ export function statusCommand(adapter: MCPAdapter, scopeInfo: ScopeInfo): void {
     console.log(`  Enabled: ${chalk.green(enabledServers.length)}`);
     console.log(`  Disabled: ${chalk.gray(disabledServers.length)}`);
     
+    const windowShare = chalk.dim(
+      `(${formatContextShare(totalEnabledTokens, contextWindow)} of the ${formatContextWindow(contextWindow)} context window)`
+    );
+
     if (isProjectScope && config.inheritance) {
       console.log(chalk.bold('\nToken Breakdown:'));
       if (scopedTokens.inherited > 0) {
-        console.log(`  Inherited:     ${formatTokenCount(scopedTokens.inherited)}`);
+        console.log(`  Inherited:     ${formatTokenCount(scopedTokens.inherited, contextWindow)}`);
       }
       if (scopedTokens.overrides > 0) {
-        console.log(`  Overrides:      ${formatTokenCount(scopedTokens.overrides)}`);
+        console.log(`  Overrides:      ${formatTokenCount(scopedTokens.overrides, contextWindow)}`);
       }
       if (scopedTokens.additions > 0) {
-        console.log(`  Additions:      ${formatTokenCount(scopedTokens.additions)}`);
+        console.log(`  Additions:      ${formatTokenCount(scopedTokens.additions, contextWindow)}`);
       }
       console.log(`  ${'─'.repeat(30)}`);
-      console.log(`  Total:          ${formatTokenCount(totalEnabledTokens)}`);
+      console.log(`  Total:          ${formatTokenCount(totalEnabledTokens, contextWindow)} ${windowShare}`);
     } else {
-      console.log(`  Total Active Token Usage: ${formatTokenCount(totalEnabledTokens)}`);
+      console.log(`  Total Active Token Usage: ${formatTokenCount(totalEnabledTokens, contextWindow)} ${windowShare}`);
     }
 
-    // Recommendations
-    if (totalEnabledTokens > 100000) {
+    // Recommendations, relative to the model's context window
+    const thresholds = getUsageThresholds(model);
+    if (totalEnabledTokens > thresholds.high) {
       console.log(chalk.yellow('\n⚠️  HIGH TOKEN USAGE DETECTED'));
       console.log(chalk.yellow('   Consider disabling servers you\'re not actively using.'));
       console.log(chalk.dim('   Use "house-mcp-manager interactive" to quickly toggle servers.'));
-    } else if (totalEnabledTokens > 50000) {
+    } else if (totalEnabledTokens > thresholds.moderate) {
       console.log(chalk.yellow('\n⚠️  MODERATE TOKEN USAGE'));
       console.log(chalk.dim('   Your context window is being moderately consumed by MCP servers.'));
     } else {
@@ -175,8 +204,14 @@ export function statusCommand(adapter: MCPAdapter, scopeInfo: ScopeInfo): void {
     }
 
     // Hints
-    console.log(chalk.dim('\nNOTE: Token estimates are approximate and based on known server data.'));
-    console.log(chalk.dim('Actual token usage may vary.'));
+    const allServers = { ...config.disabled, ...config.enabled };
+    if (Object.values(allServers).some(server => getCachedMeasurement(server))) {
+      console.log(chalk.dim('\nNOTE: Servers measured with "house-mcp-manager measure" show real token counts;'));
+      console.log(chalk.dim('the rest are estimates based on known server data.'));
+    } else {
+      console.log(chalk.dim('\nNOTE: Token estimates are approximate and based on known server data.'));
+      console.log(chalk.dim('Run "house-mcp-manager measure" to count real tokens.'));
+    }
   } catch (err) {
     console.error(formatError(err instanceof Error ? err.message : String(err)));
     process.exit(1);
@@ -1,18 +1,14 @@
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import type { MCPServer } from './adapters/base.js';
+
+// The server model is shared with the adapters
+export type { MCPServer };
 
 const CONFIG_PATH = path.join(os.homedir(), '.claude.json');
 const BACKUP_DIR = path.join(os.homedir(), '.claude-mcp-backups');
 
-export interface MCPServer {
-  command: string;
-  args?: string[];
-  env?: Record<string, string>;
-  disabled?: boolean;
-  [key: string]: any;
-}
-
 export interface ClaudeConfig {
   mcpServers: Record<string, MCPServer>;
   _disabled_mcpServers?: Record<string, MCPServer>;
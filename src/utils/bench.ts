@@ -0,0 +1,102 @@
+import type { MCPServer } from '../adapters/base.js';
+import { timeServerStartup, type StartupTiming } from './measure.js';
+
+/**
+ * Summary of repeated timings (ms)
+ */
+export interface TimingStats {
+  median: number;
+  p95: number;
+  min: number;
+  max: number;
+}
+
+export interface BenchResult {
+  /** Runs that completed */
+  runs: number;
+  /** Runs that failed or timed out */
+  failures: number;
+  initialize: TimingStats | null;
+  toolsList: TimingStats | null;
+  /** Error from the last failed run */
+  lastError?: string;
+}
+
+export interface BenchOptions {
+  /** How many times to start the server */
+  runs?: number;
+  /** Time allowed per run, including startup (ms) */
+  timeoutMs?: number;
+  /** Called after each run, e.g. to show progress */
+  onRun?: (run: number, timing: StartupTiming | null) => void;
+}
+
+/**
+ * Gets a percentile (nearest-rank) of a list of samples
+ */
+export function percentile(samples: number[], p: number): number {
+  if (samples.length === 0) {
+    return 0;
+  }
+  const sorted = [...samples].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+/**
+ * Gets the median of a list of samples (the mean of the middle two for even counts)
+ */
+export function median(samples: number[]): number {
+  if (samples.length === 0) {
+    return 0;
+  }
+  const sorted = [...samples].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Summarizes repeated timings, or null when there are none
+ */
+export function summarizeTimings(samples: number[]): TimingStats | null {
+  if (samples.length === 0) {
+    return null;
+  }
+  return {
+    median: median(samples),
+    p95: percentile(samples, 95),
+    min: Math.min(...samples),
+    max: Math.max(...samples)
+  };
+}
+
+/**
+ * Starts a server several times in a row and times how long it takes to
+ * initialize and to answer `tools/list`. Failed runs are counted, not timed.
+ */
+export async function benchServer(server: MCPServer, options: BenchOptions = {}): Promise<BenchResult> {
+  const runs = options.runs ?? 5;
+  const initialize: number[] = [];
+  const toolsList: number[] = [];
+  let lastError: string | undefined;
+
+  for (let run = 1; run <= runs; run++) {
+    try {
+      const timing = await timeServerStartup(server, { timeoutMs: options.timeoutMs });
+      initialize.push(timing.initializeMs);
+      toolsList.push(timing.toolsListMs);
+      options.onRun?.(run, timing);
+    } catch (err) {
+      lastError = err instanceof Error ? err.message : String(err);
+      options.onRun?.(run, null);
+    }
+  }
+
+  return {
+    runs: initialize.length,
+    failures: runs - initialize.length,
+    initialize: summarizeTimings(initialize),
+    toolsList: summarizeTimings(toolsList),
+    lastError
+  };
+}
@@ -0,0 +1,110 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import type { ScopeInfo } from './scope.js';
+
+/**
+ * A token budget for MCP servers and how much each server matters
+ */
+export interface BudgetSettings {
+  /** Most tokens the enabled servers may use */
+  budget?: number;
+  /**
+   * Per-server priorities (default 1). A fit never enables a server with
+   * priority 0 and only keeps one enabled if nothing else needs the room.
+   */
+  priorities: Record<string, number>;
+}
+
+export interface FitCandidate {
+  name: string;
+  tokens: number;
+  priority: number;
+  /** Enabled servers win ties, so a fit changes as little as possible */
+  enabled: boolean;
+}
+
+export const DEFAULT_PRIORITY = 1;
+
+const PROJECT_BUDGET_FILE = '.mcp-budget.json';
+
+// Largest number of capacity steps the knapsack table works with
+const MAX_CAPACITY_STEPS = 10000;
+
+/**
+ * Gets the budget file for a scope: one per user, or one per project
+ * (shared by its project and local scopes)
+ */
+export function getBudgetPath(scopeInfo: ScopeInfo): string {
+  if (scopeInfo.scope === 'user' || !scopeInfo.projectPath) {
+    return path.join(os.homedir(), '.claude-mcp-budget.json');
+  }
+  return path.join(scopeInfo.projectPath, PROJECT_BUDGET_FILE);
+}
+
+/**
+ * Loads the budget settings for a scope (empty if none were saved)
+ */
+export function loadBudget(scopeInfo: ScopeInfo): BudgetSettings {
+  const budgetPath = getBudgetPath(scopeInfo);
+  if (!fs.existsSync(budgetPath)) {
+    return { priorities: {} };
+  }
+
+  try {
+    const settings = JSON.parse(fs.readFileSync(budgetPath, 'utf-8'));
+    return { ...settings, priorities: settings.priorities || {} };
+  } catch (err) {
+    throw new Error(`Could not read budget ${budgetPath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Saves the budget settings for a scope
+ */
+export function saveBudget(scopeInfo: ScopeInfo, settings: BudgetSettings): string {
+  const budgetPath = getBudgetPath(scopeInfo);
+  fs.mkdirSync(path.dirname(budgetPath), { recursive: true });
+  fs.writeFileSync(budgetPath, JSON.stringify(settings, null, 2) + '\n', 'utf-8');
+  return budgetPath;
+}
+
+/**
+ * Picks the servers with the highest total priority whose tokens fit in the
+ * budget (0/1 knapsack). Token counts are rounded up to coarser steps for
+ * large budgets, so a selection never goes over budget.
+ */
+export function fitServers(candidates: FitCandidate[], budget: number): string[] {
+  const step = Math.max(1, Math.ceil(budget / MAX_CAPACITY_STEPS));
+  const capacity = Math.floor(budget / step);
+  const weights = candidates.map(c => Math.ceil(c.tokens / step));
+
+  // Priorities dominate; being enabled already only breaks ties
+  const tieBreak = candidates.length + 1;
+  const values = candidates.map(c => c.priority * tieBreak + (c.enabled ? 1 : 0));
+
+  // best[w] = highest value using at most w capacity; keep[i][w] = item i taken at w
+  const best = new Array<number>(capacity + 1).fill(0);
+  const keep = candidates.map(() => new Uint8Array(capacity + 1));
+
+  candidates.forEach((_, i) => {
+    for (let w = capacity; w >= weights[i]; w--) {
+      const value = best[w - weights[i]] + values[i];
+      if (value > best[w]) {
+        best[w] = value;
+        keep[i][w] = 1;
+      }
+    }
+  });
+
+  const selected: string[] = [];
+  let w = capacity;
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    if (keep[i][w]) {
+      selected.push(candidates[i].name);
+      w -= weights[i];
+    }
+  }
+
+  return selected.reverse();
+}
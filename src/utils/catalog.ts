@@ -0,0 +1,235 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { isRemoteServer, type MCPServer } from '../adapters/base.js';
+
+export type CatalogLayer = 'builtin' | 'user' | 'project';
+
+/**
+ * Token and tool counts for a server that can't (or needn't) be measured.
+ * Without `pattern` or `command` an entry matches its own name exactly.
+ */
+export interface CatalogEntry {
+  tokens: number;
+  tools: number;
+  /** Regular expression tested against the server name (case-insensitive) */
+  pattern?: string;
+  /** Text looked for in the command and args, or the URL (e.g. an npm package) */
+  command?: string;
+  /** Tokens per tool, when known (e.g. from `calibrate`) */
+  toolTokens?: Record<string, number>;
+}
+
+export interface ResolvedCatalogEntry extends CatalogEntry {
+  name: string;
+  layer: CatalogLayer;
+}
+
+/**
+ * Known token estimates for common MCP servers
+ * Based on reported values from the community
+ */
+const KNOWN_SERVERS: Record<string, { tokens: number; tools: number }> = {
+  'canvas-mcp-server': { tokens: 78000, tools: 42 },
+  'context7': { tokens: 2000, tools: 2 },
+  'gemini-collab': { tokens: 4000, tools: 4 },
+  'puppeteer': { tokens: 8000, tools: 7 },
+  'notion': { tokens: 35000, tools: 20 },
+  'github': { tokens: 15000, tools: 12 },
+  'slack': { tokens: 8000, tools: 8 },
+  'filesystem': { tokens: 5000, tools: 5 },
+  'postgres': { tokens: 10000, tools: 10 },
+  'brave-search': { tokens: 3000, tools: 3 },
+  'google-maps': { tokens: 5000, tools: 5 },
+  'memory': { tokens: 4000, tools: 4 },
+  'fetch': { tokens: 2000, tools: 2 },
+  'sequential-thinking': { tokens: 3000, tools: 3 },
+  'time': { tokens: 1000, tools: 2 },
+  'sqlite': { tokens: 8000, tools: 8 },
+  'mcp-server-commands': { tokens: 6000, tools: 6 },
+  'everything': { tokens: 12000, tools: 10 },
+};
+
+const PROJECT_CATALOG_FILE = '.mcp-catalog.json';
+
+// Project whose catalog is consulted (the current directory unless set)
+let catalogProjectPath: string | undefined;
+
+// The layered catalog is read once per process for lookups; writes drop it
+let loaded: { paths: string; catalog: ResolvedCatalogEntry[] } | null = null;
+
+/**
+ * Gets the path of a catalog file
+ */
+export function getCatalogPath(layer: 'user' | 'project', projectPath?: string): string {
+  if (layer === 'user') {
+    return path.join(os.homedir(), '.claude-mcp-catalog.json');
+  }
+  return path.join(projectPath || catalogProjectPath || process.cwd(), PROJECT_CATALOG_FILE);
+}
+
+/**
+ * Chooses the project whose catalog is consulted alongside the user catalog
+ */
+export function useProjectCatalog(projectPath?: string): void {
+  catalogProjectPath = projectPath;
+}
+
+/**
+ * Drops the in-memory catalog so the next lookup reads the catalog files again
+ */
+export function resetCatalogCache(): void {
+  loaded = null;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function validateEntry(name: string, entry: any, filePath: string): CatalogEntry {
+  const invalid = (reason: string) => new Error(`Invalid catalog entry "${name}" in ${filePath}: ${reason}`);
+
+  if (!entry || typeof entry !== 'object') {
+    throw invalid('expected an object');
+  }
+  for (const key of ['tokens', 'tools'] as const) {
+    if (typeof entry[key] !== 'number' || !Number.isFinite(entry[key]) || entry[key] < 0) {
+      throw invalid(`"${key}" must be a non-negative number`);
+    }
+  }
+  if (entry.pattern !== undefined) {
+    try {
+      new RegExp(entry.pattern, 'i');
+    } catch (err) {
+      throw invalid(err instanceof Error ? err.message : String(err));
+    }
+  }
+  if (entry.command !== undefined && (typeof entry.command !== 'string' || !entry.command)) {
+    throw invalid('"command" must be a non-empty string');
+  }
+  if (entry.toolTokens !== undefined && (
+    !entry.toolTokens || typeof entry.toolTokens !== 'object' ||
+    !Object.values(entry.toolTokens).every(tokens => typeof tokens === 'number')
+  )) {
+    throw invalid('"toolTokens" must map tool names to token counts');
+  }
+
+  return entry;
+}
+
+/**
+ * Reads the entries of one catalog file (none if it doesn't exist)
+ */
+export function readCatalog(layer: 'user' | 'project', projectPath?: string): Record<string, CatalogEntry> {
+  const filePath = getCatalogPath(layer, projectPath);
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Could not read catalog ${filePath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+    throw new Error(`Could not read catalog ${filePath}: expected an object of entries`);
+  }
+
+  return Object.fromEntries(
+    Object.entries(entries).map(([name, entry]) => [name, validateEntry(name, entry, filePath)])
+  );
+}
+
+function writeCatalog(layer: 'user' | 'project', entries: Record<string, CatalogEntry>, projectPath?: string): string {
+  const filePath = getCatalogPath(layer, projectPath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(entries, null, 2) + '\n', 'utf-8');
+  loaded = null;
+  return filePath;
+}
+
+/**
+ * Adds an entry to a catalog file, replacing one with the same name
+ */
+export function addCatalogEntry(
+  layer: 'user' | 'project',
+  name: string,
+  entry: CatalogEntry,
+  projectPath?: string
+): string {
+  const entries = readCatalog(layer, projectPath);
+  entries[name] = validateEntry(name, entry, getCatalogPath(layer, projectPath));
+  return writeCatalog(layer, entries, projectPath);
+}
+
+/**
+ * Removes an entry from a catalog file; returns false if it wasn't there
+ */
+export function removeCatalogEntry(layer: 'user' | 'project', name: string, projectPath?: string): boolean {
+  const entries = readCatalog(layer, projectPath);
+  if (!(name in entries)) {
+    return false;
+  }
+
+  delete entries[name];
+  writeCatalog(layer, entries, projectPath);
+  return true;
+}
+
+/**
+ * Gets the full catalog: project entries override user entries, which
+ * override the built-in ones with the same name
+ */
+export function loadCatalog(projectPath?: string): ResolvedCatalogEntry[] {
+  const merged = new Map<string, ResolvedCatalogEntry>();
+
+  // Built-in names match anywhere in the server name, as they always have
+  for (const [name, data] of Object.entries(KNOWN_SERVERS)) {
+    merged.set(name, { name, layer: 'builtin', ...data, pattern: escapeRegex(name) });
+  }
+  for (const layer of ['user', 'project'] as const) {
+    for (const [name, entry] of Object.entries(readCatalog(layer, projectPath))) {
+      merged.delete(name);
+      merged.set(name, { name, layer, ...entry });
+    }
+  }
+
+  // Later layers are consulted first
+  const order: CatalogLayer[] = ['project', 'user', 'builtin'];
+  return [...merged.values()].sort((a, b) => order.indexOf(a.layer) - order.indexOf(b.layer));
+}
+
+/**
+ * Text a catalog `command` is looked for in
+ */
+function getServerCommandLine(server: MCPServer): string {
+  if (isRemoteServer(server)) {
+    return server.url.toLowerCase();
+  }
+  return [server.command, ...(server.args || [])].filter(Boolean).join(' ').toLowerCase();
+}
+
+function matchesEntry(entry: ResolvedCatalogEntry, serverName: string, server: MCPServer): boolean {
+  if (entry.pattern && new RegExp(entry.pattern, 'i').test(serverName)) {
+    return true;
+  }
+  return !!entry.command && getServerCommandLine(server).includes(entry.command.toLowerCase());
+}
+
+/**
+ * Finds the catalog entry for a server: an entry with its exact name first,
+ * then the first entry whose pattern or command matches
+ */
+export function findCatalogEntry(serverName: string, server: MCPServer): ResolvedCatalogEntry | null {
+  const paths = `${getCatalogPath('user')}\n${getCatalogPath('project')}`;
+  if (loaded?.paths !== paths) {
+    loaded = { paths, catalog: loadCatalog() };
+  }
+  const catalog = loaded.catalog;
+  const normalizedName = serverName.toLowerCase();
+
+  return catalog.find(entry => entry.name.toLowerCase() === normalizedName)
+    || catalog.find(entry => matchesEntry(entry, serverName, server))
+    || null;
+}
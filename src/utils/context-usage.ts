@@ -0,0 +1,53 @@
+/**
+ * Real MCP tool usage of one server, as reported by Claude Code's `/context`
+ */
+export interface ServerContextUsage {
+  tokens: number;
+  tools: number;
+  /** Tokens per tool, keyed by the tool's own name */
+  toolTokens: Record<string, number>;
+}
+
+// e.g. "└ mcp__github__create_issue (github): 1.2k tokens"
+const TOOL_LINE = /mcp__(\S+?)__(\S+)\s*(?:\(([^)]+)\))?\s*:\s*([\d.,]+)\s*(k)?\s*tokens/i;
+
+/**
+ * Parses a count as printed by Claude Code ("650", "1,234", "1.2k")
+ */
+function parseTokenCount(value: string, thousands: string | undefined): number {
+  const count = Number(value.replace(/,/g, ''));
+  return Math.round(thousands ? count * 1000 : count);
+}
+
+/**
+ * Parses the per-tool lines of `/context` output into per-server totals.
+ * The server name in parentheses wins over the one in the tool prefix,
+ * since Claude Code rewrites characters such as "-" in the prefix.
+ * Lines that aren't MCP tool lines are ignored.
+ */
+export function parseContextUsage(text: string): Record<string, ServerContextUsage> {
+  const servers: Record<string, ServerContextUsage> = {};
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(TOOL_LINE);
+    if (!match) {
+      continue;
+    }
+
+    const [, prefixServer, tool, namedServer, count, thousands] = match;
+    const serverName = namedServer?.trim() || prefixServer;
+    const tokens = parseTokenCount(count, thousands);
+    if (!Number.isFinite(tokens)) {
+      continue;
+    }
+
+    const usage = servers[serverName] ||= { tokens: 0, tools: 0, toolTokens: {} };
+    if (!(tool in usage.toolTokens)) {
+      usage.tools++;
+    }
+    usage.tokens += tokens - (usage.toolTokens[tool] || 0);
+    usage.toolTokens[tool] = tokens;
+  }
+
+  return servers;
+}
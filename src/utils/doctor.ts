@@ -0,0 +1,262 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { isBuiltinServer, isRemoteServer, type MCPServer } from '../adapters/base.js';
+import { checkHandshake } from './measure.js';
+import { redactServer } from './secrets.js';
+
+export type CheckStatus = 'ok' | 'fail' | 'skip';
+
+/**
+ * The outcome of one health check, with the likely fix when it failed
+ */
+export interface DoctorCheck {
+  check: 'command' | 'files' | 'env' | 'handshake';
+  status: CheckStatus;
+  message: string;
+  fix?: string;
+}
+
+export interface DoctorOptions {
+  /** Directory relative paths in args are resolved against (unless the server sets `cwd`) */
+  baseDir?: string;
+  /** Time allowed for the handshake, including startup (ms) */
+  timeoutMs?: number;
+  /** Also start the server and complete the initialize handshake */
+  handshake?: boolean;
+}
+
+// Files a server is commonly started from
+const SCRIPT_EXTENSIONS = ['.js', '.mjs', '.cjs', '.ts', '.py', '.jar', '.sh', '.rb'];
+
+// Values people forget to replace after copying a config snippet
+const PLACEHOLDER_VALUE = /^(<[^>]*>|\[[^\]]*\]|your[-_ ].*|.*_here|x{3,}|changeme|change[-_]me|replace[-_ ]?me|todo|\.\.\.)$/i;
+
+// ${VAR}, ${env:VAR} and ${VAR:-default} references to the environment
+const ENV_REFERENCE = /\$\{(?:env:)?([A-Za-z_][A-Za-z0-9_]*)(?::-[^}]*)?\}/g;
+
+// What to install when a well-known launcher is missing
+const LAUNCHER_FIXES: Record<string, string> = {
+  npx: 'Install Node.js (https://nodejs.org), which provides npx',
+  node: 'Install Node.js (https://nodejs.org)',
+  uvx: 'Install uv (https://docs.astral.sh/uv), which provides uvx',
+  uv: 'Install uv (https://docs.astral.sh/uv)',
+  python: 'Install Python, or use python3 as the command',
+  python3: 'Install Python 3',
+  docker: 'Install Docker and make sure it is running',
+  bunx: 'Install Bun (https://bun.sh), which provides bunx',
+  deno: 'Install Deno (https://deno.com)'
+};
+
+function expandHome(filePath: string): string {
+  return filePath === '~' || filePath.startsWith('~/') ? path.join(os.homedir(), filePath.slice(1)) : filePath;
+}
+
+function isExecutableFile(filePath: string): boolean {
+  try {
+    if (!fs.statSync(filePath).isFile()) {
+      return false;
+    }
+    if (process.platform !== 'win32') {
+      fs.accessSync(filePath, fs.constants.X_OK);
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Finds a command the way the shell would: as a path if it has a directory
+ * part, otherwise in each PATH directory (trying PATHEXT extensions on Windows)
+ */
+export function findOnPath(command: string, envPath: string = process.env.PATH || ''): string | null {
+  const expanded = expandHome(command);
+  const extensions = process.platform === 'win32'
+    ? ['', ...(process.env.PATHEXT || '.EXE;.CMD;.BAT;.COM').split(';')]
+    : [''];
+
+  if (expanded.includes('/') || expanded.includes(path.sep)) {
+    return extensions.map(ext => expanded + ext).find(isExecutableFile) || null;
+  }
+
+  for (const dir of envPath.split(path.delimiter).filter(Boolean)) {
+    const match = extensions.map(ext => path.join(dir, command + ext)).find(isExecutableFile);
+    if (match) {
+      return match;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether an argument points at something on the local disk
+ * (rather than a flag, URL or package name)
+ */
+function isLocalPathArg(arg: string): boolean {
+  if (arg.startsWith('-') || /^[a-z][a-z0-9+.-]*:/i.test(arg)) {
+    return false;
+  }
+  if (path.isAbsolute(arg) || /^(~|\.{1,2})(\/|\\|$)/.test(arg)) {
+    return true;
+  }
+  return !arg.startsWith('@') && SCRIPT_EXTENSIONS.includes(path.extname(arg).toLowerCase());
+}
+
+/**
+ * Checks that the server's command can be found
+ */
+export function checkCommand(server: MCPServer): DoctorCheck {
+  if (isRemoteServer(server)) {
+    // Credentials in the URL are not printed
+    const { url } = redactServer(server);
+    try {
+      new URL(server.url);
+      return { check: 'command', status: 'ok', message: `Remote server at ${url}` };
+    } catch {
+      return { check: 'command', status: 'fail', message: `Invalid URL: ${url}`, fix: 'Fix the server URL' };
+    }
+  }
+
+  if (!server.command) {
+    return { check: 'command', status: 'fail', message: 'No command or URL configured', fix: 'Add a command (or url) to the server' };
+  }
+
+  const resolved = findOnPath(server.command, server.env?.PATH ?? process.env.PATH);
+  if (resolved) {
+    return { check: 'command', status: 'ok', message: resolved };
+  }
+
+  const launcher = path.basename(server.command).replace(/\.(exe|cmd|bat)$/i, '');
+  return {
+    check: 'command',
+    status: 'fail',
+    message: `"${server.command}" not found on PATH`,
+    fix: LAUNCHER_FIXES[launcher] || `Install ${launcher} or use the full path to it as the command`
+  };
+}
+
+/**
+ * Checks that local scripts and paths given in the args exist
+ */
+export function checkScriptFiles(server: MCPServer, baseDir: string = process.cwd()): DoctorCheck {
+  const args: unknown[] = isRemoteServer(server) ? [] : server.args || [];
+  const dir = typeof server.cwd === 'string' ? path.resolve(baseDir, expandHome(server.cwd)) : baseDir;
+  const localPaths = args.filter((arg): arg is string => typeof arg === 'string' && isLocalPathArg(arg));
+  const missing = localPaths.filter(arg => !fs.existsSync(path.resolve(dir, expandHome(arg))));
+
+  if (missing.length > 0) {
+    return {
+      check: 'files',
+      status: 'fail',
+      message: `Not found: ${missing.join(', ')}`,
+      fix: `Fix the path (relative paths start from ${dir}) or build the server`
+    };
+  }
+
+  return {
+    check: 'files',
+    status: 'ok',
+    message: localPaths.length > 0 ? `${localPaths.length} local path${localPaths.length === 1 ? '' : 's'} found` : 'No local files referenced'
+  };
+}
+
+/**
+ * Checks env values (and header values of remote servers) for blanks,
+ * leftover placeholders and references to unset environment variables
+ */
+export function checkEnv(server: MCPServer, environment: NodeJS.ProcessEnv = process.env): DoctorCheck {
+  const values: Record<string, unknown> = isRemoteServer(server) ? { ...server.headers } : { ...server.env };
+  const problems: string[] = [];
+  const unset = new Set<string>();
+
+  for (const [key, value] of Object.entries(values)) {
+    if (typeof value !== 'string') {
+      continue;
+    }
+    if (!value.trim()) {
+      problems.push(`${key} is empty`);
+      continue;
+    }
+    if (PLACEHOLDER_VALUE.test(value.replace(/^Bearer\s+/i, '').trim())) {
+      problems.push(`${key} is a placeholder (${value})`);
+      continue;
+    }
+    for (const match of value.matchAll(ENV_REFERENCE)) {
+      const name = match[1];
+      if (!environment[name] && !match[0].includes(':-')) {
+        unset.add(name);
+        problems.push(`${key} uses $${name}, which is not set`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    const fix = unset.size > 0
+      ? `Set ${[...unset].join(', ')} in your environment before starting the tool, or put the value in the config`
+      : 'Fill in the real value in the server config';
+    return { check: 'env', status: 'fail', message: problems.join('; '), fix };
+  }
+
+  const count = Object.keys(values).length;
+  return { check: 'env', status: 'ok', message: count > 0 ? `${count} value${count === 1 ? '' : 's'} set` : 'No env vars required' };
+}
+
+/**
+ * Suggests a fix from a failed handshake's error
+ */
+function handshakeFix(message: string, timeoutMs: number): string {
+  if (message.startsWith('Timed out')) {
+    return `Run the command in a terminal: it may be downloading, waiting for input or slower than ${timeoutMs / 1000}s (try --timeout)`;
+  }
+  if (/ENOENT/.test(message)) {
+    return 'The command could not be started; check it and its working directory';
+  }
+  if (/ECONNREFUSED|fetch failed|ENOTFOUND/i.test(message)) {
+    return 'Check the URL and that the server is running and reachable';
+  }
+  if (/\b(401|403)\b|unauthori[sz]ed|forbidden/i.test(message)) {
+    return 'Check the credentials in the server headers or env';
+  }
+  return 'Run the command in a terminal to see why it fails';
+}
+
+/**
+ * Runs every health check for one server. The handshake is skipped when
+ * the static checks already show it cannot start, and built-in servers
+ * (which the tool runs itself) are not checked at all.
+ */
+export async function diagnoseServer(server: MCPServer, options: DoctorOptions = {}): Promise<DoctorCheck[]> {
+  if (isBuiltinServer(server)) {
+    return [{ check: 'command', status: 'skip', message: 'Built-in server, run by the tool itself' }];
+  }
+
+  const timeoutMs = options.timeoutMs ?? 30000;
+  const checks = [checkCommand(server), checkScriptFiles(server, options.baseDir), checkEnv(server)];
+
+  if (options.handshake === false) {
+    return checks;
+  }
+
+  if (checks.some(check => check.status === 'fail')) {
+    checks.push({ check: 'handshake', status: 'skip', message: 'Skipped until the problems above are fixed' });
+    return checks;
+  }
+
+  try {
+    const result = await checkHandshake(server, { timeoutMs });
+    const identity = [result.name, result.version].filter(Boolean).join(' ') || 'server';
+    checks.push({ check: 'handshake', status: 'ok', message: `${identity} answered in ${result.durationMs}ms` });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    checks.push({
+      check: 'handshake',
+      status: 'fail',
+      message: message.split('\n').slice(0, 3).join('\n'),
+      fix: handshakeFix(message, timeoutMs)
+    });
+  }
+
+  return checks;
+}
@@ -1,5 +1,7 @@
 import chalk from 'chalk';
 import Table from 'cli-table3';
+import { describeServer, getServerTransport, isRemoteServer, type ConfigScope, type MCPServer } from '../adapters/base.js';
+import { redactServer } from './secrets.js';
 
 /**
  * Formats a success message
@@ -38,11 +40,12 @@ export function formatServerName(name: string, enabled: boolean): string {
 
 /**
  * Formats token count with color coding
+ * (thresholds scale with the context window, 10k/50k on a 200k window)
  */
-export function formatTokenCount(tokens: number): string {
-  if (tokens > 50000) {
+export function formatTokenCount(tokens: number, contextWindow: number = 200000): string {
+  if (tokens > contextWindow * 0.25) {
     return chalk.red(`~${tokens.toLocaleString()} tokens`);
-  } else if (tokens > 10000) {
+  } else if (tokens > contextWindow * 0.05) {
     return chalk.yellow(`~${tokens.toLocaleString()} tokens`);
   } else {
     return chalk.green(`~${tokens.toLocaleString()} tokens`);
@@ -60,7 +63,7 @@ export function createServerTable(): Table.Table {
       chalk.bold('Token Estimate'),
       chalk.bold('Tools')
     ],
-    colWidths: [30, 12, 18, 10],
+    colWidths: [30, 12, 22, 10],
     style: {
       head: [],
       border: []
@@ -86,6 +89,177 @@ export function createProfileTable(): Table.Table {
   });
 }
 
+/**
+ * Creates a table for catalog entries
+ */
+export function createCatalogTable(): Table.Table {
+  return new Table({
+    head: [
+      chalk.bold('Name'),
+      chalk.bold('Matches'),
+      chalk.bold('Tokens'),
+      chalk.bold('Tools'),
+      chalk.bold('Source')
+    ],
+    colWidths: [24, 36, 10, 8, 10],
+    style: {
+      head: [],
+      border: []
+    }
+  });
+}
+
+/**
+ * Creates a table comparing estimates with real token counts
+ */
+export function createCalibrationTable(): Table.Table {
+  return new Table({
+    head: [
+      chalk.bold('Server'),
+      chalk.bold('Tools'),
+      chalk.bold('Actual'),
+      chalk.bold('Estimated'),
+      chalk.bold('Off by')
+    ],
+    colWidths: [28, 8, 12, 16, 10],
+    style: {
+      head: [],
+      border: []
+    }
+  });
+}
+
+/**
+ * Creates a table for failed health checks
+ */
+export function createDoctorTable(): Table.Table {
+  return new Table({
+    head: [
+      chalk.bold('Server'),
+      chalk.bold('Check'),
+      chalk.bold('Problem'),
+      chalk.bold('Likely fix')
+    ],
+    colWidths: [20, 11, 40, 40],
+    wordWrap: true,
+    style: {
+      head: [],
+      border: []
+    }
+  });
+}
+
+/**
+ * Creates a table for secret references in server definitions
+ */
+export function createReferenceTable(): Table.Table {
+  return new Table({
+    head: [
+      chalk.bold('Server'),
+      chalk.bold('Where'),
+      chalk.bold('Reference'),
+      chalk.bold('Status')
+    ],
+    colWidths: [20, 22, 36, 36],
+    wordWrap: true,
+    style: {
+      head: [],
+      border: []
+    }
+  });
+}
+
+/**
+ * Creates a table for startup benchmarks
+ */
+export function createBenchTable(): Table.Table {
+  return new Table({
+    head: [
+      chalk.bold('Server'),
+      chalk.bold('Tokens'),
+      chalk.bold('Init median'),
+      chalk.bold('Init p95'),
+      chalk.bold('Tools median'),
+      chalk.bold('Tools p95'),
+      chalk.bold('Runs')
+    ],
+    colWidths: [24, 16, 13, 10, 14, 11, 7],
+    style: {
+      head: [],
+      border: []
+    }
+  });
+}
+
+/**
+ * Formats a duration (e.g. "850ms", "12.3s")
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${Math.round(ms)}ms`;
+  }
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Formats a context window size (e.g. "200k", "1M")
+ */
+export function formatContextWindow(contextWindow: number): string {
+  if (contextWindow >= 1000000) {
+    return `${(contextWindow / 1000000).toFixed(1).replace(/\.0$/, '')}M`;
+  }
+  return `${Math.round(contextWindow / 1000)}k`;
+}
+
+/**
+ * Formats the share of a context window that a number of tokens takes up
+ */
+export function formatContextShare(tokens: number, contextWindow: number): string {
+  const percentage = (tokens / contextWindow) * 100;
+  if (tokens > 0 && percentage < 0.1) {
+    return '<0.1%';
+  }
+  return `${percentage.toFixed(1)}%`;
+}
+
+/**
+ * Formats the servers a change enables and disables and its token impact
+ */
+export function formatChangePreview(
+  toEnable: string[],
+  toDisable: string[],
+  currentTokens: number,
+  newTokens: number
+): string {
+  const lines = [chalk.bold('\nChanges to be made:')];
+
+  if (toEnable.length > 0) {
+    lines.push(chalk.green('\nEnabling:'));
+    toEnable.forEach(name => lines.push(`  ${chalk.green('+')} ${name}`));
+  }
+
+  if (toDisable.length > 0) {
+    lines.push(chalk.gray('\nDisabling:'));
+    toDisable.forEach(name => lines.push(`  ${chalk.gray('-')} ${name}`));
+  }
+
+  const tokenDiff = newTokens - currentTokens;
+
+  lines.push(chalk.bold('\nToken Impact:'));
+  lines.push(`  Current: ${chalk.white(currentTokens.toLocaleString())} tokens`);
+  lines.push(`  New:     ${chalk.white(newTokens.toLocaleString())} tokens`);
+
+  if (tokenDiff > 0) {
+    lines.push(`  Change:  ${chalk.red(`+${tokenDiff.toLocaleString()}`)} tokens (${chalk.red('increase')})`);
+  } else if (tokenDiff < 0) {
+    lines.push(`  Change:  ${chalk.green(`${tokenDiff.toLocaleString()}`)} tokens (${chalk.green('decrease')})`);
+  } else {
+    lines.push(`  Change:  ${chalk.gray('0')} tokens (no change)`);
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Formats a header
  */
@@ -101,15 +275,66 @@ export function subheader(text: string): string {
 }
 
 /**
- * Formats a scope badge (USER SCOPE / PROJECT SCOPE)
+ * Formats a scope badge (USER SCOPE / PROJECT SCOPE / LOCAL SCOPE)
  */
-export function formatScopeBadge(scope: 'user' | 'project'): string {
+export function formatScopeBadge(scope: ConfigScope): string {
   if (scope === 'project') {
     return chalk.bgBlue.white.bold(' PROJECT SCOPE ');
   }
+  if (scope === 'local') {
+    return chalk.bgMagenta.white.bold(' LOCAL SCOPE ');
+  }
   return chalk.bgGray.white.bold(' USER SCOPE ');
 }
 
+/**
+ * Formats the config layer a server comes from (e.g. " [local]")
+ */
+export function formatSourceLayer(layer?: ConfigScope): string {
+  return layer ? chalk.dim(` [${layer}]`) : '';
+}
+
+/**
+ * Formats what a server runs (its command line) or connects to
+ * (transport and host for remote servers), e.g. " http → mcp.example.com"
+ */
+export function formatServerTarget(server?: MCPServer): string {
+  if (!server) {
+    return '';
+  }
+  // Tokens passed as args or in the URL are never printed
+  const shown = redactServer(server);
+  const target = isRemoteServer(shown)
+    ? `${getServerTransport(shown)} → ${describeServer(shown)}`
+    : describeServer(shown);
+  return target ? chalk.dim(` ${target}`) : '';
+}
+
+/**
+ * Formats a duration as a short age (e.g. "5m ago", "3d ago")
+ */
+function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) {
+    return 'just now';
+  }
+  if (minutes < 60) {
+    return `${minutes}m ago`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `${hours}h ago`;
+  }
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+/**
+ * Labels where a token count comes from: "measured (3d ago)" or "estimated"
+ */
+export function formatTokenSource(measuredAt?: string, now: number = Date.now()): string {
+  return measuredAt ? `measured (${formatAge(now - Date.parse(measuredAt))})` : 'estimated';
+}
+
 /**
  * Formats a section header for grouped display
  */
@@ -0,0 +1,98 @@
+import { countTokens, getTokenizer, type ServerDefinitions, type Tokenizer } from './tokenizer.js';
+
+/**
+ * One tool, prompt or resource a server exposes, with what it costs in context
+ */
+export interface InspectedItem {
+  name: string;
+  description?: string;
+  /** Tokens this item's injected definition takes up */
+  tokens: number;
+  /** The injected definition as the server returned it */
+  definition: Record<string, any>;
+}
+
+export interface InspectedTool extends InspectedItem {
+  /** One-line summary of the input schema, e.g. "path: string, recursive?: boolean" */
+  parameters: string;
+}
+
+export interface ServerInspection {
+  tools: InspectedTool[];
+  prompts: InspectedItem[];
+  resources: InspectedItem[];
+}
+
+// Enums longer than this are shortened in schema summaries
+const MAX_ENUM_VALUES = 4;
+
+/**
+ * Describes the type of one JSON Schema property, e.g. "string", "number[]" or "'asc'|'desc'"
+ */
+function describeSchemaType(schema: any): string {
+  if (!schema || typeof schema !== 'object') {
+    return 'any';
+  }
+
+  if (Array.isArray(schema.enum)) {
+    const values = schema.enum.slice(0, MAX_ENUM_VALUES).map((value: unknown) => JSON.stringify(value).replace(/"/g, "'"));
+    return values.join('|') + (schema.enum.length > MAX_ENUM_VALUES ? '|…' : '');
+  }
+
+  const variants = schema.anyOf || schema.oneOf;
+  if (Array.isArray(variants)) {
+    return [...new Set(variants.map(describeSchemaType))].join('|');
+  }
+
+  const types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  if (types.length === 0) {
+    return schema.properties ? 'object' : 'any';
+  }
+
+  return types
+    .map(type => type === 'array' ? `${describeSchemaType(schema.items).replace(/^(.*\|.*)$/, '($1)')}[]` : type)
+    .join('|');
+}
+
+/**
+ * Summarizes a tool's input schema on one line; optional parameters are marked with "?"
+ */
+export function summarizeInputSchema(schema: any): string {
+  const properties = schema && typeof schema === 'object' ? schema.properties || {} : {};
+  const required = new Set<string>(Array.isArray(schema?.required) ? schema.required : []);
+  const names = Object.keys(properties);
+
+  if (names.length === 0) {
+    return '(no parameters)';
+  }
+
+  return names
+    .map(name => `${name}${required.has(name) ? '' : '?'}: ${describeSchemaType(properties[name])}`)
+    .join(', ');
+}
+
+function inspectItem(definition: any, tokenizer: Tokenizer): InspectedItem {
+  return {
+    name: String(definition?.name ?? ''),
+    description: typeof definition?.description === 'string' ? definition.description : undefined,
+    tokens: countTokens(JSON.stringify(definition), tokenizer),
+    definition
+  };
+}
+
+/**
+ * Breaks a server's definitions down into per-item token costs
+ */
+export function inspectDefinitions(
+  definitions: ServerDefinitions,
+  tokenizer: Tokenizer = getTokenizer()
+): ServerInspection {
+  return {
+    tools: definitions.tools.map((tool: any) => ({
+      ...inspectItem(tool, tokenizer),
+      parameters: summarizeInputSchema(tool?.input_schema)
+    })),
+    prompts: definitions.prompts.map(prompt => inspectItem(prompt, tokenizer)),
+    resources: definitions.resources.map(resource => inspectItem(resource, tokenizer))
+  };
+}
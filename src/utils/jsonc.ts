@@ -0,0 +1,53 @@
+import { parse, modify, applyEdits, printParseErrorCode, type ParseError } from 'jsonc-parser';
+
+// Editors write their settings with 2-space indentation
+const FORMATTING_OPTIONS = { tabSize: 2, insertSpaces: true, eol: '\n' };
+
+/**
+ * Parses JSON-with-comments (as used by VS Code and Zed settings files)
+ */
+export function parseJsonc<T = any>(raw: string): T {
+  const errors: ParseError[] = [];
+  const value = parse(raw, errors, { allowTrailingComma: true });
+  if (errors.length > 0) {
+    throw new Error(`${printParseErrorCode(errors[0].error)} at offset ${errors[0].offset}`);
+  }
+  return value ?? {};
+}
+
+/**
+ * Rewrites the object at `key` inside a JSONC document so it matches `updated`.
+ * Only entries that were added, changed or removed are touched, so comments and
+ * formatting around untouched entries (and the rest of the file) are preserved.
+ */
+export function updateJsoncMap(raw: string, key: string, updated: Record<string, any>): string {
+  const existing: Record<string, any> = parseJsonc(raw)[key] || {};
+  let result = raw;
+
+  // Remove entries that are gone
+  for (const name of Object.keys(existing)) {
+    if (!(name in updated)) {
+      result = applyEdits(result, modify(result, [key, name], undefined, { formattingOptions: FORMATTING_OPTIONS }));
+    }
+  }
+
+  // Add or rewrite changed entries
+  for (const [name, value] of Object.entries(updated)) {
+    if (JSON.stringify(existing[name]) !== JSON.stringify(value)) {
+      result = applyEdits(result, modify(result, [key, name], value, { formattingOptions: FORMATTING_OPTIONS }));
+    }
+  }
+
+  if (!(key in parseJsonc(result))) {
+    result = applyEdits(result, modify(result, [key], {}, { formattingOptions: FORMATTING_OPTIONS }));
+  }
+
+  return result;
+}
+
+/**
+ * Sets (or removes, when value is undefined) a top-level key in a JSONC document
+ */
+export function setJsoncValue(raw: string, key: string, value: unknown): string {
+  return applyEdits(raw, modify(raw, [key], value, { formattingOptions: FORMATTING_OPTIONS }));
+}
@@ -0,0 +1,221 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { getServerTransport, isBuiltinServer, isRemoteServer, type MCPServer } from '../adapters/base.js';
+import { countDefinitionTokens, getTokenizer, type Tokenizer } from './tokenizer.js';
+import type { ServerMeasurement } from './measurement-cache.js';
+
+export interface MeasureOptions {
+  /** Time allowed for the whole probe, including server startup (ms) */
+  timeoutMs?: number;
+  /** Tokenizer to count with (default: the current default tokenizer) */
+  tokenizer?: Tokenizer;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Identifies the manager to servers during the initialize handshake
+const CLIENT_INFO = { name: 'house-mcp-manager', version: '1.0.0' };
+
+/**
+ * Creates the transport for a server: a child process for stdio servers,
+ * an HTTP connection for remote ones
+ */
+function createTransport(server: MCPServer, stderrLines: string[]): Transport {
+  if (isRemoteServer(server)) {
+    const requestInit = server.headers ? { headers: server.headers } : undefined;
+    return getServerTransport(server) === 'sse'
+      ? new SSEClientTransport(new URL(server.url), { requestInit })
+      : new StreamableHTTPClientTransport(new URL(server.url), { requestInit });
+  }
+
+  if (isBuiltinServer(server)) {
+    throw new Error('Built-in server: it runs inside its tool and cannot be started on its own');
+  }
+
+  if (!server.command) {
+    throw new Error('Server has no command or URL to connect to');
+  }
+
+  // Launch the server the way the tools do: with the user's environment plus its own
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries({ ...process.env, ...server.env })) {
+    if (typeof value === 'string') {
+      env[key] = value;
+    }
+  }
+
+  const transport = new StdioClientTransport({
+    command: server.command,
+    args: server.args || [],
+    env,
+    cwd: typeof server.cwd === 'string' ? server.cwd : undefined,
+    stderr: 'pipe'
+  });
+
+  // Keep the tail of the server's stderr to explain failures
+  transport.stderr?.on('data', (chunk: Buffer) => {
+    stderrLines.push(...chunk.toString('utf-8').split('\n').filter(line => line.trim()));
+    stderrLines.splice(0, Math.max(0, stderrLines.length - 5));
+  });
+
+  return transport;
+}
+
+/**
+ * Follows `nextCursor` until a list request has returned every page
+ */
+async function listAll<T>(
+  fetchPage: (cursor?: string) => Promise<{ nextCursor?: string } & Record<string, unknown>>,
+  key: string
+): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await fetchPage(cursor);
+    items.push(...((page[key] as T[] | undefined) || []));
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return items;
+}
+
+/**
+ * Starts (or connects to) a server, completes the MCP initialize handshake and
+ * runs `fn` against it within the timeout. The server is always shut down
+ * again, also when connecting or `fn` fails; failures carry the tail of its stderr.
+ */
+async function withClient<T>(
+  server: MCPServer,
+  timeoutMs: number,
+  fn: (client: Client) => Promise<T>
+): Promise<T> {
+  const stderrLines: string[] = [];
+  const client = new Client(CLIENT_INFO);
+  let timer: NodeJS.Timeout | undefined;
+
+  const run = async (): Promise<T> => {
+    await client.connect(createTransport(server, stderrLines), { timeout: timeoutMs });
+    return fn(client);
+  };
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs / 1000}s`)), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([run(), timeout]);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const details = stderrLines.length > 0 ? `\n${stderrLines.join('\n')}` : '';
+    throw new Error(`${message}${details}`);
+  } finally {
+    clearTimeout(timer);
+    await client.close().catch(() => undefined);
+  }
+}
+
+/**
+ * What a server reported about itself during the initialize handshake
+ */
+export interface HandshakeResult {
+  name?: string;
+  version?: string;
+  /** Time from starting the server to a completed handshake (ms) */
+  durationMs: number;
+}
+
+/**
+ * Starts (or connects to) a server and completes the MCP initialize handshake, nothing more
+ */
+export async function checkHandshake(server: MCPServer, options: MeasureOptions = {}): Promise<HandshakeResult> {
+  const started = Date.now();
+  return withClient(server, options.timeoutMs ?? DEFAULT_TIMEOUT_MS, async client => {
+    const info = client.getServerVersion();
+    return { name: info?.name, version: info?.version, durationMs: Date.now() - started };
+  });
+}
+
+/**
+ * How long a server took to become usable, measured from launch (ms)
+ */
+export interface StartupTiming {
+  /** Until the initialize handshake completed */
+  initializeMs: number;
+  /** Until the first page of `tools/list` came back */
+  toolsListMs: number;
+}
+
+/**
+ * Starts (or connects to) a server and times the initialize handshake and
+ * the first `tools/list` request
+ */
+export async function timeServerStartup(server: MCPServer, options: MeasureOptions = {}): Promise<StartupTiming> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const started = performance.now();
+
+  return withClient(server, timeoutMs, async client => {
+    const initializeMs = performance.now() - started;
+    if (client.getServerCapabilities()?.tools) {
+      await client.listTools({}, { timeout: timeoutMs });
+    }
+    return { initializeMs, toolsListMs: performance.now() - started };
+  });
+}
+
+/**
+ * Starts (or connects to) a server, completes the MCP initialize handshake and
+ * counts the tokens its tools, prompts and resources take up.
+ */
+export async function measureServer(server: MCPServer, options: MeasureOptions = {}): Promise<ServerMeasurement> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const tokenizer = options.tokenizer ?? getTokenizer();
+
+  return withClient(server, timeoutMs, async client => {
+    const capabilities = client.getServerCapabilities() || {};
+    const requestOptions = { timeout: timeoutMs };
+
+    const tools = capabilities.tools
+      ? await listAll<any>(cursor => client.listTools({ cursor }, requestOptions), 'tools')
+      : [];
+    const prompts = capabilities.prompts
+      ? await listAll<any>(cursor => client.listPrompts({ cursor }, requestOptions), 'prompts')
+      : [];
+    const resources = capabilities.resources
+      ? await listAll<any>(cursor => client.listResources({ cursor }, requestOptions), 'resources')
+      : [];
+
+    // Keep exactly what the client puts in front of the model for each item
+    const definitions = {
+      tools: tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.inputSchema
+      })),
+      prompts: prompts.map(prompt => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments
+      })),
+      resources: resources.map(resource => ({
+        name: resource.name,
+        uri: resource.uri,
+        description: resource.description,
+        mimeType: resource.mimeType
+      }))
+    };
+
+    return {
+      tools: tools.length,
+      prompts: prompts.length,
+      resources: resources.length,
+      ...countDefinitionTokens(definitions, tokenizer),
+      tokenizer: tokenizer.id,
+      definitions,
+      measuredAt: new Date().toISOString()
+    };
+  });
+}
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+import { isRemoteServer, type MCPServer } from '../adapters/base.js';
+import type { ServerDefinitions } from './tokenizer.js';
+
+function getCachePath(): string {
+  return path.join(os.homedir(), '.claude-mcp-cache', 'measurements.json');
+}
+
+/**
+ * What a server actually exposes, as reported by a live `tools/list`,
+ * `prompts/list` and `resources/list` probe
+ */
+export interface ServerMeasurement {
+  tools: number;
+  prompts: number;
+  resources: number;
+  /** Tokens taken up by the tool definitions the client injects */
+  toolTokens: number;
+  promptTokens: number;
+  resourceTokens: number;
+  /** Total of the three token counts above */
+  tokens: number;
+  /** Tokenizer the counts were made with */
+  tokenizer?: string;
+  /** The injected JSON itself, so it can be recounted with another tokenizer */
+  definitions?: ServerDefinitions;
+  /** ISO timestamp of the probe */
+  measuredAt: string;
+}
+
+// Entries are read once per process; writes go through to disk
+let loaded: { path: string; entries: Record<string, ServerMeasurement> } | null = null;
+
+function sortKeys(record: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Hashes what decides which tools a server exposes: its command, args and env
+ * (or URL and headers for remote servers). The server's name is not part of it,
+ * so the same server configured in several tools shares one entry.
+ */
+export function getServerHash(server: MCPServer): string {
+  const definition = isRemoteServer(server)
+    ? { url: server.url, headers: sortKeys(server.headers) }
+    : { command: server.command, args: server.args || [], env: sortKeys(server.env) };
+
+  return crypto.createHash('sha256').update(JSON.stringify(definition)).digest('hex');
+}
+
+function loadEntries(): Record<string, ServerMeasurement> {
+  const cachePath = getCachePath();
+  if (loaded?.path === cachePath) {
+    return loaded.entries;
+  }
+
+  let entries: Record<string, ServerMeasurement> = {};
+  if (fs.existsSync(cachePath)) {
+    try {
+      entries = JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
+    } catch {
+      // A corrupt cache is treated as empty and rewritten on the next save
+    }
+  }
+
+  loaded = { path: cachePath, entries };
+  return entries;
+}
+
+/**
+ * Gets the last measurement for a server definition, if it was ever measured
+ */
+export function getCachedMeasurement(server: MCPServer): ServerMeasurement | null {
+  return loadEntries()[getServerHash(server)] || null;
+}
+
+/**
+ * Stores a measurement, replacing any earlier one for the same definition
+ */
+export function cacheMeasurement(server: MCPServer, measurement: ServerMeasurement): void {
+  const cachePath = getCachePath();
+  const entries = { ...loadEntries(), [getServerHash(server)]: measurement };
+
+  fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+  fs.writeFileSync(cachePath, JSON.stringify(entries, null, 2), 'utf-8');
+  loaded = { path: cachePath, entries };
+}
+
+/**
+ * Drops the in-memory copy so the next lookup reads the cache file again
+ */
+export function resetMeasurementCache(): void {
+  loaded = null;
+}
@@ -0,0 +1,77 @@
+import type { MCPAdapter } from '../adapters/base.js';
+import { parseTokenAmount } from './tokens.js';
+
+/**
+ * A model the servers' tool definitions are loaded into
+ */
+export interface ModelProfile {
+  id: string;
+  name: string;
+  /** Context window size in tokens */
+  contextWindow: number;
+}
+
+const MODEL_PROFILES: ModelProfile[] = [
+  { id: 'claude-sonnet', name: 'Claude Sonnet', contextWindow: 200000 },
+  { id: 'claude-sonnet-1m', name: 'Claude Sonnet (1M context)', contextWindow: 1000000 },
+  { id: 'claude-opus', name: 'Claude Opus', contextWindow: 200000 },
+  { id: 'claude-opus-1m', name: 'Claude Opus (1M context)', contextWindow: 1000000 },
+  { id: 'claude-haiku', name: 'Claude Haiku', contextWindow: 200000 },
+  { id: 'gpt-5', name: 'GPT-5', contextWindow: 400000 },
+  { id: 'gpt-4.1', name: 'GPT-4.1', contextWindow: 1047576 },
+  { id: 'gpt-4o', name: 'GPT-4o', contextWindow: 128000 },
+  { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', contextWindow: 1048576 },
+  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', contextWindow: 1048576 }
+];
+
+/**
+ * Share of the context window at which MCP usage is worth a warning
+ * (the old fixed 50k/100k thresholds on a 200k window)
+ */
+const MODERATE_USAGE_SHARE = 0.25;
+const HIGH_USAGE_SHARE = 0.5;
+
+/**
+ * Lists the built-in model profiles
+ */
+export function listModelProfiles(): ModelProfile[] {
+  return [...MODEL_PROFILES];
+}
+
+/**
+ * Gets a model profile by id. A bare size such as "500k" or "1m"
+ * gives an unnamed profile with that context window.
+ */
+export function getModelProfile(id: string): ModelProfile {
+  const profile = MODEL_PROFILES.find(p => p.id === id.toLowerCase());
+  if (profile) {
+    return profile;
+  }
+
+  const contextWindow = parseTokenAmount(id);
+  if (contextWindow) {
+    return { id, name: 'Custom model', contextWindow };
+  }
+
+  throw new Error(
+    `Unknown model: ${id}. Available models: ${MODEL_PROFILES.map(p => p.id).join(', ')} ` +
+    `(or a context window size such as 500k)`
+  );
+}
+
+/**
+ * Picks the model profile: the one asked for with --model, otherwise the adapter's default
+ */
+export function resolveModelProfile(adapter: MCPAdapter, modelFlag?: string): ModelProfile {
+  return getModelProfile(modelFlag || adapter.defaultModel);
+}
+
+/**
+ * Token totals above which MCP usage is moderate or high for a model
+ */
+export function getUsageThresholds(profile: ModelProfile): { moderate: number; high: number } {
+  return {
+    moderate: Math.round(profile.contextWindow * MODERATE_USAGE_SHARE),
+    high: Math.round(profile.contextWindow * HIGH_USAGE_SHARE)
+  };
+}
@@ -0,0 +1,202 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execSync } from 'child_process';
+import type { MCPConfig, MCPServer } from '../adapters/base.js';
+
+/**
+ * Where a reference takes its value from
+ */
+export type ReferenceKind = 'env' | 'file' | 'cmd';
+
+export const REFERENCE_KINDS: ReferenceKind[] = ['env', 'file', 'cmd'];
+
+/**
+ * A reference inside a server definition and whether it can be resolved now
+ */
+export interface ServerReference {
+  /** Where in the server it appears, e.g. "env.GITHUB_TOKEN" or "args[2]" */
+  location: string;
+  kind: ReferenceKind;
+  /** Variable name, file path or command */
+  target: string;
+  resolved: boolean;
+  error?: string;
+}
+
+export interface ResolveReferenceOptions {
+  /** Run ${cmd:} helpers; without this they fail instead of running */
+  allowCommands?: boolean;
+}
+
+// ${env:VAR}, ${file:~/path} and ${cmd:some command}
+const REFERENCE = /\$\{(env|file|cmd):([^}]+)\}/g;
+
+// Longest a ${cmd:...} helper (e.g. a password manager CLI) may run
+const COMMAND_TIMEOUT_MS = 15000;
+
+/**
+ * Gets the value one reference stands for. Files and command output lose
+ * their trailing newline. Commands only run when allowed.
+ */
+function resolveReference(kind: ReferenceKind, target: string, options: ResolveReferenceOptions): string {
+  if (kind === 'env') {
+    const value = process.env[target];
+    if (value === undefined) {
+      throw new Error(`$${target} is not set`);
+    }
+    return value;
+  }
+
+  if (kind === 'file') {
+    const filePath = target.startsWith('~/') ? path.join(os.homedir(), target.slice(2)) : target;
+    try {
+      return fs.readFileSync(filePath, 'utf-8').replace(/\r?\n$/, '');
+    } catch (err) {
+      throw new Error(`cannot read ${target}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  if (!options.allowCommands) {
+    throw new Error(`"${target}" was not run; commands only run with --allow-cmd`);
+  }
+
+  try {
+    return execSync(target, {
+      encoding: 'utf-8',
+      timeout: COMMAND_TIMEOUT_MS,
+      stdio: ['ignore', 'pipe', 'pipe']
+    }).replace(/\r?\n$/, '');
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(`"${target}" failed${stderr ? `: ${stderr.split('\n')[0]}` : ''}`);
+  }
+}
+
+/**
+ * Calls `visit` for every string in a server definition, with its location,
+ * and builds a copy with the strings it returns
+ */
+function mapStrings(value: unknown, location: string, visit: (text: string, location: string) => string): unknown {
+  if (typeof value === 'string') {
+    return visit(value, location);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => mapStrings(item, `${location}[${index}]`, visit));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, mapStrings(item, location ? `${location}.${key}` : key, visit)]
+    ));
+  }
+  return value;
+}
+
+/**
+ * Whether a server definition contains a reference of one of the given kinds
+ */
+export function hasReferences(server: MCPServer, kinds: ReferenceKind[] = REFERENCE_KINDS): boolean {
+  return kinds.length > 0 && new RegExp(`\\$\\{(${kinds.join('|')}):[^}]+\\}`).test(JSON.stringify(server));
+}
+
+/**
+ * Lists the references in a server definition, resolving each one to see
+ * whether it works (this runs ${cmd:} helpers if they are allowed)
+ */
+export function checkServerReferences(
+  server: MCPServer,
+  kinds: ReferenceKind[] = REFERENCE_KINDS,
+  options: ResolveReferenceOptions = {}
+): ServerReference[] {
+  const references: ServerReference[] = [];
+
+  mapStrings(server, '', (text, location) => {
+    for (const match of text.matchAll(REFERENCE)) {
+      const kind = match[1] as ReferenceKind;
+      if (!kinds.includes(kind)) {
+        continue;
+      }
+      try {
+        resolveReference(kind, match[2], options);
+        references.push({ location, kind, target: match[2], resolved: true });
+      } catch (err) {
+        references.push({ location, kind, target: match[2], resolved: false, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+    return text;
+  });
+
+  return references;
+}
+
+/**
+ * Copy of a server definition with its references replaced by their values.
+ * Throws if any of them cannot be resolved.
+ */
+export function resolveServerReferences(
+  server: MCPServer,
+  kinds: ReferenceKind[] = REFERENCE_KINDS,
+  options: ResolveReferenceOptions = {}
+): MCPServer {
+  // Servers without references are passed through untouched
+  if (!hasReferences(server, kinds)) {
+    return server;
+  }
+
+  const failures: string[] = [];
+
+  const resolved = mapStrings(server, '', (text, location) =>
+    text.replace(REFERENCE, (reference, kind: ReferenceKind, target: string) => {
+      if (!kinds.includes(kind)) {
+        return reference;
+      }
+      try {
+        return resolveReference(kind, target, options);
+      } catch (err) {
+        failures.push(`${location}: ${err instanceof Error ? err.message : String(err)}`);
+        return reference;
+      }
+    })
+  ) as MCPServer;
+
+  if (failures.length > 0) {
+    throw new Error(failures.join('; '));
+  }
+
+  return resolved;
+}
+
+/**
+ * Copy of a config whose enabled and disabled servers have their references
+ * resolved. Nothing is resolved unless every reference can be.
+ */
+export function resolveConfigReferences(
+  config: MCPConfig,
+  kinds: ReferenceKind[] = REFERENCE_KINDS,
+  options: ResolveReferenceOptions = {}
+): MCPConfig {
+  const servers = { ...config.enabled, ...config.disabled };
+  if (!Object.values(servers).some(server => hasReferences(server, kinds))) {
+    return config;
+  }
+
+  const failures: string[] = [];
+  const resolveAll = (entries: Record<string, MCPServer> = {}): Record<string, MCPServer> =>
+    Object.fromEntries(Object.entries(entries).map(([name, server]) => {
+      try {
+        return [name, resolveServerReferences(server, kinds, options)];
+      } catch (err) {
+        failures.push(`${name} (${err instanceof Error ? err.message : String(err)})`);
+        return [name, server];
+      }
+    }));
+
+  const enabled = resolveAll(config.enabled);
+  const disabled = resolveAll(config.disabled);
+
+  if (failures.length > 0) {
+    throw new Error(`Could not resolve references in ${failures.join(', ')}`);
+  }
+
+  return { ...config, enabled, disabled };
+}
@@ -1,11 +1,12 @@
 import path from 'path';
 import fs from 'fs';
 import os from 'os';
+import type { ConfigScope, MCPAdapter } from '../adapters/base.js';
 
-export type Scope = 'user' | 'project' | 'auto';
+export type Scope = ConfigScope | 'auto';
 
 export interface ScopeInfo {
-  scope: 'user' | 'project';
+  scope: ConfigScope;
   projectPath?: string;
   isAutoDetected: boolean;
 }
@@ -60,10 +61,13 @@ export function detectProjectRoot(startPath: string = process.cwd()): string | n
 
 /**
  * Resolves scope information from flags and auto-detection
+ * When an adapter is given, auto-detection uses its own project config lookup
+ * (and never picks project scope for adapters that don't support it).
  */
 export function resolveScopeInfo(
   scopeFlag?: string,
-  projectPathFlag?: string
+  projectPathFlag?: string,
+  adapter?: MCPAdapter
 ): ScopeInfo {
   const scope: Scope = (scopeFlag as Scope) || 'auto';
   const explicitProjectPath = projectPathFlag;
@@ -76,8 +80,8 @@ export function resolveScopeInfo(
     };
   }
 
-  // Handle explicit project scope
-  if (scope === 'project') {
+  // Handle explicit project (or local project) scope
+  if (scope === 'project' || scope === 'local') {
     const projectPath = explicitProjectPath || getCurrentProjectPath();
     
     // Validate project path exists
@@ -89,7 +93,7 @@ export function resolveScopeInfo(
     }
 
     return {
-      scope: 'project',
+      scope,
       projectPath,
       isAutoDetected: false
     };
@@ -97,7 +101,15 @@ export function resolveScopeInfo(
 
   // Auto-detect: look for project config
   if (scope === 'auto') {
-    const detectedProjectRoot = detectProjectRoot(explicitProjectPath || process.cwd());
+    const startPath = explicitProjectPath || process.cwd();
+    let detectedProjectRoot: string | null = null;
+    if (!adapter) {
+      detectedProjectRoot = detectProjectRoot(startPath);
+    } else if (adapter.supportsProjectScope()) {
+      detectedProjectRoot = adapter.detectProjectRoot
+        ? adapter.detectProjectRoot(startPath)
+        : detectProjectRoot(startPath);
+    }
     
     if (detectedProjectRoot) {
       return {
@@ -107,6 +119,16 @@ export function resolveScopeInfo(
       };
     }
 
+    // No shared project config; fall back to private per-project settings
+    const localProjectRoot = adapter?.supportsLocalScope() ? detectProjectRoot(startPath) : null;
+    if (localProjectRoot) {
+      return {
+        scope: 'local',
+        projectPath: localProjectRoot,
+        isAutoDetected: true
+      };
+    }
+
     // No project config found, use user scope
     return {
       scope: 'user',
@@ -114,7 +136,7 @@ export function resolveScopeInfo(
     };
   }
 
-  throw new Error(`Invalid scope: ${scope}. Must be 'user', 'project', or 'auto'.`);
+  throw new Error(`Invalid scope: ${scope}. Must be 'user', 'project', 'local', or 'auto'.`);
 }
 
 /**
@@ -133,3 +155,21 @@ export function normalizeProjectPath(projectPath: string): string {
   return resolved;
 }
 
+/**
+ * Walks up from startPath looking for a project-level config file
+ * (e.g. ".vscode/mcp.json") and returns the directory that contains it
+ */
+export function findProjectFile(startPath: string, relativeFile: string): string | null {
+  let currentPath = path.resolve(startPath);
+  const root = path.parse(currentPath).root;
+
+  while (true) {
+    if (fs.existsSync(path.join(currentPath, relativeFile))) {
+      return currentPath;
+    }
+    if (currentPath === root) {
+      return null;
+    }
+    currentPath = path.dirname(currentPath);
+  }
+}
@@ -0,0 +1,308 @@
+import { isRemoteServer, type MCPServer } from '../adapters/base.js';
+
+/**
+ * Where in a server definition a secret was found
+ */
+export type SecretLocation = 'env' | 'headers' | 'args' | 'url';
+
+export interface SecretFinding {
+  location: SecretLocation;
+  /** Env var or header name, the flag before the value, the arg position or the URL part */
+  key: string;
+  /** Whether the key's name or the value itself gave it away */
+  reason: 'name' | 'value';
+}
+
+/** What secrets are replaced with in output */
+export const REDACTED = '****';
+
+// Words in a key name that mark its value as a secret
+const SECRET_WORDS = new Set([
+  'token', 'tokens', 'secret', 'secrets', 'password', 'passwd', 'pwd', 'passphrase', 'key', 'apikey',
+  'auth', 'authorization', 'credential', 'credentials', 'cookie', 'pat', 'dsn', 'bearer'
+]);
+
+// Words at the end of a key name that mean it holds something about a secret, not the secret
+const NON_SECRET_SUFFIXES = new Set([
+  'type', 'mode', 'method', 'url', 'uri', 'endpoint', 'host', 'path', 'file', 'dir', 'header', 'name',
+  'user', 'username', 'id', 'enabled', 'expiry', 'ttl', 'provider', 'scope', 'scopes', 'env', 'var'
+]);
+
+// Prefixes of well-known credential formats
+const KNOWN_SECRET_PREFIX = /^(sk-|sk_(live|test)_|rk_(live|test)_|ghp_|gho_|ghu_|ghs_|ghr_|github_pat_|glpat-|xox[abposr]-|AKIA[0-9A-Z]{12}|AIza|ya29\.|hf_|npm_|pypi-|shpat_|SG\.|eyJ[\w-]+\.eyJ)/;
+
+// Random-looking values: long, no spaces, letters and digits, high entropy
+const MIN_ENTROPY_LENGTH = 20;
+const MIN_ENTROPY_BITS = 3.5;
+
+// Auth schemes kept in front of a redacted or referenced header value
+const AUTH_SCHEME = /^(Bearer|Basic|Token)\s+/i;
+
+// ${VAR}, ${env:VAR}, ${file:path} and ${cmd:command}
+const REFERENCE = /^\$\{(?:[A-Za-z_][A-Za-z0-9_]*|(?:env|file|cmd):[^}]+)\}$/;
+
+/**
+ * Whether a value is a reference to where the secret is kept rather than the secret itself
+ */
+export function isReference(value: string): boolean {
+  return REFERENCE.test(value.replace(AUTH_SCHEME, '').trim());
+}
+
+function keyWords(key: string): string[] {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Whether a key name (env var, header, flag) says its value is a secret
+ */
+export function isSecretKey(key: string): boolean {
+  const words = keyWords(key);
+  if (words.length === 0 || NON_SECRET_SUFFIXES.has(words[words.length - 1])) {
+    return false;
+  }
+  return words.some(word => SECRET_WORDS.has(word)) || /apikey|accesskey|privatekey|secretkey/.test(words.join(''));
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  let entropy = 0;
+  counts.forEach(count => {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  });
+  return entropy;
+}
+
+function isPathOrUrl(value: string): boolean {
+  return /^(\/|\.{1,2}\/|~\/|[A-Za-z]:\\|[a-z][a-z0-9+.-]*:\/\/)/i.test(value);
+}
+
+/**
+ * Whether a value looks like a credential by itself: a well-known token
+ * format, or a long random-looking string
+ */
+export function looksLikeSecretValue(value: string): boolean {
+  const candidate = value.replace(AUTH_SCHEME, '').trim();
+  if (KNOWN_SECRET_PREFIX.test(candidate)) {
+    return true;
+  }
+  // Names like "mcp-server-kubernetes-2024" are words and numbers, not random
+  const hasMixedSegment = candidate.split(/[-_./]/).some(segment => /[A-Za-z]/.test(segment) && /[0-9]/.test(segment));
+  return candidate.length >= MIN_ENTROPY_LENGTH &&
+    /^[A-Za-z0-9+/=_.-]+$/.test(candidate) &&
+    hasMixedSegment &&
+    !isPathOrUrl(candidate) &&
+    shannonEntropy(candidate) >= MIN_ENTROPY_BITS;
+}
+
+/**
+ * Decides whether a key/value pair holds a secret, and why
+ */
+function classify(key: string, value: unknown): SecretFinding['reason'] | null {
+  if (typeof value !== 'string' || !value.trim() || isReference(value)) {
+    return null;
+  }
+  if (looksLikeSecretValue(value)) {
+    return 'value';
+  }
+  const plain = value.trim();
+  const isSetting = /^(true|false|yes|no|on|off|\d+(\.\d+)?)$/i.test(plain) || isPathOrUrl(plain) || plain.length < 4;
+  return isSecretKey(key) && !isSetting ? 'name' : null;
+}
+
+/**
+ * Finds secret arguments: values of secret-named flags (--token abc,
+ * --api-key=abc, KEY=abc) and values that look like credentials by themselves
+ */
+function findSecretArgs(args: unknown[]): Array<SecretFinding & { index: number; prefix: string }> {
+  const findings: Array<SecretFinding & { index: number; prefix: string }> = [];
+
+  args.forEach((arg, index) => {
+    if (typeof arg !== 'string') {
+      return;
+    }
+
+    const assignment = arg.match(/^(-{0,2}[A-Za-z_][\w.-]*)=(.*)$/);
+    if (assignment) {
+      const reason = classify(assignment[1], assignment[2]);
+      if (reason) {
+        findings.push({ location: 'args', key: assignment[1], reason, index, prefix: `${assignment[1]}=` });
+      }
+      return;
+    }
+
+    if (arg.startsWith('-')) {
+      return;
+    }
+
+    const previous = args[index - 1];
+    const flag = typeof previous === 'string' && /^--?[A-Za-z]/.test(previous) && !previous.includes('=') ? previous : null;
+    const reason = classify(flag || '', arg);
+    if (reason) {
+      findings.push({ location: 'args', key: flag || `arg ${index + 1}`, reason, index, prefix: '' });
+    }
+  });
+
+  return findings;
+}
+
+/**
+ * Finds credentials in a URL: a password (or a token used as the user name)
+ * in the user info, or secret-named query parameters
+ */
+function findSecretUrlParts(url: string): SecretFinding[] {
+  try {
+    const parsed = new URL(url);
+    const findings: SecretFinding[] = [];
+    if (parsed.username && looksLikeSecretValue(decodeURIComponent(parsed.username))) {
+      findings.push({ location: 'url', key: 'username', reason: 'value' });
+    }
+    if (parsed.password) {
+      findings.push({ location: 'url', key: 'password', reason: 'name' });
+    }
+    parsed.searchParams.forEach((value, name) => {
+      const reason = classify(name, value);
+      if (reason) {
+        findings.push({ location: 'url', key: name, reason });
+      }
+    });
+    return findings;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Finds likely secrets in a server's env, headers, args and URL
+ */
+export function findSecrets(server: MCPServer): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+
+  for (const location of ['env', 'headers'] as const) {
+    const values: Record<string, unknown> = server[location] || {};
+    for (const [key, value] of Object.entries(values)) {
+      const reason = classify(key, value);
+      if (reason) {
+        findings.push({ location, key, reason });
+      }
+    }
+  }
+
+  if (isRemoteServer(server)) {
+    findings.push(...findSecretUrlParts(server.url));
+  } else if (Array.isArray(server.args)) {
+    findings.push(...findSecretArgs(server.args).map(({ location, key, reason }) => ({ location, key, reason })));
+  }
+
+  return findings;
+}
+
+/**
+ * Replaces env and header values that hold secrets, keeping auth schemes
+ * such as "Bearer". `replace` returns the new value, or undefined to drop the entry.
+ */
+function replaceKeyedSecrets(
+  server: MCPServer,
+  replace: (location: 'env' | 'headers', key: string, value: string) => string | undefined
+): { server: MCPServer; replaced: SecretFinding[] } {
+  const result: MCPServer = { ...server };
+  const replaced: SecretFinding[] = [];
+
+  for (const finding of findSecrets(server)) {
+    if (finding.location !== 'env' && finding.location !== 'headers') {
+      continue;
+    }
+    const values: Record<string, string> = { ...result[finding.location] };
+    const next = replace(finding.location, finding.key, values[finding.key]);
+    if (next === undefined) {
+      delete values[finding.key];
+    } else {
+      values[finding.key] = next;
+    }
+    result[finding.location] = values;
+    replaced.push(finding);
+  }
+
+  return { server: result, replaced };
+}
+
+function keepScheme(value: string, replacement: string): string {
+  const scheme = value.match(AUTH_SCHEME);
+  return scheme ? `${scheme[0]}${replacement}` : replacement;
+}
+
+/**
+ * Copy of a server with every likely secret replaced by ****, for output
+ */
+export function redactServer(server: MCPServer): MCPServer {
+  const result = replaceKeyedSecrets(server, (_, __, value) => keepScheme(value, REDACTED)).server;
+
+  if (isRemoteServer(result)) {
+    try {
+      const url = new URL(result.url);
+      const findings = findSecretUrlParts(result.url);
+      const secretParams = findings.filter(f => f.key !== 'password' && f.key !== 'username');
+      if (findings.some(f => f.key === 'username')) {
+        url.username = REDACTED;
+      }
+      if (url.password) {
+        url.password = REDACTED;
+      }
+      secretParams.forEach(finding => url.searchParams.set(finding.key, REDACTED));
+      return findings.length > 0 ? { ...result, url: url.toString() } : result;
+    } catch {
+      return result;
+    }
+  }
+
+  if (Array.isArray(result.args)) {
+    const args = [...result.args];
+    findSecretArgs(args).forEach(finding => {
+      args[finding.index] = `${finding.prefix}${REDACTED}`;
+    });
+    return { ...result, args };
+  }
+
+  return result;
+}
+
+/**
+ * Copy of a server without the secret values in its env and headers.
+ * Returns the removed entries as "env.KEY" / "headers.KEY".
+ */
+export function stripSecrets(server: MCPServer): { server: MCPServer; stripped: string[] } {
+  const { server: result, replaced } = replaceKeyedSecrets(server, () => undefined);
+  return { server: result, stripped: replaced.map(finding => `${finding.location}.${finding.key}`) };
+}
+
+/**
+ * Name of the environment variable a secret is referenced by: an env entry
+ * keeps its own name, a header becomes <SERVER>_<HEADER>
+ */
+export function secretVariableName(serverName: string, location: 'env' | 'headers', key: string): string {
+  if (location === 'env') {
+    return key;
+  }
+  return `${serverName}_${key}`.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Copy of a server whose secret env and header values are replaced with
+ * ${env:VAR} references. Returns the variables that need to be set.
+ */
+export function referenceSecrets(serverName: string, server: MCPServer): { server: MCPServer; variables: string[] } {
+  const variables: string[] = [];
+  const { server: result } = replaceKeyedSecrets(server, (location, key, value) => {
+    const variable = secretVariableName(serverName, location, key);
+    variables.push(variable);
+    return keepScheme(value, `\${env:${variable}}`);
+  });
+  return { server: result, variables };
+}
@@ -0,0 +1,160 @@
+import type { ConfigScope, MCPAdapter, MCPConfig, ScopedMCPConfig } from '../adapters/base.js';
+import type { ScopeInfo } from './scope.js';
+
+/**
+ * What it takes to go from the current config to exactly the selected servers
+ */
+export interface SelectionPlan {
+  toEnable: string[];
+  toDisable: string[];
+  /** Deselected servers that stay enabled because they cannot be disabled at this scope */
+  locked: string[];
+  /** The config with the changes made, for working out the new token usage */
+  newConfig: MCPConfig;
+}
+
+// Configuration layers from broadest to narrowest
+const LAYERS: ConfigScope[] = ['user', 'project', 'local'];
+
+/**
+ * Gets the enabled servers a selection cannot disable: at project scope,
+ * user-level servers of tools that cannot switch them off per project
+ */
+export function getLockedServers(adapter: MCPAdapter, config: ScopedMCPConfig): string[] {
+  const isProjectScope = config.scope === 'project' || config.scope === 'local';
+  if (!isProjectScope || adapter.supportsDisablingInheritedServers() || !config.inheritance) {
+    return [];
+  }
+
+  const { inherited, overridden } = config.inheritance;
+  return [...inherited, ...overridden].filter(name => adapter.isServerEnabled(config, name));
+}
+
+/**
+ * Works out which servers to enable and disable so that exactly the
+ * selected servers are enabled, as far as the scope allows
+ */
+export function planServerSelection(
+  adapter: MCPAdapter,
+  config: ScopedMCPConfig,
+  selectedServers: Set<string>
+): SelectionPlan {
+  const toEnable: string[] = [];
+  const toDisable: string[] = [];
+  const locked: string[] = [];
+  const lockedServers = getLockedServers(adapter, config);
+
+  adapter.getAllServers(config).forEach(name => {
+    const currentlyEnabled = adapter.isServerEnabled(config, name);
+    const shouldBeEnabled = selectedServers.has(name);
+
+    if (shouldBeEnabled && !currentlyEnabled) {
+      toEnable.push(name);
+    } else if (!shouldBeEnabled && currentlyEnabled) {
+      if (lockedServers.includes(name)) {
+        locked.push(name);
+      } else {
+        toDisable.push(name);
+      }
+    }
+  });
+
+  let newConfig: MCPConfig = { ...config };
+
+  toDisable.forEach(name => {
+    newConfig = adapter.toggleServer(newConfig, name);
+  });
+
+  toEnable.forEach(name => {
+    newConfig = adapter.toggleServer(newConfig, name);
+  });
+
+  return { toEnable, toDisable, locked, newConfig };
+}
+
+/**
+ * Saves a selection at the chosen scope. At project scope, servers inherited
+ * from the user config are disabled through the project config, which is
+ * rebuilt from the selection. Servers defined in a narrower layer (e.g. the
+ * private local layer when saving the shared project config) stay there.
+ */
+export function applyServerSelection(
+  adapter: MCPAdapter,
+  scopeInfo: ScopeInfo,
+  config: ScopedMCPConfig,
+  selectedServers: Set<string>,
+  plan: SelectionPlan
+): void {
+  const isProjectScope = config.scope === 'project' || config.scope === 'local';
+
+  if (!(isProjectScope && adapter.supportsProjectScope() && adapter.saveProjectConfig)) {
+    // User scope - save normally
+    adapter.saveConfig(plan.newConfig);
+    return;
+  }
+
+  // For project scope, we need to update project config
+  // Build project config from changes
+  const userConfig = adapter.loadConfig();
+  let projectConfig = adapter.loadProjectConfig?.(scopeInfo.projectPath!, scopeInfo.scope);
+
+  if (!projectConfig) {
+    projectConfig = {
+      enabled: {},
+      disabled: {},
+      metadata: {
+        tool: adapter.id,
+        scope: scopeInfo.scope
+      }
+    };
+  }
+
+  // Update project config based on selections
+  // Remove all current project config
+  projectConfig.enabled = {};
+  projectConfig.disabled = {};
+
+  const savedLayer = LAYERS.indexOf(scopeInfo.scope);
+  const sources = config.inheritance?.sources || {};
+
+  // For each server, determine if it should be in project config
+  adapter.getAllServers(config).forEach(name => {
+    const shouldBeEnabled = selectedServers.has(name) || plan.locked.includes(name);
+    const isInUserEnabled = adapter.isServerEnabled(userConfig, name);
+
+    if (shouldBeEnabled) {
+      // If it's enabled, check if it needs to be in project config
+      if (sources[name] && LAYERS.indexOf(sources[name]) > savedLayer) {
+        // Defined in a narrower layer, which keeps it enabled (no-op)
+      } else if (!isInUserEnabled) {
+        // Not in user config - add to project enabled
+        const server = config.enabled[name] || config.disabled[name];
+        if (server) {
+          projectConfig.enabled[name] = server;
+        }
+      } else {
+        // Inherited from user - if it was disabled at project level, remove it
+        // (no-op, already enabled via inheritance)
+      }
+    } else {
+      // If it should be disabled
+      if (isInUserEnabled) {
+        // Inherited from user - add to project disabled
+        const server = userConfig.enabled[name];
+        if (server) {
+          projectConfig.disabled[name] = server;
+        }
+      } else if (config.enabled[name]) {
+        // Added at project level - keep its definition but disable it
+        projectConfig.disabled[name] = config.enabled[name];
+      } else if (!adapter.serverExists(userConfig, name) && config.disabled[name]) {
+        // Already disabled at project level - keep its definition
+        projectConfig.disabled[name] = config.disabled[name];
+      } else {
+        // Disabled in the user config (no-op, stays disabled)
+      }
+    }
+  });
+
+  adapter.saveProjectConfig(scopeInfo.projectPath!, projectConfig, scopeInfo.scope);
+}
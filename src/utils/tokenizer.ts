@@ -0,0 +1,146 @@
+import { createRequire } from 'module';
+import { Tiktoken, type TiktokenBPE } from 'js-tiktoken/lite';
+import { countTokens as countClaudeTokens } from '@anthropic-ai/tokenizer';
+
+// The BPE rank files are large, so they are only loaded once a tokenizer is used
+const require = createRequire(import.meta.url);
+
+/**
+ * Counts tokens the way a family of models would
+ */
+export interface Tokenizer {
+  id: string;
+  description: string;
+  count(text: string): number;
+}
+
+/**
+ * The JSON a client injects for a server's tools, prompts and resources,
+ * as dumped by a live probe
+ */
+export interface ServerDefinitions {
+  tools: unknown[];
+  prompts: unknown[];
+  resources: unknown[];
+}
+
+export interface DefinitionTokens {
+  toolTokens: number;
+  promptTokens: number;
+  resourceTokens: number;
+  tokens: number;
+}
+
+/**
+ * Approximate characters per token, for the tokenizer that loads nothing
+ */
+const CHARS_PER_TOKEN = 4;
+
+function createTiktoken(ranksModule: string): (text: string) => number {
+  let encoder: Tiktoken | null = null;
+  return (text: string) => {
+    if (!encoder) {
+      const ranks = require(ranksModule);
+      encoder = new Tiktoken((ranks.default ?? ranks) as TiktokenBPE);
+    }
+    return encoder.encode(text).length;
+  };
+}
+
+const TOKENIZERS: Tokenizer[] = [
+  {
+    id: 'claude',
+    description: "Anthropic's published Claude tokenizer (an approximation for recent Claude models)",
+    count: countClaudeTokens
+  },
+  {
+    id: 'o200k',
+    description: 'OpenAI o200k_base (GPT-4o, GPT-4.1, o-series)',
+    count: createTiktoken('js-tiktoken/ranks/o200k_base')
+  },
+  {
+    id: 'cl100k',
+    description: 'OpenAI cl100k_base (GPT-4, GPT-3.5)',
+    count: createTiktoken('js-tiktoken/ranks/cl100k_base')
+  },
+  {
+    id: 'chars',
+    description: `Rough estimate of ${CHARS_PER_TOKEN} characters per token (no tokenizer loaded)`,
+    count: (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN)
+  }
+];
+
+const DEFAULT_TOKENIZER = 'claude';
+
+let defaultTokenizerId = DEFAULT_TOKENIZER;
+
+/**
+ * Lists the available tokenizers
+ */
+export function listTokenizers(): Tokenizer[] {
+  return [...TOKENIZERS];
+}
+
+/**
+ * Gets a tokenizer by id, or the current default
+ */
+export function getTokenizer(id: string = defaultTokenizerId): Tokenizer {
+  const tokenizer = TOKENIZERS.find(t => t.id === id.toLowerCase());
+  if (!tokenizer) {
+    throw new Error(
+      `Unknown tokenizer: ${id}. Available tokenizers: ${TOKENIZERS.map(t => t.id).join(', ')}`
+    );
+  }
+  return tokenizer;
+}
+
+/**
+ * Chooses the tokenizer used when none is passed explicitly
+ * (resets to the built-in default when called without an id)
+ */
+export function setDefaultTokenizer(id: string = DEFAULT_TOKENIZER): void {
+  defaultTokenizerId = getTokenizer(id).id;
+}
+
+/**
+ * Counts the tokens a piece of text (e.g. serialized tool schemas) takes up
+ */
+export function countTokens(text: string, tokenizer: Tokenizer = getTokenizer()): number {
+  return text ? tokenizer.count(text) : 0;
+}
+
+function countItems(items: unknown[], tokenizer: Tokenizer): number {
+  return items.length > 0 ? countTokens(JSON.stringify(items), tokenizer) : 0;
+}
+
+// Recounting a large dump is slow, so counts are kept per dump and tokenizer
+const counted = new WeakMap<ServerDefinitions, Map<string, DefinitionTokens>>();
+
+/**
+ * Counts the tokens of a server's injected tools, prompts and resources
+ */
+export function countDefinitionTokens(
+  definitions: ServerDefinitions,
+  tokenizer: Tokenizer = getTokenizer()
+): DefinitionTokens {
+  const byTokenizer = counted.get(definitions) || new Map<string, DefinitionTokens>();
+  counted.set(definitions, byTokenizer);
+
+  const cached = byTokenizer.get(tokenizer.id);
+  if (cached) {
+    return cached;
+  }
+
+  const toolTokens = countItems(definitions.tools, tokenizer);
+  const promptTokens = countItems(definitions.prompts, tokenizer);
+  const resourceTokens = countItems(definitions.resources, tokenizer);
+  const result = {
+    toolTokens,
+    promptTokens,
+    resourceTokens,
+    tokens: toolTokens + promptTokens + resourceTokens
+  };
+
+  byTokenizer.set(tokenizer.id, result);
+  return result;
+}
@@ -1,30 +1,7 @@
-import type { MCPServer } from '../config.js';
-import type { ScopedMCPConfig } from '../adapters/base.js';
-
-/**
- * Known token estimates for common MCP servers
- * Based on reported values from the community
- */
-const KNOWN_SERVERS: Record<string, { tokens: number; tools: number }> = {
-  'canvas-mcp-server': { tokens: 78000, tools: 42 },
-  'context7': { tokens: 2000, tools: 2 },
-  'gemini-collab': { tokens: 4000, tools: 4 },
-  'puppeteer': { tokens: 8000, tools: 7 },
-  'notion': { tokens: 35000, tools: 20 },
-  'github': { tokens: 15000, tools: 12 },
-  'slack': { tokens: 8000, tools: 8 },
-  'filesystem': { tokens: 5000, tools: 5 },
-  'postgres': { tokens: 10000, tools: 10 },
-  'brave-search': { tokens: 3000, tools: 3 },
-  'google-maps': { tokens: 5000, tools: 5 },
-  'memory': { tokens: 4000, tools: 4 },
-  'fetch': { tokens: 2000, tools: 2 },
-  'sequential-thinking': { tokens: 3000, tools: 3 },
-  'time': { tokens: 1000, tools: 2 },
-  'sqlite': { tokens: 8000, tools: 8 },
-  'mcp-server-commands': { tokens: 6000, tools: 6 },
-  'everything': { tokens: 12000, tools: 10 },
-};
+import { isRemoteServer, type MCPServer, type ScopedMCPConfig } from '../adapters/base.js';
+import { getCachedMeasurement } from './measurement-cache.js';
+import { findCatalogEntry } from './catalog.js';
+import { countDefinitionTokens, getTokenizer, type Tokenizer } from './tokenizer.js';
 
 /**
  * Base overhead for each MCP server (connection, metadata, etc.)
@@ -37,20 +14,54 @@ const BASE_OVERHEAD = 500;
 const TOKENS_PER_TOOL = 150;
 
 /**
- * Estimates the token count for a server
+ * Text used to guess what a server does: the command for stdio servers,
+ * the host and path (without the scheme, so "http" doesn't match) for remote ones
  */
-export function estimateServerTokens(serverName: string, server: MCPServer): number {
-  // Check if we have known data for this server
-  const normalizedName = serverName.toLowerCase();
+function getServerSignature(server: MCPServer): string {
+  if (isRemoteServer(server)) {
+    return server.url.replace(/^[a-z+]+:\/\//i, '').toLowerCase();
+  }
+  return server.command?.toLowerCase() || '';
+}
 
-  for (const [knownName, data] of Object.entries(KNOWN_SERVERS)) {
-    if (normalizedName.includes(knownName.toLowerCase())) {
-      return data.tokens;
-    }
+/**
+ * Tokens of a cached measurement, recounted from its dumped JSON when
+ * it was counted with a different tokenizer
+ */
+function getMeasuredTokens(server: MCPServer, tokenizer: Tokenizer): number | null {
+  const measured = getCachedMeasurement(server);
+  if (!measured) {
+    return null;
+  }
+  if (measured.definitions && measured.tokenizer !== tokenizer.id) {
+    return countDefinitionTokens(measured.definitions, tokenizer).tokens;
+  }
+  return measured.tokens;
+}
+
+/**
+ * Estimates the token count for a server.
+ * A cached measurement of the same definition wins over the catalog,
+ * which wins over any heuristic.
+ */
+export function estimateServerTokens(
+  serverName: string,
+  server: MCPServer,
+  tokenizer: Tokenizer = getTokenizer()
+): number {
+  const measured = getMeasuredTokens(server, tokenizer);
+  if (measured !== null) {
+    return measured;
+  }
+
+  // Check if we have known data for this server
+  const known = findCatalogEntry(serverName, server);
+  if (known) {
+    return known.tokens;
   }
 
-  // If server has a known command, make educated guess
-  const command = server.command?.toLowerCase() || '';
+  // If server has a known command or URL, make educated guess
+  const command = getServerSignature(server);
 
   // Large servers based on command patterns
   if (command.includes('canvas')) return 78000;
@@ -73,20 +84,24 @@ export function estimateServerTokens(serverName: string, server: MCPServer): num
 }
 
 /**
- * Estimates the number of tools for a server
+ * Estimates the number of tools for a server.
+ * A cached measurement of the same definition wins over the catalog,
+ * which wins over any heuristic.
  */
 export function estimateServerTools(serverName: string, server: MCPServer): number {
-  // Check known servers first
-  const normalizedName = serverName.toLowerCase();
+  const measured = getCachedMeasurement(server);
+  if (measured) {
+    return measured.tools;
+  }
 
-  for (const [knownName, data] of Object.entries(KNOWN_SERVERS)) {
-    if (normalizedName.includes(knownName.toLowerCase())) {
-      return data.tools;
-    }
+  // Check known servers first
+  const known = findCatalogEntry(serverName, server);
+  if (known) {
+    return known.tools;
   }
 
-  // Estimate based on command
-  const command = server.command?.toLowerCase() || '';
+  // Estimate based on command or URL
+  const command = getServerSignature(server);
 
   if (command.includes('canvas')) return 42;
   if (command.includes('notion')) return 20;
@@ -106,12 +121,29 @@ export function estimateServerTools(serverName: string, server: MCPServer): numb
 /**
  * Calculates total token usage across all servers
  */
-export function calculateTotalTokens(servers: Record<string, MCPServer>): number {
+export function calculateTotalTokens(
+  servers: Record<string, MCPServer>,
+  tokenizer: Tokenizer = getTokenizer()
+): number {
   return Object.entries(servers).reduce((total, [name, server]) => {
-    return total + estimateServerTokens(name, server);
+    return total + estimateServerTokens(name, server, tokenizer);
   }, 0);
 }
 
+/**
+ * Parses a token amount such as "30000", "30,000", "30k" or "1.5m"
+ * (null if it isn't one)
+ */
+export function parseTokenAmount(value: string): number | null {
+  const match = value.trim().toLowerCase().replace(/,/g, '').match(/^(\d+(?:\.\d+)?)([km]?)$/);
+  if (!match) {
+    return null;
+  }
+
+  const multiplier = match[2] === 'm' ? 1000000 : match[2] === 'k' ? 1000 : 1;
+  return Math.round(Number(match[1]) * multiplier);
+}
+
 /**
  * Gets a human-readable description of token impact
  */
@@ -143,7 +175,10 @@ export function calculateSavings(
 /**
  * Calculates token usage by inheritance category for scoped configs
  */
-export function calculateScopedTokens(config: ScopedMCPConfig): {
+export function calculateScopedTokens(
+  config: ScopedMCPConfig,
+  tokenizer: Tokenizer = getTokenizer()
+): {
   inherited: number;
   overrides: number;
   additions: number;
@@ -162,21 +197,21 @@ export function calculateScopedTokens(config: ScopedMCPConfig): {
   // Calculate tokens for inherited servers
   for (const name of inheritance.inherited) {
     if (config.enabled[name]) {
-      inherited += estimateServerTokens(name, config.enabled[name]);
+      inherited += estimateServerTokens(name, config.enabled[name], tokenizer);
     }
   }
 
   // Calculate tokens for overridden servers
   for (const name of inheritance.overridden) {
     if (config.enabled[name]) {
-      overrides += estimateServerTokens(name, config.enabled[name]);
+      overrides += estimateServerTokens(name, config.enabled[name], tokenizer);
     }
   }
 
   // Calculate tokens for added servers
   for (const name of inheritance.additions) {
     if (config.enabled[name]) {
-      additions += estimateServerTokens(name, config.enabled[name]);
+      additions += estimateServerTokens(name, config.enabled[name], tokenizer);
     }
   }
 
@@ -0,0 +1,174 @@
+import { parse, stringify } from 'smol-toml';
+
+/**
+ * A run of lines in a TOML document: either the root table (before any header)
+ * or a `[table]` / `[[array]]` header together with its key/value lines.
+ */
+interface TomlSegment {
+  /** Key path of the header, or null for the root table */
+  path: string[] | null;
+  text: string;
+}
+
+/**
+ * Parses a TOML document
+ */
+export function parseToml(raw: string): Record<string, any> {
+  return parse(raw);
+}
+
+/**
+ * Serializes a single sub-table (e.g. `[mcp_servers.github]` and its nested tables)
+ */
+export function stringifyTable(rootKey: string, name: string, value: Record<string, any>): string {
+  return stringify({ [rootKey]: { [name]: value } }).trimEnd() + '\n';
+}
+
+/**
+ * Parses the key path of a table header line ("[a.b.\"c.d\"]" -> ["a", "b", "c.d"]).
+ * Returns null if the line is not a header.
+ */
+export function parseTableHeader(line: string): string[] | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('[')) {
+    return null;
+  }
+
+  const isArray = trimmed.startsWith('[[');
+  let i = isArray ? 2 : 1;
+  const keys: string[] = [];
+  let current = '';
+
+  while (i < trimmed.length) {
+    const char = trimmed[i];
+
+    if (char === '"' || char === '\'') {
+      // Quoted key: read up to the matching quote
+      const end = trimmed.indexOf(char, i + 1);
+      if (end === -1) {
+        return null;
+      }
+      current += trimmed.slice(i + 1, end);
+      i = end + 1;
+    } else if (char === '.') {
+      keys.push(current.trim());
+      current = '';
+      i++;
+    } else if (char === ']') {
+      keys.push(current.trim());
+      const rest = trimmed.slice(i + (isArray ? 2 : 1)).trim();
+      return rest === '' || rest.startsWith('#') ? keys : null;
+    } else {
+      current += char;
+      i++;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Splits a TOML document into segments, one per table header.
+ * Comment lines directly above a header are kept with that header.
+ */
+function splitTomlSegments(raw: string): TomlSegment[] {
+  const lines = raw.split('\n');
+  const segments: TomlSegment[] = [{ path: null, text: '' }];
+  let current: string[] = [];
+  let inMultilineString = false;
+
+  const flush = () => {
+    segments[segments.length - 1].text = current.join('\n');
+  };
+
+  for (const line of lines) {
+    const header = inMultilineString ? null : parseTableHeader(line);
+
+    if (header) {
+      // Move comments that directly precede the header into the new segment
+      const leading: string[] = [];
+      while (current.length > 0 && current[current.length - 1].trim().startsWith('#')) {
+        leading.unshift(current.pop()!);
+      }
+      flush();
+      segments.push({ path: header, text: '' });
+      current = [...leading, line];
+    } else {
+      current.push(line);
+    }
+
+    // Track multi-line strings so lines inside them are never taken for headers
+    const quotes = (line.match(/"""|'''/g) || []).length;
+    if (quotes % 2 === 1) {
+      inMultilineString = !inMultilineString;
+    }
+  }
+  flush();
+
+  // Every segment ends with a newline (the document's final newline stays on the last one)
+  return segments.map((segment, index) => ({
+    ...segment,
+    text: index < segments.length - 1 ? segment.text + '\n' : segment.text
+  }));
+}
+
+/**
+ * Extracts the raw text of each `[rootKey.<name>]` table (including its nested
+ * tables), keyed by name
+ */
+export function extractTables(raw: string, rootKey: string): Map<string, string> {
+  const tables = new Map<string, string>();
+
+  for (const segment of splitTomlSegments(raw)) {
+    if (segment.path && segment.path[0] === rootKey && segment.path.length >= 2) {
+      const name = segment.path[1];
+      tables.set(name, (tables.get(name) || '') + segment.text);
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * Replaces all `[rootKey.<name>]` tables in a document with the given raw table
+ * texts. Tables keep their position when they already existed, new ones are
+ * appended, and everything else in the document is left untouched.
+ */
+export function replaceTables(raw: string, rootKey: string, tables: Record<string, string>): string {
+  // Servers defined inline (`rootKey = { ... }` or under a bare `[rootKey]`) can't be spliced safely
+  const parsedNames = Object.keys(parse(raw)[rootKey] || {});
+  const tableNames = new Set(extractTables(raw, rootKey).keys());
+  const inline = parsedNames.filter(name => !tableNames.has(name));
+  if (inline.length > 0) {
+    throw new Error(
+      `Inline ${rootKey} entries are not supported (${inline.join(', ')}). ` +
+      `Define each one as a [${rootKey}.<name>] table instead.`
+    );
+  }
+
+  const written = new Set<string>();
+  let output = '';
+
+  for (const segment of splitTomlSegments(raw)) {
+    if (segment.path && segment.path[0] === rootKey && segment.path.length >= 2) {
+      const name = segment.path[1];
+      if (name in tables && !written.has(name)) {
+        output += tables[name];
+        written.add(name);
+      }
+      continue;
+    }
+    output += segment.text;
+  }
+
+  for (const [name, text] of Object.entries(tables)) {
+    if (!written.has(name)) {
+      if (output.trim() !== '' && !output.endsWith('\n\n')) {
+        output += output.endsWith('\n') ? '\n' : '\n\n';
+      }
+      output += text;
+    }
+  }
+
+  return output;
+}
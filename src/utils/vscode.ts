@@ -0,0 +1,23 @@
+import path from 'path';
+import os from 'os';
+
+/**
+ * Gets the VS Code user settings directory (platform-aware)
+ */
+export function getVSCodeUserDir(): string {
+  return path.join(
+    os.homedir(),
+    process.platform === 'darwin'
+      ? 'Library/Application Support/Code/User'
+      : process.platform === 'win32'
+      ? 'AppData/Roaming/Code/User'
+      : '.config/Code/User'
+  );
+}
+
+/**
+ * Gets the globalStorage directory of a VS Code extension
+ */
+export function getVSCodeExtensionStorageDir(extensionId: string): string {
+  return path.join(getVSCodeUserDir(), 'globalStorage', extensionId);
+}
@@ -0,0 +1,41 @@
+// Minimal stdio MCP server used by the measure tests
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { ListToolsRequestSchema, ListPromptsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+const server = new Server(
+  { name: 'fake-server', version: '1.0.0' },
+  { capabilities: { tools: {}, prompts: {} } }
+);
+
+const tools = [
+  {
+    name: 'get_time',
+    description: 'Returns the current time in the given timezone',
+    inputSchema: { type: 'object', properties: { timezone: { type: 'string' } } }
+  },
+  {
+    name: 'convert_time',
+    description: 'Converts a time between timezones',
+    inputSchema: {
+      type: 'object',
+      properties: { time: { type: 'string' }, from: { type: 'string' }, to: { type: 'string' } },
+      required: ['time', 'from', 'to']
+    }
+  }
+];
+
+// Serve tools one page at a time to exercise cursor handling
+server.setRequestHandler(ListToolsRequestSchema, async request => {
+  const index = Number(request.params?.cursor ?? 0);
+  return {
+    tools: [tools[index]],
+    ...(index + 1 < tools.length ? { nextCursor: String(index + 1) } : {})
+  };
+});
+
+server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+  prompts: [{ name: process.env.FAKE_PROMPT_NAME || 'summarize', description: 'Summarize the conversation' }]
+}));
+
+await server.connect(new StdioServerTransport());
@@ -1,7 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
-import type { MCPServer } from '../../src/adapters/base.js';
+import type { MCPServer, RemoteMCPServer } from '../../src/adapters/base.js';
 
 /**
  * Creates a temporary directory for testing
@@ -43,6 +43,20 @@ export function mockServer(
   };
 }
 
+/**
+ * Creates a mock remote (sse / streamable HTTP) MCP server configuration
+ */
+export function mockRemoteServer(
+  url: string,
+  overrides: Partial<RemoteMCPServer> = {}
+): MCPServer {
+  return {
+    type: 'http',
+    url,
+    ...overrides,
+  };
+}
+
 /**
  * Creates a test config file in a temp directory
  */
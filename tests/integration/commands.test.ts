@@ -1,10 +1,13 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import os from 'os';
 import { setupTestEnv, type TestEnv, createTestConfigFile, loadFixture, mockServer } from '../helpers/test-utils.js';
 import { TestAdapter, mockConsole, mockProcessExit, type ConsoleMock, type ProcessExitMock } from '../helpers/integration-utils.js';
 import { disableCommand } from '../../src/commands/disable.js';
 import { enableCommand } from '../../src/commands/enable.js';
 import { listCommand } from '../../src/commands/list.js';
 import { statusCommand } from '../../src/commands/status.js';
+import { fitCommand } from '../../src/commands/fit.js';
+import { saveBudget } from '../../src/utils/budget.js';
 import type { MCPConfig } from '../../src/adapters/base.js';
 import type { ScopeInfo } from '../../src/utils/scope.js';
 
@@ -252,6 +255,32 @@ describe('Commands Integration', () => {
       expect(output).toContain('Use "house-mcp-manager interactive" for quick toggling');
     });
 
+    it('should scale shares and warnings with the model context window', () => {
+      const config: MCPConfig = {
+        enabled: {
+          'github': mockServer('npx @modelcontextprotocol/server-github'),
+          'notion': mockServer('npx @notionhq/notion-mcp'),
+          'canvas': mockServer('npx canvas-mcp-server')
+        },
+        disabled: {},
+        metadata: { tool: 'test' }
+      };
+      createTestConfigFile(env.tempDir, config);
+
+      statusCommand(adapter, userScopeInfo);
+      let output = consoleMock.getOutput().join('\n');
+      expect(output).toContain('Model: Claude Sonnet (200k context window)');
+      expect(output).toContain('39.0%');
+      expect(output).toContain('(64.0% of the 200k context window)');
+      expect(output).toContain('HIGH TOKEN USAGE');
+
+      const offset = consoleMock.getOutput().length;
+      statusCommand(adapter, userScopeInfo, 'claude-sonnet-1m');
+      output = consoleMock.getOutput().slice(offset).join('\n');
+      expect(output).toContain('(12.8% of the 1M context window)');
+      expect(output).toContain('Token usage is under control');
+    });
+
     it('should handle empty enabled servers', () => {
       const config: MCPConfig = {
         enabled: {},
@@ -472,4 +501,58 @@ describe('Commands Integration', () => {
       expect(config.enabled.github.args).toEqual(['--token', 'xyz']); // Verify args still preserved
     });
   });
+
+  describe('fitCommand', () => {
+    let homedirSpy: any;
+
+    beforeEach(() => {
+      homedirSpy = vi.spyOn(os, 'homedir').mockReturnValue(env.tempDir);
+      createTestConfigFile(env.tempDir, {
+        enabled: {
+          'github': mockServer('npx @modelcontextprotocol/server-github'),
+          'notion': mockServer('npx @notionhq/notion-mcp'),
+          'time': mockServer('uvx mcp-server-time')
+        },
+        disabled: {
+          'context7': mockServer('npx @upstash/context7-mcp')
+        },
+        metadata: { tool: 'test' }
+      });
+    });
+
+    afterEach(() => {
+      homedirSpy.mockRestore();
+    });
+
+    it('should enable the servers that fit the budget and disable the rest', async () => {
+      await fitCommand(adapter, userScopeInfo, { budget: '20k', yes: true });
+
+      const output = consoleMock.getOutput().join('\n');
+      expect(output).toContain('Token Impact:');
+      expect(output).toContain('Current: 51,000 tokens');
+      expect(output).toContain('New:     18,000 tokens');
+
+      const config = adapter.loadConfig();
+      expect(Object.keys(config.enabled).sort()).toEqual(['context7', 'github', 'time']);
+      expect(Object.keys(config.disabled)).toEqual(['notion']);
+    });
+
+    it('should follow saved priorities and leave the config alone on a dry run', async () => {
+      saveBudget(userScopeInfo, { budget: 40000, priorities: { notion: 5 } });
+
+      await fitCommand(adapter, userScopeInfo, { dryRun: true });
+
+      const output = consoleMock.getOutput().join('\n');
+      expect(output).toMatch(/-.*github/);
+      expect(output).toContain('Dry run');
+      expect(Object.keys(adapter.loadConfig().enabled)).toEqual(['github', 'notion', 'time']);
+    });
+
+    it('should fail without a budget', async () => {
+      await fitCommand(adapter, userScopeInfo);
+
+      expect(exitMock.getExitCode()).toBe(1);
+      expect(consoleMock.getErrorOutput().join('\n')).toContain('No token budget set');
+    });
+  });
 });
@@ -19,6 +19,7 @@ let loadProfile: any;
 let listProfilesCommand: any;
 let deleteProfile: any;
 let createPrebuiltProfiles: any;
+let checkProfileCommand: any;
 
 describe('Profiles Integration', () => {
   let env: TestEnv;
@@ -43,6 +44,7 @@ describe('Profiles Integration', () => {
     listProfilesCommand = profileModule.listProfilesCommand;
     deleteProfile = profileModule.deleteProfile;
     createPrebuiltProfiles = profileModule.createPrebuiltProfiles;
+    checkProfileCommand = profileModule.checkProfileCommand;
 
     adapter = new TestAdapter(env.configPath, env.backupDir);
     consoleMock = mockConsole();
@@ -502,5 +504,166 @@ describe('Profiles Integration', () => {
       expect(restoredConfig.enabled.filesystem.args).toEqual(['/path/to/dir']);
       expect(restoredConfig.disabled.notion.env).toEqual({ 'NOTION_KEY': 'key123' });
     });
+
+    it('should leave secrets out and take them from the current config on load', () => {
+      const config: MCPConfig = {
+        enabled: {
+          'github': mockServer('npx github-server', { env: { 'GITHUB_TOKEN': 'secret-value', 'REGION': 'eu' } })
+        },
+        disabled: {},
+        metadata: { tool: 'test' }
+      };
+      createTestConfigFile(env.tempDir, config);
+
+      saveProfile(adapter, 'stripped', userScopeInfo, { stripSecrets: true });
+      loadProfile(adapter, 'stripped', userScopeInfo);
+
+      expect(adapter.loadConfig().enabled.github.env).toEqual({ 'GITHUB_TOKEN': 'secret-value', 'REGION': 'eu' });
+
+      // Without the server in the current config the secret can't come back
+      createTestConfigFile(env.tempDir, { enabled: {}, disabled: {}, metadata: { tool: 'test' } });
+      loadProfile(adapter, 'stripped', userScopeInfo);
+
+      expect(adapter.loadConfig().enabled.github.env).toEqual({ 'REGION': 'eu' });
+      expect(consoleMock.getOutput().join('\n')).toContain('github: env GITHUB_TOKEN');
+    });
+
+    it('should not put stripped secrets back into shared project files', () => {
+      createTestConfigFile(env.tempDir, {
+        enabled: {
+          'github': mockServer('npx github-server', { env: { 'GITHUB_TOKEN': 'secret-value', 'REGION': 'eu' } })
+        },
+        disabled: {},
+        metadata: { tool: 'test' }
+      });
+      saveProfile(adapter, 'stripped-shared', userScopeInfo, { stripSecrets: true });
+
+      vi.spyOn(adapter, 'supportsProjectScope').mockReturnValue(true);
+      const saveProjectConfig = vi.fn();
+      adapter.saveProjectConfig = saveProjectConfig;
+
+      loadProfile(adapter, 'stripped-shared', { scope: 'project', projectPath: env.tempDir, isAutoDetected: false });
+
+      expect(saveProjectConfig).toHaveBeenCalledTimes(1);
+      const written = saveProjectConfig.mock.calls[0][1];
+      expect(written.enabled.github.env).toEqual({ 'REGION': 'eu' });
+      expect(JSON.stringify(written)).not.toContain('secret-value');
+      const output = consoleMock.getOutput().join('\n');
+      expect(output).toContain('not written to shared project files');
+      expect(output).toContain('github: env GITHUB_TOKEN');
+    });
+
+    it('should store secrets as environment references when asked to', () => {
+      createTestConfigFile(env.tempDir, {
+        enabled: {
+          'github': mockServer('npx github-server', { env: { 'HOUSE_TEST_TOKEN': 'secret-value' } })
+        },
+        disabled: {},
+        metadata: { tool: 'test' }
+      });
+
+      saveProfile(adapter, 'refs', userScopeInfo, { secretRefs: true });
+      checkProfileCommand('refs');
+
+      const output = consoleMock.getOutput().join('\n');
+      expect(output).toContain('Set these before loading the profile: HOUSE_TEST_TOKEN');
+      expect(output).toContain('${env:HOUSE_TEST_TOKEN}');
+      expect(output).toContain('1 server cannot be loaded yet: github');
+      expect(output).not.toContain('secret-value');
+    });
+
+    it('should resolve references when loading the profile', () => {
+      createTestConfigFile(env.tempDir, {
+        enabled: {
+          'github': mockServer('npx github-server', { env: { 'HOUSE_TEST_TOKEN': 'secret-value' } })
+        },
+        disabled: {
+          'slack': mockServer('npx slack-server', { env: { 'HOUSE_TEST_TOKEN': 'secret-value' } })
+        },
+        metadata: { tool: 'test' }
+      });
+      saveProfile(adapter, 'resolved', userScopeInfo, { secretRefs: true });
+      createTestConfigFile(env.tempDir, { enabled: {}, disabled: {}, metadata: { tool: 'test' } });
+
+      // Nothing is written while a reference cannot be resolved
+      loadProfile(adapter, 'resolved', userScopeInfo);
+      expect(exitMock.getExitCode()).toBe(1);
+      expect(adapter.loadConfig().enabled).toEqual({});
+
+      process.env.HOUSE_TEST_TOKEN = 'resolved-value';
+      try {
+        loadProfile(adapter, 'resolved', userScopeInfo);
+      } finally {
+        delete process.env.HOUSE_TEST_TOKEN;
+      }
+
+      const loaded = adapter.loadConfig();
+      expect(loaded.enabled.github.env).toEqual({ 'HOUSE_TEST_TOKEN': 'resolved-value' });
+      expect(loaded.disabled.slack.env).toEqual({ 'HOUSE_TEST_TOKEN': 'resolved-value' });
+    });
+
+    it('should run command references only with --allow-cmd', () => {
+      const marker = path.join(env.tempDir, 'ran');
+      createTestConfigFile(env.tempDir, {
+        enabled: {
+          'github': mockServer('npx github-server', { env: { 'TOKEN': `\${cmd:touch ${marker} && echo cmd-token}` } })
+        },
+        disabled: {},
+        metadata: { tool: 'test' }
+      });
+      saveProfile(adapter, 'cmd', userScopeInfo);
+      createTestConfigFile(env.tempDir, { enabled: {}, disabled: {}, metadata: { tool: 'test' } });
+
+      checkProfileCommand('cmd');
+      loadProfile(adapter, 'cmd', userScopeInfo);
+
+      expect(fs.existsSync(marker)).toBe(false);
+      expect(consoleMock.getOutput().join('\n')).toContain('commands only run with --allow-cmd');
+      expect(adapter.loadConfig().enabled).toEqual({});
+
+      loadProfile(adapter, 'cmd', userScopeInfo, { allowCmd: true });
+
+      expect(fs.existsSync(marker)).toBe(true);
+      expect(adapter.loadConfig().enabled.github.env).toEqual({ 'TOKEN': 'cmd-token' });
+    });
+
+    it('should refuse to resolve references into shared project files', () => {
+      createTestConfigFile(env.tempDir, {
+        enabled: {
+          'github': mockServer('npx github-server', { env: { 'HOUSE_TEST_TOKEN': 'secret-value' } })
+        },
+        disabled: {},
+        metadata: { tool: 'test' }
+      });
+      saveProfile(adapter, 'shared', userScopeInfo, { secretRefs: true });
+
+      vi.spyOn(adapter, 'supportsProjectScope').mockReturnValue(true);
+      const saveProjectConfig = vi.fn();
+      adapter.saveProjectConfig = saveProjectConfig;
+
+      loadProfile(adapter, 'shared', { scope: 'project', projectPath: env.tempDir, isAutoDetected: false });
+
+      expect(consoleMock.getErrorOutput().join('\n')).toContain('would put secrets in shared project files: github');
+      expect(consoleMock.getOutput().join('\n')).toContain('--scope=local or --scope=user');
+      expect(exitMock.getExitCode()).toBe(1);
+      expect(saveProjectConfig).not.toHaveBeenCalled();
+    });
+
+    it('should warn about secrets saved in plain text', () => {
+      createTestConfigFile(env.tempDir, {
+        enabled: {
+          'github': mockServer('npx github-server', { env: { 'GITHUB_TOKEN': 'secret-value' } })
+        },
+        disabled: {},
+        metadata: { tool: 'test' }
+      });
+
+      saveProfile(adapter, 'plain', userScopeInfo);
+
+      const output = consoleMock.getOutput().join('\n');
+      expect(output).toContain('1 likely secret in plain text');
+      expect(output).toContain('github: env GITHUB_TOKEN');
+      expect(output).not.toContain('secret-value');
+    });
   });
 });
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { MockAdapter, createMockConfig } from '../helpers/mock-adapter.js';
-import { mockServer } from '../helpers/test-utils.js';
+import { mockServer, mockRemoteServer } from '../helpers/test-utils.js';
+import { describeServer, getServerTransport, isRemoteServer } from '../../src/adapters/base.js';
 
 describe('BaseAdapter', () => {
   let adapter: MockAdapter;
@@ -411,4 +412,24 @@ describe('BaseAdapter', () => {
       expect(adapter.getConfigPath()).toBe('/custom/path.json');
     });
   });
+
+  describe('server transports', () => {
+    it('should tell remote servers from stdio servers', () => {
+      expect(isRemoteServer(mockRemoteServer('https://mcp.example.com/mcp'))).toBe(true);
+      expect(isRemoteServer(mockServer('npx'))).toBe(false);
+    });
+
+    it('should normalize tool-specific transport names', () => {
+      expect(getServerTransport(mockServer('npx'))).toBe('stdio');
+      expect(getServerTransport(mockRemoteServer('https://mcp.example.com/sse', { type: 'sse' }))).toBe('sse');
+      expect(getServerTransport(mockRemoteServer('https://mcp.example.com/mcp', { type: 'streamable-http' }))).toBe('http');
+      expect(getServerTransport({ url: 'https://mcp.example.com/mcp' })).toBe('http');
+    });
+
+    it('should describe servers by command line or host', () => {
+      expect(describeServer(mockServer('npx', { args: ['-y', '@modelcontextprotocol/server-github'] })))
+        .toBe('npx -y @modelcontextprotocol/server-github');
+      expect(describeServer(mockRemoteServer('https://mcp.example.com:8443/mcp'))).toBe('mcp.example.com:8443');
+    });
+  });
 });
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import { percentile, median, summarizeTimings, benchServer } from '../../src/utils/bench.js';
+import { timeServerStartup } from '../../src/utils/measure.js';
+import { mockServer } from '../helpers/test-utils.js';
+
+const FAKE_SERVER = path.join(__dirname, '../fixtures/fake-mcp-server.mjs');
+
+describe('median', () => {
+  it('should take the middle sample, or the mean of the middle two', () => {
+    expect(median([300, 100, 200])).toBe(200);
+    expect(median([400, 100, 300, 200])).toBe(250);
+    expect(median([])).toBe(0);
+  });
+});
+
+describe('percentile', () => {
+  it('should use the nearest rank', () => {
+    const samples = Array.from({ length: 20 }, (_, i) => (i + 1) * 100);
+
+    expect(percentile(samples, 95)).toBe(1900);
+    expect(percentile(samples, 100)).toBe(2000);
+    expect(percentile([500, 100, 12000], 95)).toBe(12000);
+    expect(percentile([42], 95)).toBe(42);
+  });
+});
+
+describe('summarizeTimings', () => {
+  it('should summarize samples', () => {
+    expect(summarizeTimings([100, 300, 200])).toEqual({ median: 200, p95: 300, min: 100, max: 300 });
+  });
+
+  it('should return null without samples', () => {
+    expect(summarizeTimings([])).toBeNull();
+  });
+});
+
+describe('timeServerStartup', () => {
+  it('should time the handshake and tools/list from launch', async () => {
+    const timing = await timeServerStartup(mockServer(process.execPath, { args: [FAKE_SERVER] }));
+
+    expect(timing.initializeMs).toBeGreaterThan(0);
+    expect(timing.toolsListMs).toBeGreaterThanOrEqual(timing.initializeMs);
+  }, 20000);
+});
+
+describe('benchServer', () => {
+  it('should start the server once per run', async () => {
+    const runs: number[] = [];
+    const result = await benchServer(mockServer(process.execPath, { args: [FAKE_SERVER] }), {
+      runs: 2,
+      onRun: run => runs.push(run)
+    });
+
+    expect(runs).toEqual([1, 2]);
+    expect(result.runs).toBe(2);
+    expect(result.failures).toBe(0);
+    expect(result.initialize?.median).toBeGreaterThan(0);
+    expect(result.toolsList!.p95).toBeGreaterThanOrEqual(result.toolsList!.median);
+  }, 30000);
+
+  it('should count failed runs without timing them', async () => {
+    const result = await benchServer(mockServer(process.execPath, { args: ['-e', 'process.exit(1)'] }), { runs: 2 });
+
+    expect(result.runs).toBe(0);
+    expect(result.failures).toBe(2);
+    expect(result.initialize).toBeNull();
+    expect(result.lastError).toBeDefined();
+  }, 30000);
+});
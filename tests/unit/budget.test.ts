@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fitServers, getBudgetPath, loadBudget, saveBudget, type FitCandidate } from '../../src/utils/budget.js';
+import { parseTokenAmount } from '../../src/utils/tokens.js';
+import { createTempDir, cleanupTempDir } from '../helpers/test-utils.js';
+
+function candidate(name: string, tokens: number, priority = 1, enabled = true): FitCandidate {
+  return { name, tokens, priority, enabled };
+}
+
+describe('fitServers', () => {
+  it('should keep the most servers that fit when priorities are equal', () => {
+    const selected = fitServers([
+      candidate('github', 15000),
+      candidate('notion', 35000),
+      candidate('time', 1000),
+      candidate('context7', 2000, 1, false)
+    ], 20000);
+
+    expect(selected).toEqual(['github', 'time', 'context7']);
+  });
+
+  it('should prefer higher priorities over more servers', () => {
+    const selected = fitServers([
+      candidate('notion', 28000, 5),
+      candidate('github', 15000),
+      candidate('slack', 8000),
+      candidate('time', 1000)
+    ], 30000);
+
+    expect(selected).toEqual(['notion', 'time']);
+  });
+
+  it('should keep enabled servers when the choice is otherwise equal', () => {
+    expect(fitServers([candidate('fetch', 2000, 1, false), candidate('time', 2000)], 3000)).toEqual(['time']);
+  });
+
+  it('should never enable servers with priority 0', () => {
+    expect(fitServers([candidate('everything', 1000, 0, false), candidate('old', 1000, 0)], 10000)).toEqual(['old']);
+  });
+
+  it('should stay within large budgets', () => {
+    const candidates = Array.from({ length: 30 }, (_, i) => candidate(`server-${i}`, 10001 + i * 997));
+    const selected = fitServers(candidates, 1000000);
+    const used = candidates.filter(c => selected.includes(c.name)).reduce((total, c) => total + c.tokens, 0);
+
+    expect(used).toBeLessThanOrEqual(1000000);
+    expect(selected.length).toBeGreaterThan(20);
+  });
+});
+
+describe('budget settings', () => {
+  let tempDir: string;
+  let homedirSpy: any;
+
+  beforeEach(() => {
+    tempDir = createTempDir('budget-test-');
+    homedirSpy = vi.spyOn(os, 'homedir').mockReturnValue(tempDir);
+  });
+
+  afterEach(() => {
+    homedirSpy.mockRestore();
+    cleanupTempDir(tempDir);
+  });
+
+  it('should keep one budget per user and one per project', () => {
+    const user = { scope: 'user' as const, isAutoDetected: false };
+    const project = { scope: 'project' as const, projectPath: path.join(tempDir, 'app'), isAutoDetected: false };
+    const local = { ...project, scope: 'local' as const };
+
+    expect(loadBudget(user)).toEqual({ priorities: {} });
+
+    saveBudget(user, { budget: 50000, priorities: {} });
+    saveBudget(project, { budget: 30000, priorities: { github: 3 } });
+
+    expect(getBudgetPath(project)).toBe(path.join(tempDir, 'app', '.mcp-budget.json'));
+    expect(loadBudget(user).budget).toBe(50000);
+    expect(loadBudget(local)).toEqual({ budget: 30000, priorities: { github: 3 } });
+  });
+
+  it('should report unreadable budget files', () => {
+    fs.writeFileSync(path.join(tempDir, '.claude-mcp-budget.json'), '{ nope');
+    expect(() => loadBudget({ scope: 'user', isAutoDetected: false })).toThrow('Could not read budget');
+  });
+
+  it('should parse token amounts', () => {
+    expect(parseTokenAmount('30000')).toBe(30000);
+    expect(parseTokenAmount('30,000')).toBe(30000);
+    expect(parseTokenAmount('30k')).toBe(30000);
+    expect(parseTokenAmount('1.5M')).toBe(1500000);
+    expect(parseTokenAmount('lots')).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  addCatalogEntry,
+  findCatalogEntry,
+  getCatalogPath,
+  loadCatalog,
+  readCatalog,
+  removeCatalogEntry,
+  useProjectCatalog
+} from '../../src/utils/catalog.js';
+import { estimateServerTokens, estimateServerTools } from '../../src/utils/tokens.js';
+import { createTempDir, cleanupTempDir, mockServer, mockRemoteServer } from '../helpers/test-utils.js';
+
+describe('known servers catalog', () => {
+  let homeDir: string;
+  let projectDir: string;
+  let homedirSpy: any;
+
+  beforeEach(() => {
+    homeDir = createTempDir('catalog-home-');
+    projectDir = createTempDir('catalog-project-');
+    homedirSpy = vi.spyOn(os, 'homedir').mockReturnValue(homeDir);
+    useProjectCatalog(projectDir);
+  });
+
+  afterEach(() => {
+    useProjectCatalog(undefined);
+    homedirSpy.mockRestore();
+    cleanupTempDir(homeDir);
+    cleanupTempDir(projectDir);
+  });
+
+  it('should fall back to the built-in entries', () => {
+    expect(findCatalogEntry('github-enterprise', mockServer('npx'))).toMatchObject({ name: 'github', layer: 'builtin' });
+    expect(findCatalogEntry('jira', mockServer('npx'))).toBeNull();
+  });
+
+  it('should match user entries by exact name, pattern or command', () => {
+    addCatalogEntry('user', 'jira', { tokens: 12000, tools: 15 });
+    addCatalogEntry('user', 'confluence', { tokens: 9000, tools: 9, pattern: '^(wiki|confluence)' });
+    addCatalogEntry('user', 'acme-tickets', { tokens: 4000, tools: 4, command: '@acme/tickets-mcp' });
+
+    expect(estimateServerTokens('jira', mockServer('node'))).toBe(12000);
+    expect(estimateServerTools('jira', mockServer('node'))).toBe(15);
+    // Names without a pattern only match exactly
+    expect(findCatalogEntry('jira-cloud', mockServer('node'))).toBeNull();
+    expect(estimateServerTokens('wiki-prod', mockServer('node'))).toBe(9000);
+    expect(estimateServerTokens('tickets', mockServer('npx', { args: ['-y', '@acme/tickets-mcp'] }))).toBe(4000);
+    expect(findCatalogEntry('tickets', mockRemoteServer('https://mcp.acme.dev/@acme/tickets-mcp'))?.name).toBe('acme-tickets');
+  });
+
+  it('should let user entries override built-in ones and project entries override both', () => {
+    addCatalogEntry('user', 'github', { tokens: 6000, tools: 30 });
+    expect(estimateServerTokens('github', mockServer('npx'))).toBe(6000);
+    // The built-in substring match is replaced too
+    expect(findCatalogEntry('github-enterprise', mockServer('npx'))).toBeNull();
+
+    addCatalogEntry('project', 'github', { tokens: 2500, tools: 8 });
+    expect(estimateServerTokens('github', mockServer('npx'))).toBe(2500);
+    expect(loadCatalog().filter(entry => entry.name === 'github')).toHaveLength(1);
+  });
+
+  it('should read the catalog files once for repeated lookups', () => {
+    addCatalogEntry('user', 'jira', { tokens: 12000, tools: 15 });
+    const readSpy = vi.spyOn(fs, 'readFileSync');
+
+    try {
+      ['jira', 'github', 'notion', 'wiki'].forEach(name => findCatalogEntry(name, mockServer('npx')));
+      expect(readSpy.mock.calls.filter(([file]) => String(file).endsWith('catalog.json'))).toHaveLength(1);
+    } finally {
+      readSpy.mockRestore();
+    }
+
+    // Writing through the catalog functions picks up the change
+    addCatalogEntry('user', 'jira', { tokens: 8000, tools: 10 });
+    expect(estimateServerTokens('jira', mockServer('node'))).toBe(8000);
+  });
+
+  it('should add and remove entries in the catalog files', () => {
+    const filePath = addCatalogEntry('project', 'jira', { tokens: 12000, tools: 15 });
+
+    expect(filePath).toBe(path.join(projectDir, '.mcp-catalog.json'));
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf-8'))).toEqual({ jira: { tokens: 12000, tools: 15 } });
+    expect(fs.existsSync(getCatalogPath('user'))).toBe(false);
+
+    expect(removeCatalogEntry('project', 'jira')).toBe(true);
+    expect(removeCatalogEntry('project', 'jira')).toBe(false);
+    expect(readCatalog('project')).toEqual({});
+  });
+
+  it('should reject invalid entries', () => {
+    fs.writeFileSync(getCatalogPath('user'), JSON.stringify({ jira: { tokens: 'lots', tools: 1 } }));
+    expect(() => loadCatalog()).toThrow('Invalid catalog entry "jira"');
+
+    fs.writeFileSync(getCatalogPath('user'), '{}');
+    expect(() => addCatalogEntry('user', 'bad', { tokens: 1, tools: 1, pattern: '(' })).toThrow('Invalid catalog entry "bad"');
+    expect(readCatalog('user')).toEqual({});
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { ClaudeAdapter } from '../../src/adapters/claude.js';
+import { resolveScopeInfo } from '../../src/utils/scope.js';
+import { planServerSelection, applyServerSelection } from '../../src/utils/selection.js';
+import { createTempDir, cleanupTempDir, mockServer } from '../helpers/test-utils.js';
+
+// Test-friendly subclass that allows path overriding
+class TestClaudeAdapter extends ClaudeAdapter {
+  constructor(configPath: string, backupDir: string) {
+    super();
+    this.configPath = configPath;
+    this.backupDir = backupDir;
+  }
+}
+
+describe('ClaudeAdapter scopes', () => {
+  let adapter: TestClaudeAdapter;
+  let tempDir: string;
+  let configPath: string;
+  let projectDir: string;
+  let mcpJsonPath: string;
+  let mcpJsonRaw: string;
+
+  const readJson = (filePath: string) => JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const projectEntry = () => readJson(configPath).projects[projectDir];
+
+  beforeEach(() => {
+    tempDir = createTempDir('claude-test-');
+    configPath = path.join(tempDir, '.claude.json');
+    projectDir = path.join(tempDir, 'project');
+    mcpJsonPath = path.join(projectDir, '.mcp.json');
+    fs.mkdirSync(projectDir);
+
+    fs.writeFileSync(configPath, JSON.stringify({
+      numStartups: 12,
+      mcpServers: {
+        github: mockServer('npx', { args: ['-y', '@modelcontextprotocol/server-github'] }),
+        time: mockServer('uvx', { args: ['mcp-server-time'] })
+      },
+      projects: {
+        [projectDir]: {
+          allowedTools: ['Bash(npm test)'],
+          mcpServers: {
+            scratch: mockServer('node', { args: ['scratch-server.js'] })
+          }
+        }
+      }
+    }, null, 2));
+
+    mcpJsonRaw = JSON.stringify({
+      mcpServers: {
+        postgres: mockServer('npx', { args: ['-y', '@modelcontextprotocol/server-postgres'] }),
+        time: mockServer('uvx', { args: ['mcp-server-time', '--local-timezone=UTC'] })
+      }
+    }, null, 2);
+    fs.writeFileSync(mcpJsonPath, mcpJsonRaw);
+
+    adapter = new TestClaudeAdapter(configPath, path.join(tempDir, 'backups'));
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  it('should merge user, project and local layers and record each source', () => {
+    const merged = adapter.getMergedConfig(projectDir);
+
+    expect(merged.scope).toBe('project');
+    expect(merged.inheritance).toEqual({
+      inherited: ['github'],
+      overridden: ['time'],
+      additions: ['postgres', 'scratch'],
+      sources: { github: 'user', time: 'project', postgres: 'project', scratch: 'local' }
+    });
+    expect(merged.enabled.time.args).toContain('--local-timezone=UTC');
+    expect(adapter.getMergedConfig(projectDir, 'local').scope).toBe('local');
+  });
+
+  it('should load each project-level layer separately', () => {
+    expect(Object.keys(adapter.loadProjectConfig(projectDir, 'project')!.enabled)).toEqual(['postgres', 'time']);
+    expect(Object.keys(adapter.loadProjectConfig(projectDir, 'local')!.enabled)).toEqual(['scratch']);
+  });
+
+  it('should disable .mcp.json servers without editing the committed file', () => {
+    const projectConfig = adapter.loadProjectConfig(projectDir, 'project')!;
+    adapter.saveProjectConfig(projectDir, adapter.disableServer(projectConfig, 'postgres'), 'project');
+
+    expect(fs.readFileSync(mcpJsonPath, 'utf-8')).toBe(mcpJsonRaw);
+    expect(projectEntry().disabledMcpjsonServers).toEqual(['postgres']);
+    expect(projectEntry().disabledMcpServers).toBeUndefined();
+    expect(projectEntry().allowedTools).toEqual(['Bash(npm test)']);
+
+    const merged = adapter.getMergedConfig(projectDir);
+    expect(merged.enabled).not.toHaveProperty('postgres');
+    expect(merged.disabled.postgres.command).toBe('npx');
+  });
+
+  it('should approve .mcp.json servers when re-enabling them', () => {
+    const projectConfig = adapter.loadProjectConfig(projectDir, 'project')!;
+    adapter.saveProjectConfig(projectDir, adapter.disableServer(projectConfig, 'postgres'), 'project');
+
+    const reloaded = adapter.loadProjectConfig(projectDir, 'project')!;
+    adapter.saveProjectConfig(projectDir, adapter.enableServer(reloaded, 'postgres'), 'project');
+
+    expect(fs.readFileSync(mcpJsonPath, 'utf-8')).toBe(mcpJsonRaw);
+    expect(projectEntry().disabledMcpjsonServers).toEqual([]);
+    expect(projectEntry().enabledMcpjsonServers).toEqual(['postgres']);
+    expect(adapter.getMergedConfig(projectDir).enabled).toHaveProperty('postgres');
+  });
+
+  it('should disable user servers for one project at local scope', () => {
+    const localConfig = adapter.loadProjectConfig(projectDir, 'local')!;
+    localConfig.disabled.github = adapter.loadConfig().enabled.github;
+    adapter.saveProjectConfig(projectDir, localConfig, 'local');
+
+    expect(projectEntry().disabledMcpServers).toEqual(['github']);
+    // Only servers defined at local scope are written to the project entry
+    expect(Object.keys(projectEntry().mcpServers)).toEqual(['scratch']);
+    expect(readJson(configPath).mcpServers).toHaveProperty('github');
+
+    const merged = adapter.getMergedConfig(projectDir, 'local');
+    expect(merged.enabled).not.toHaveProperty('github');
+    expect(merged.disabled).toHaveProperty('github');
+  });
+
+  it('should keep disabled names that no layer defines', () => {
+    const settings = readJson(configPath);
+    settings.projects[projectDir].disabledMcpServers = ['retired-server'];
+    fs.writeFileSync(configPath, JSON.stringify(settings, null, 2));
+
+    const localConfig = adapter.loadProjectConfig(projectDir, 'local')!;
+    expect(localConfig.disabled).toEqual({});
+
+    adapter.saveProjectConfig(projectDir, adapter.disableServer(localConfig, 'scratch'), 'local');
+    expect(projectEntry().disabledMcpServers).toEqual(['scratch', 'retired-server']);
+  });
+
+  it('should write new servers added at project scope to .mcp.json', () => {
+    const projectConfig = adapter.loadProjectConfig(projectDir, 'project')!;
+    projectConfig.enabled.puppeteer = mockServer('npx', { args: ['-y', '@modelcontextprotocol/server-puppeteer'] });
+    adapter.saveProjectConfig(projectDir, projectConfig, 'project');
+
+    expect(Object.keys(readJson(mcpJsonPath).mcpServers)).toEqual(['postgres', 'time', 'puppeteer']);
+    expect(projectEntry().mcpServers).toHaveProperty('scratch');
+  });
+
+  it('should never run or resolve references found in .mcp.json', () => {
+    const marker = path.join(tempDir, 'ran');
+    const raw = JSON.stringify({
+      mcpServers: {
+        postgres: mockServer('npx', { args: ['-y', '@modelcontextprotocol/server-postgres'] }),
+        shared: mockServer('npx', { env: { TOKEN: `\${cmd:touch ${marker}}`, HOME_DIR: '${env:HOME}' } })
+      }
+    }, null, 2);
+    fs.writeFileSync(mcpJsonPath, raw);
+
+    const projectConfig = adapter.loadProjectConfig(projectDir, 'project')!;
+    adapter.saveProjectConfig(projectDir, adapter.disableServer(projectConfig, 'postgres'), 'project');
+
+    expect(fs.existsSync(marker)).toBe(false);
+    expect(fs.readFileSync(mcpJsonPath, 'utf-8')).toBe(raw);
+  });
+
+  it('should keep local servers out of .mcp.json when applying a selection at project scope', () => {
+    const scopeInfo = { scope: 'project' as const, projectPath: projectDir, isAutoDetected: false };
+    const merged = adapter.getMergedConfig(projectDir);
+    const selected = new Set(['scratch', 'postgres', 'time']);
+
+    applyServerSelection(adapter, scopeInfo, merged, selected, planServerSelection(adapter, merged, selected));
+
+    expect(fs.readFileSync(mcpJsonPath, 'utf-8')).toBe(mcpJsonRaw);
+    expect(projectEntry().mcpServers).toHaveProperty('scratch');
+    expect(projectEntry().disabledMcpServers).toEqual(['github']);
+    expect(adapter.getMergedConfig(projectDir).enabled).toHaveProperty('scratch');
+  });
+
+  it('should auto-detect project scope from .mcp.json', () => {
+    const nested = path.join(projectDir, 'src');
+    fs.mkdirSync(nested);
+
+    expect(resolveScopeInfo('auto', nested, adapter)).toEqual({
+      scope: 'project',
+      projectPath: projectDir,
+      isAutoDetected: true
+    });
+    expect(resolveScopeInfo('local', projectDir, adapter).scope).toBe('local');
+  });
+});
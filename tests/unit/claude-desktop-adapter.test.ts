@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { ClaudeDesktopAdapter } from '../../src/adapters/claude-desktop.js';
+import { createTempDir, cleanupTempDir, mockServer } from '../helpers/test-utils.js';
+
+// Test-friendly subclass that allows path overriding
+class TestClaudeDesktopAdapter extends ClaudeDesktopAdapter {
+  constructor(configPath: string, backupDir: string) {
+    super();
+    this.configPath = configPath;
+    this.backupDir = backupDir;
+  }
+}
+
+describe('ClaudeDesktopAdapter', () => {
+  let adapter: TestClaudeDesktopAdapter;
+  let tempDir: string;
+  let configPath: string;
+  let backupDir: string;
+
+  beforeEach(() => {
+    tempDir = createTempDir('claude-desktop-test-');
+    const claudeDir = path.join(tempDir, '.config', 'Claude');
+    fs.mkdirSync(claudeDir, { recursive: true });
+
+    configPath = path.join(claudeDir, 'claude_desktop_config.json');
+    backupDir = path.join(tempDir, '.claude-mcp-backups', 'claude-desktop');
+
+    adapter = new TestClaudeDesktopAdapter(configPath, backupDir);
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  it('should have a distinct name and id', () => {
+    expect(adapter.name).toBe('Claude Desktop');
+    expect(adapter.id).toBe('claude-desktop');
+    expect(adapter.supportsProjectScope()).toBe(false);
+  });
+
+  describe('detect', () => {
+    it('should return false when the config does not exist', () => {
+      expect(adapter.detect()).toBe(false);
+    });
+
+    it('should return false for invalid JSON', () => {
+      fs.writeFileSync(configPath, '{ invalid json }');
+      expect(adapter.detect()).toBe(false);
+    });
+
+    it('should return true for a JSON object', () => {
+      fs.writeFileSync(configPath, JSON.stringify({ mcpServers: {} }));
+      expect(adapter.detect()).toBe(true);
+    });
+  });
+
+  describe('enable/disable', () => {
+    beforeEach(() => {
+      fs.writeFileSync(configPath, JSON.stringify({
+        mcpServers: {
+          github: mockServer('npx github-server'),
+          filesystem: mockServer('npx filesystem-server')
+        },
+        globalShortcut: 'Ctrl+Space'
+      }, null, 2));
+    });
+
+    it('should load servers with its own tool id', () => {
+      const config = adapter.loadConfig();
+
+      expect(Object.keys(config.enabled)).toEqual(['github', 'filesystem']);
+      expect(config.metadata?.tool).toBe('claude-desktop');
+    });
+
+    it('should move disabled servers to _disabled_mcpServers', () => {
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'github'));
+
+      const saved = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      expect(Object.keys(saved.mcpServers)).toEqual(['filesystem']);
+      expect(saved._disabled_mcpServers.github.command).toBe('npx github-server');
+      expect(saved.globalShortcut).toBe('Ctrl+Space');
+    });
+
+    it('should back up with the claude-desktop prefix', () => {
+      adapter.saveConfig(adapter.loadConfig());
+
+      const backups = fs.readdirSync(backupDir);
+      expect(backups.length).toBe(1);
+      expect(backups[0]).toMatch(/^claude-desktop-.*\.json$/);
+    });
+  });
+});
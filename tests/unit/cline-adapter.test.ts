@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { ClineAdapter } from '../../src/adapters/cline.js';
+import { createTempDir, cleanupTempDir, mockServer } from '../helpers/test-utils.js';
+
+// Test-friendly subclass that allows path overriding
+class TestClineAdapter extends ClineAdapter {
+  constructor(settingsPath: string, nativeConfigPath: string, backupDir: string) {
+    super();
+    this.settingsPath = settingsPath;
+    this.nativeConfigPath = nativeConfigPath;
+    this.backupDir = backupDir;
+  }
+}
+
+describe('ClineAdapter', () => {
+  let adapter: TestClineAdapter;
+  let tempDir: string;
+  let settingsPath: string;
+  let nativeConfigPath: string;
+  let backupDir: string;
+
+  beforeEach(() => {
+    tempDir = createTempDir('cline-test-');
+    const userDir = path.join(tempDir, 'Code', 'User');
+    const nativeDir = path.join(userDir, 'globalStorage', 'saoudrizwan.claude-dev', 'settings');
+    fs.mkdirSync(nativeDir, { recursive: true });
+
+    settingsPath = path.join(userDir, 'settings.json');
+    nativeConfigPath = path.join(nativeDir, 'cline_mcp_settings.json');
+    backupDir = path.join(tempDir, '.claude-mcp-backups', 'cline');
+
+    adapter = new TestClineAdapter(settingsPath, nativeConfigPath, backupDir);
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  describe('native cline_mcp_settings.json', () => {
+    beforeEach(() => {
+      fs.writeFileSync(nativeConfigPath, JSON.stringify({
+        mcpServers: {
+          github: mockServer('npx', { args: ['-y', '@modelcontextprotocol/server-github'], autoApprove: ['list_issues'] }),
+          notion: mockServer('npx', { args: ['-y', '@notionhq/notion-mcp-server'], disabled: true }),
+          time: mockServer('uvx', { args: ['mcp-server-time'], disabled: false })
+        }
+      }, null, 2));
+    });
+
+    it('should detect and prefer the native settings file', () => {
+      fs.writeFileSync(settingsPath, JSON.stringify({ 'cline.mcpServers': {} }));
+
+      expect(adapter.detect()).toBe(true);
+      expect(adapter.getConfigPath()).toBe(nativeConfigPath);
+    });
+
+    it('should split servers on the disabled flag', () => {
+      const config = adapter.loadConfig();
+
+      expect(Object.keys(config.enabled)).toEqual(['github', 'time']);
+      expect(Object.keys(config.disabled)).toEqual(['notion']);
+      expect(config.metadata?.nativeSettings).toBe(true);
+    });
+
+    it('should toggle the disabled flag instead of moving servers', () => {
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'github'));
+
+      const saved = JSON.parse(fs.readFileSync(nativeConfigPath, 'utf-8'));
+      expect(Object.keys(saved.mcpServers)).toEqual(['github', 'notion', 'time']);
+      expect(saved.mcpServers.github.disabled).toBe(true);
+      expect(saved.mcpServers.github.autoApprove).toEqual(['list_issues']);
+      expect(saved).not.toHaveProperty('cline._disabled_mcpServers');
+    });
+
+    it('should clear the flag when enabling', () => {
+      adapter.saveConfig(adapter.enableServer(adapter.loadConfig(), 'notion'));
+
+      const saved = JSON.parse(fs.readFileSync(nativeConfigPath, 'utf-8'));
+      expect(saved.mcpServers.notion.disabled).toBeUndefined();
+      expect(saved.mcpServers.time.disabled).toBe(false);
+    });
+
+    it('should not touch VS Code settings.json', () => {
+      fs.writeFileSync(settingsPath, JSON.stringify({ 'editor.fontSize': 14 }));
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'github'));
+
+      expect(JSON.parse(fs.readFileSync(settingsPath, 'utf-8'))).toEqual({ 'editor.fontSize': 14 });
+    });
+  });
+
+  describe('VS Code settings.json fallback', () => {
+    beforeEach(() => {
+      fs.writeFileSync(settingsPath, JSON.stringify({
+        'editor.fontSize': 14,
+        'cline.mcpServers': {
+          github: mockServer('npx github-server')
+        }
+      }, null, 2));
+    });
+
+    it('should use settings.json when the native file is missing', () => {
+      expect(adapter.detect()).toBe(true);
+      expect(adapter.getConfigPath()).toBe(settingsPath);
+      expect(adapter.loadConfig().metadata?.vscodeSettings).toBe(true);
+    });
+
+    it('should keep using the namespaced disabled key', () => {
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'github'));
+
+      const saved = JSON.parse(fs.readFileSync(settingsPath, 'utf-8'));
+      expect(saved['cline.mcpServers']).toEqual({});
+      expect(saved['cline._disabled_mcpServers'].github.command).toBe('npx github-server');
+      expect(saved['editor.fontSize']).toBe(14);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { CodexAdapter } from '../../src/adapters/codex.js';
+import { extractTables, parseTableHeader } from '../../src/utils/toml.js';
+import { createTempDir, cleanupTempDir } from '../helpers/test-utils.js';
+
+// Test-friendly subclass that allows path overriding
+class TestCodexAdapter extends CodexAdapter {
+  constructor(configPath: string, disabledConfigPath: string, backupDir: string) {
+    super();
+    this.configPath = configPath;
+    this.disabledConfigPath = disabledConfigPath;
+    this.backupDir = backupDir;
+  }
+}
+
+const CONFIG_TOML = `# Codex settings
+model = "o4-mini"
+approval_policy = "on-request"
+
+# GitHub tools
+[mcp_servers.github]
+command = "npx"
+args = ["-y", "@modelcontextprotocol/server-github"]
+
+[mcp_servers.github.env]
+GITHUB_TOKEN = "ghp_test"
+
+[mcp_servers."docs.internal"]
+command = "docs-server"
+args = []
+
+# Sandbox settings stay put
+[sandbox_workspace_write]
+network_access = false
+`;
+
+describe('CodexAdapter', () => {
+  let adapter: TestCodexAdapter;
+  let tempDir: string;
+  let configPath: string;
+  let disabledConfigPath: string;
+
+  beforeEach(() => {
+    tempDir = createTempDir('codex-test-');
+    configPath = path.join(tempDir, 'config.toml');
+    disabledConfigPath = path.join(tempDir, 'mcp-disabled.toml');
+    fs.writeFileSync(configPath, CONFIG_TOML);
+
+    adapter = new TestCodexAdapter(configPath, disabledConfigPath, path.join(tempDir, 'backups'));
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  it('should detect a config with mcp_servers', () => {
+    expect(adapter.detect()).toBe(true);
+
+    fs.writeFileSync(configPath, 'model = "o4-mini"\n');
+    expect(adapter.detect()).toBe(false);
+  });
+
+  it('should load servers from TOML tables', () => {
+    const config = adapter.loadConfig();
+
+    expect(Object.keys(config.enabled)).toEqual(['github', 'docs.internal']);
+    expect(config.enabled.github).toEqual({
+      command: 'npx',
+      args: ['-y', '@modelcontextprotocol/server-github'],
+      env: { GITHUB_TOKEN: 'ghp_test' }
+    });
+    expect(config.disabled).toEqual({});
+  });
+
+  it('should move disabled servers to the sidecar file and keep the rest intact', () => {
+    adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'github'));
+
+    const saved = fs.readFileSync(configPath, 'utf-8');
+    expect(saved).not.toContain('[mcp_servers.github]');
+    expect(saved).not.toContain('# GitHub tools');
+    expect(saved).toContain('# Codex settings\nmodel = "o4-mini"');
+    expect(saved).toContain('# Sandbox settings stay put\n[sandbox_workspace_write]\nnetwork_access = false');
+    expect(saved).toContain('[mcp_servers."docs.internal"]');
+
+    // The original table text (including its comment) moves to the sidecar
+    const disabled = fs.readFileSync(disabledConfigPath, 'utf-8');
+    expect(disabled).toContain('# GitHub tools\n[mcp_servers.github]');
+    expect(disabled).toContain('[mcp_servers.github.env]\nGITHUB_TOKEN = "ghp_test"');
+
+    const config = adapter.loadConfig();
+    expect(Object.keys(config.enabled)).toEqual(['docs.internal']);
+    expect(config.disabled.github.env).toEqual({ GITHUB_TOKEN: 'ghp_test' });
+  });
+
+  it('should round-trip a disable and enable without changing the file', () => {
+    adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'docs.internal'));
+    adapter.saveConfig(adapter.enableServer(adapter.loadConfig(), 'docs.internal'));
+
+    const saved = fs.readFileSync(configPath, 'utf-8');
+    expect(saved).toContain('[mcp_servers."docs.internal"]\ncommand = "docs-server"');
+    expect(saved).toContain('[sandbox_workspace_write]');
+    expect(fs.existsSync(disabledConfigPath)).toBe(false);
+    expect(Object.keys(adapter.loadConfig().enabled).sort()).toEqual(['docs.internal', 'github']);
+  });
+
+  it('should rewrite changed servers and append new ones', () => {
+    const config = adapter.loadConfig();
+    config.enabled.github = { ...config.enabled.github, args: ['-y', 'github-mcp'] };
+    config.enabled.postgres = { command: 'postgres-mcp', args: [], env: { DB_URL: 'postgres://localhost' } };
+    adapter.saveConfig(config);
+
+    const saved = fs.readFileSync(configPath, 'utf-8');
+    expect(saved).toContain('args = [ "-y", "github-mcp" ]');
+    expect(saved.indexOf('[mcp_servers.github]')).toBeLessThan(saved.indexOf('[sandbox_workspace_write]'));
+    expect(saved.indexOf('[mcp_servers.postgres]')).toBeGreaterThan(saved.indexOf('[sandbox_workspace_write]'));
+    expect(adapter.loadConfig().enabled.postgres.env).toEqual({ DB_URL: 'postgres://localhost' });
+  });
+
+  it('should reject servers defined inline', () => {
+    fs.writeFileSync(configPath, 'mcp_servers = { github = { command = "npx" } }\n');
+
+    expect(() => adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'github'))).toThrow(/Inline mcp_servers/);
+    // Restored from backup
+    expect(fs.readFileSync(configPath, 'utf-8')).toContain('mcp_servers = {');
+  });
+
+  it('should create a backup with a .toml extension', () => {
+    const backupPath = adapter.createBackup();
+
+    expect(backupPath.endsWith('.toml')).toBe(true);
+    expect(fs.readFileSync(backupPath, 'utf-8')).toBe(CONFIG_TOML);
+  });
+});
+
+describe('TOML table helpers', () => {
+  it('should parse quoted header keys', () => {
+    expect(parseTableHeader('[mcp_servers."my.server"]')).toEqual(['mcp_servers', 'my.server']);
+    expect(parseTableHeader('[[profiles]]')).toEqual(['profiles']);
+    expect(parseTableHeader('args = ["[not a header]"]')).toBeNull();
+  });
+
+  it('should ignore header-like lines inside multi-line strings', () => {
+    const raw = '[mcp_servers.a]\ncommand = "a"\ndescription = """\n[mcp_servers.b]\n"""\n';
+
+    expect([...extractTables(raw, 'mcp_servers').keys()]).toEqual(['a']);
+  });
+});
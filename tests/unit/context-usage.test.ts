@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { parseContextUsage } from '../../src/utils/context-usage.js';
+
+const CONTEXT_OUTPUT = `
+ ⎿  Context Usage
+     ⛁ ⛀ ⛁ ⛁ ⛁ ⛁ ⛁ ⛁ ⛀ ⛀   claude-sonnet-4-5 · 58k/200k tokens (29%)
+                           ⛁ System prompt: 3.1k tokens (1.6%)
+                           ⛁ MCP tools: 9.9k tokens (5.0%)
+
+     MCP tools · /mcp
+     └ mcp__github__create_issue (github): 1.2k tokens
+     └ mcp__github__get_issue (github): 650 tokens
+     └ mcp__brave_search__brave_web_search (brave-search): 1,034 tokens
+     └ mcp__jira__search (jira): 7k tokens
+
+     Memory files · /memory
+     └ Project (/work/CLAUDE.md): 1.1k tokens
+`;
+
+describe('parseContextUsage', () => {
+  it('should total the tool lines per server', () => {
+    const usage = parseContextUsage(CONTEXT_OUTPUT);
+
+    expect(Object.keys(usage)).toEqual(['github', 'brave-search', 'jira']);
+    expect(usage.github).toEqual({
+      tokens: 1850,
+      tools: 2,
+      toolTokens: { create_issue: 1200, get_issue: 650 }
+    });
+    expect(usage['brave-search'].tokens).toBe(1034);
+    expect(usage.jira.tokens).toBe(7000);
+  });
+
+  it('should fall back to the server in the tool prefix', () => {
+    const usage = parseContextUsage('mcp__my_server__do_thing: 300 tokens');
+
+    expect(usage).toEqual({ my_server: { tokens: 300, tools: 1, toolTokens: { do_thing: 300 } } });
+  });
+
+  it('should count a repeated tool once', () => {
+    const usage = parseContextUsage('mcp__time__now (time): 100 tokens\nmcp__time__now (time): 120 tokens');
+
+    expect(usage.time).toEqual({ tokens: 120, tools: 1, toolTokens: { now: 120 } });
+  });
+
+  it('should ignore text without MCP tool lines', () => {
+    expect(parseContextUsage('System prompt: 3.1k tokens')).toEqual({});
+  });
+});
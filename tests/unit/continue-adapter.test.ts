@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { ContinueAdapter, deriveServerName } from '../../src/adapters/continue.js';
+import { createTempDir, cleanupTempDir, mockServer } from '../helpers/test-utils.js';
+
+// Test-friendly subclass that allows path overriding
+class TestContinueAdapter extends ContinueAdapter {
+  constructor(continueDir: string, backupDir: string) {
+    super();
+    this.yamlConfigPath = path.join(continueDir, 'config.yaml');
+    this.jsonConfigPath = path.join(continueDir, 'config.json');
+    this.disabledConfigPath = path.join(continueDir, 'mcp-disabled.json');
+    this.backupDir = backupDir;
+  }
+}
+
+const YAML_CONFIG = `name: My Config
+version: 0.0.1
+schema: v1
+
+models:
+  - name: Claude
+    provider: anthropic
+
+# MCP servers used by the agent
+mcpServers:
+  - name: github
+    command: npx
+    args:
+      - -y
+      - "@modelcontextprotocol/server-github"
+    env:
+      GITHUB_TOKEN: test-token
+  # local sqlite database
+  - name: sqlite
+    command: uvx
+    args: [mcp-server-sqlite, --db-path, ./test.db]
+`;
+
+const JSON_CONFIG = {
+  models: [{ title: 'Claude', provider: 'anthropic' }],
+  experimental: {
+    useTools: true,
+    modelContextProtocolServers: [
+      { transport: { type: 'stdio', command: 'uvx', args: ['mcp-server-sqlite', '--db-path', './test.db'] } },
+      { transport: { type: 'stdio', command: 'npx', args: ['-y', '@modelcontextprotocol/server-github'] } }
+    ]
+  }
+};
+
+describe('ContinueAdapter', () => {
+  let adapter: TestContinueAdapter;
+  let tempDir: string;
+  let continueDir: string;
+  let backupDir: string;
+
+  beforeEach(() => {
+    tempDir = createTempDir('continue-test-');
+    continueDir = path.join(tempDir, '.continue');
+    fs.mkdirSync(continueDir, { recursive: true });
+    backupDir = path.join(tempDir, '.claude-mcp-backups', 'continue');
+
+    adapter = new TestContinueAdapter(continueDir, backupDir);
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  describe('detect', () => {
+    it('should return false when no config file exists', () => {
+      expect(adapter.detect()).toBe(false);
+    });
+
+    it('should detect config.yaml', () => {
+      fs.writeFileSync(path.join(continueDir, 'config.yaml'), YAML_CONFIG);
+      expect(adapter.detect()).toBe(true);
+      expect(adapter.getConfigPath()).toBe(path.join(continueDir, 'config.yaml'));
+    });
+
+    it('should fall back to legacy config.json', () => {
+      fs.writeFileSync(path.join(continueDir, 'config.json'), JSON.stringify(JSON_CONFIG));
+      expect(adapter.detect()).toBe(true);
+      expect(adapter.getConfigPath()).toBe(path.join(continueDir, 'config.json'));
+    });
+  });
+
+  describe('config.yaml', () => {
+    beforeEach(() => {
+      fs.writeFileSync(path.join(continueDir, 'config.yaml'), YAML_CONFIG);
+    });
+
+    it('should load named servers from mcpServers', () => {
+      const config = adapter.loadConfig();
+
+      expect(Object.keys(config.enabled)).toEqual(['github', 'sqlite']);
+      expect(config.enabled.github.command).toBe('npx');
+      expect(config.enabled.github.env).toEqual({ GITHUB_TOKEN: 'test-token' });
+      expect(config.disabled).toEqual({});
+      expect(config.metadata?.format).toBe('yaml');
+    });
+
+    it('should keep disabled servers out of config.yaml', () => {
+      const config = adapter.loadConfig();
+      adapter.saveConfig(adapter.disableServer(config, 'sqlite'));
+
+      const yaml = fs.readFileSync(path.join(continueDir, 'config.yaml'), 'utf-8');
+      expect(yaml).not.toContain('sqlite');
+
+      const disabledFile = JSON.parse(fs.readFileSync(path.join(continueDir, 'mcp-disabled.json'), 'utf-8'));
+      expect(disabledFile.mcpServers.sqlite.command).toBe('uvx');
+
+      const reloaded = adapter.loadConfig();
+      expect(Object.keys(reloaded.enabled)).toEqual(['github']);
+      expect(Object.keys(reloaded.disabled)).toEqual(['sqlite']);
+    });
+
+    it('should preserve comments and other sections on save', () => {
+      const config = adapter.loadConfig();
+      adapter.saveConfig(adapter.disableServer(config, 'sqlite'));
+
+      const yaml = fs.readFileSync(path.join(continueDir, 'config.yaml'), 'utf-8');
+      expect(yaml).toContain('# MCP servers used by the agent');
+      expect(yaml).toContain('provider: anthropic');
+      expect(yaml).toContain('name: My Config');
+    });
+
+    it('should keep unchanged servers as written whatever their key order', () => {
+      fs.writeFileSync(path.join(continueDir, 'config.yaml'), YAML_CONFIG.replace(
+        '  - name: sqlite\n    command: uvx\n',
+        '  - command: uvx # pinned by the team\n    name: sqlite\n'
+      ));
+
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'github'));
+
+      const yaml = fs.readFileSync(path.join(continueDir, 'config.yaml'), 'utf-8');
+      expect(yaml).toContain('# local sqlite database');
+      expect(yaml).toContain('- command: uvx # pinned by the team');
+    });
+
+    it('should write re-enabled servers back to config.yaml', () => {
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'github'));
+      adapter.saveConfig(adapter.enableServer(adapter.loadConfig(), 'github'));
+
+      const reloaded = adapter.loadConfig();
+      expect(reloaded.enabled.github.args).toEqual(['-y', '@modelcontextprotocol/server-github']);
+      expect(fs.existsSync(path.join(continueDir, 'mcp-disabled.json'))).toBe(false);
+    });
+
+    it('should create a backup before saving', () => {
+      adapter.saveConfig(adapter.loadConfig());
+
+      const backups = fs.readdirSync(backupDir);
+      expect(backups.some(f => f.startsWith('continue-') && f.endsWith('.yaml'))).toBe(true);
+    });
+  });
+
+  describe('legacy config.json', () => {
+    beforeEach(() => {
+      fs.writeFileSync(path.join(continueDir, 'config.json'), JSON.stringify(JSON_CONFIG, null, 2));
+    });
+
+    it('should derive names for unnamed transports', () => {
+      const config = adapter.loadConfig();
+
+      expect(Object.keys(config.enabled)).toEqual(['mcp-server-sqlite', 'server-github']);
+      expect(config.enabled['mcp-server-sqlite'].command).toBe('uvx');
+      expect(config.metadata?.format).toBe('json');
+    });
+
+    it('should write servers back as transports and preserve other fields', () => {
+      const config = adapter.loadConfig();
+      adapter.saveConfig(adapter.disableServer(config, 'server-github'));
+
+      const saved = JSON.parse(fs.readFileSync(path.join(continueDir, 'config.json'), 'utf-8'));
+      expect(saved.models).toEqual(JSON_CONFIG.models);
+      expect(saved.experimental.useTools).toBe(true);
+      expect(saved.experimental.modelContextProtocolServers).toEqual([
+        { transport: { type: 'stdio', command: 'uvx', args: ['mcp-server-sqlite', '--db-path', './test.db'] } }
+      ]);
+    });
+  });
+
+  describe('legacy config.json entries', () => {
+    const writeConfig = (servers: object[]) => {
+      fs.writeFileSync(path.join(continueDir, 'config.json'), JSON.stringify({
+        experimental: { modelContextProtocolServers: servers }
+      }, null, 2));
+    };
+    const readEntries = () =>
+      JSON.parse(fs.readFileSync(path.join(continueDir, 'config.json'), 'utf-8')).experimental.modelContextProtocolServers;
+
+    it('should keep other fields of an entry when saving', () => {
+      writeConfig([
+        { transport: { type: 'stdio', command: 'uvx', args: ['mcp-server-sqlite'] }, requestOptions: { timeout: 30 } },
+        { transport: { type: 'stdio', command: 'npx', args: ['-y', '@modelcontextprotocol/server-github'] } }
+      ]);
+
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'server-github'));
+
+      expect(readEntries()).toEqual([
+        { transport: { type: 'stdio', command: 'uvx', args: ['mcp-server-sqlite'] }, requestOptions: { timeout: 30 } }
+      ]);
+    });
+
+    it('should give servers with the same derived name stable names', () => {
+      writeConfig([
+        { transport: { type: 'stdio', command: 'node', args: ['/opt/a/server.js'] } },
+        { transport: { type: 'stdio', command: 'node', args: ['/opt/b/server.js'] } }
+      ]);
+
+      const names = Object.keys(adapter.loadConfig().enabled);
+      expect(names).toHaveLength(2);
+      expect(names.every(name => /^server-[0-9a-f]{6}$/.test(name))).toBe(true);
+
+      // Disabling one and enabling it again renames neither
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), names[0]));
+      const disabled = adapter.loadConfig();
+      expect(Object.keys(disabled.enabled)).toEqual([names[1]]);
+      expect(Object.keys(disabled.disabled)).toEqual([names[0]]);
+
+      adapter.saveConfig(adapter.enableServer(disabled, names[0]));
+      expect(Object.keys(adapter.loadConfig().enabled).sort()).toEqual([...names].sort());
+      expect(readEntries().map((entry: any) => entry.transport.args[0]).sort()).toEqual(['/opt/a/server.js', '/opt/b/server.js']);
+    });
+  });
+
+  describe('deriveServerName', () => {
+    it('should use the package being launched', () => {
+      expect(deriveServerName(mockServer('npx', { args: ['-y', '@scope/server-git@1.2.0'] }))).toBe('server-git');
+      expect(deriveServerName(mockServer('node', { args: ['/opt/tools/my-server.js'] }))).toBe('my-server');
+    });
+
+    it('should fall back to the command', () => {
+      expect(deriveServerName(mockServer('my-mcp-binary'))).toBe('my-mcp-binary');
+    });
+  });
+});
@@ -1,8 +1,11 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import os from 'os';
 import fs from 'fs';
 import path from 'path';
 import { CursorAdapter } from '../../src/adapters/cursor.js';
 import { createTempDir, cleanupTempDir, mockServer, loadFixture } from '../helpers/test-utils.js';
+import { mockConsole, mockProcessExit } from '../helpers/integration-utils.js';
+import { disableCommand } from '../../src/commands/disable.js';
 import type { MCPConfig } from '../../src/adapters/base.js';
 
 // Test-friendly subclass that allows path overriding
@@ -319,6 +322,123 @@ describe('CursorAdapter', () => {
     });
   });
 
+  describe('project scope', () => {
+    let projectDir: string;
+    const projectConfigPath = () => path.join(projectDir, '.cursor', 'mcp.json');
+    const projectDisabledPath = () => path.join(projectDir, '.cursor', 'mcp-disabled.json');
+
+    beforeEach(() => {
+      fs.writeFileSync(configPath, JSON.stringify({
+        mcpServers: {
+          github: mockServer('npx', { args: ['-y', '@modelcontextprotocol/server-github'] }),
+          time: mockServer('uvx', { args: ['mcp-server-time'] })
+        }
+      }, null, 2));
+
+      projectDir = path.join(tempDir, 'project');
+      fs.mkdirSync(path.join(projectDir, '.cursor'), { recursive: true });
+      fs.writeFileSync(projectConfigPath(), JSON.stringify({
+        mcpServers: {
+          time: mockServer('uvx', { args: ['mcp-server-time', '--local-timezone=UTC'] }),
+          puppeteer: mockServer('npx', { args: ['-y', '@modelcontextprotocol/server-puppeteer'] })
+        }
+      }, null, 2));
+    });
+
+    it('should track inheritance from the global config', () => {
+      expect(adapter.supportsProjectScope()).toBe(true);
+
+      const merged = adapter.getMergedConfig(projectDir);
+      expect(merged.scope).toBe('project');
+      expect(merged.inheritance).toEqual({
+        inherited: ['github'],
+        overridden: ['time'],
+        additions: ['puppeteer'],
+        sources: { github: 'user', time: 'project', puppeteer: 'project' }
+      });
+    });
+
+    it('should keep project-disabled servers in .cursor/mcp-disabled.json', () => {
+      const projectConfig = adapter.loadProjectConfig(projectDir)!;
+      adapter.saveProjectConfig(projectDir, adapter.disableServer(projectConfig, 'puppeteer'));
+
+      expect(Object.keys(JSON.parse(fs.readFileSync(projectConfigPath(), 'utf-8')).mcpServers)).toEqual(['time']);
+      expect(Object.keys(JSON.parse(fs.readFileSync(projectDisabledPath(), 'utf-8')).mcpServers)).toEqual(['puppeteer']);
+      expect(fs.existsSync(disabledConfigPath)).toBe(false);
+
+      const merged = adapter.getMergedConfig(projectDir);
+      expect(Object.keys(merged.enabled)).toEqual(['github', 'time']);
+      expect(Object.keys(merged.disabled)).toEqual(['puppeteer']);
+    });
+
+    it('should not treat global servers in .cursor/mcp-disabled.json as disabled', () => {
+      // Cursor keeps running global servers whatever the project sidecar says
+      fs.writeFileSync(projectDisabledPath(), JSON.stringify({ mcpServers: { github: adapter.loadConfig().enabled.github } }));
+
+      const merged = adapter.getMergedConfig(projectDir);
+      expect(merged.enabled).toHaveProperty('github');
+      expect(merged.disabled).not.toHaveProperty('github');
+    });
+
+    it('should refuse to disable a global server for one project', () => {
+      const consoleMock = mockConsole();
+      const exitMock = mockProcessExit();
+
+      try {
+        disableCommand(adapter, 'github', { scope: 'project', projectPath: projectDir, isAutoDetected: false });
+
+        expect(consoleMock.getOutput().join('\n')).toContain('Cursor cannot disable user-level server "github" for a single project');
+        expect(exitMock.getExitCode()).toBe(1);
+      } finally {
+        consoleMock.restore();
+        exitMock.restore();
+      }
+    });
+
+    it('should remove a new .cursor/mcp.json when saving it fails', () => {
+      const newProject = path.join(tempDir, 'failing-project');
+      // A directory in place of the sidecar makes its write fail
+      fs.mkdirSync(path.join(newProject, '.cursor', 'mcp-disabled.json'), { recursive: true });
+
+      expect(() => adapter.saveProjectConfig(newProject, {
+        enabled: { puppeteer: mockServer('npx') },
+        disabled: { time: mockServer('uvx') }
+      })).toThrow(/^Failed to save config: /);
+      expect(fs.existsSync(path.join(newProject, '.cursor', 'mcp.json'))).toBe(false);
+    });
+
+    it('should create .cursor/mcp.json for a new project', () => {
+      const newProject = path.join(tempDir, 'new-project');
+      fs.mkdirSync(newProject);
+      expect(adapter.loadProjectConfig(newProject)).toBeNull();
+
+      adapter.saveProjectConfig(newProject, {
+        enabled: { puppeteer: mockServer('npx', { args: ['-y', '@modelcontextprotocol/server-puppeteer'] }) },
+        disabled: {}
+      });
+
+      expect(JSON.parse(fs.readFileSync(path.join(newProject, '.cursor', 'mcp.json'), 'utf-8')).mcpServers).toHaveProperty('puppeteer');
+      expect(adapter.detectProjectRoot(path.join(newProject, 'src'))).toBe(newProject);
+    });
+  });
+
+  describe('detectProjectRoot', () => {
+    it('should find a project with only a disabled sidecar below the home directory', () => {
+      const homedirSpy = vi.spyOn(os, 'homedir').mockReturnValue(tempDir);
+      try {
+        fs.writeFileSync(configPath, JSON.stringify({ mcpServers: {} }));
+        const project = path.join(tempDir, 'sidecar-project');
+        fs.mkdirSync(path.join(project, '.cursor'), { recursive: true });
+        fs.writeFileSync(path.join(project, '.cursor', 'mcp-disabled.json'), JSON.stringify({ mcpServers: {} }));
+
+        expect(adapter.detectProjectRoot(path.join(project, 'src'))).toBe(project);
+        expect(adapter.detectProjectRoot(path.join(tempDir, 'elsewhere'))).toBeNull();
+      } finally {
+        homedirSpy.mockRestore();
+      }
+    });
+  });
+
   describe('adapter metadata', () => {
     it('should have correct name and id', () => {
       expect(adapter.name).toBe('Cursor');
@@ -1,4 +1,5 @@
 import { describe, it, expect } from 'vitest';
+import chalk from 'chalk';
 import {
   success,
   error,
@@ -10,6 +11,9 @@ import {
   createProfileTable,
   header,
   subheader,
+  formatTokenSource,
+  formatContextShare,
+  formatContextWindow,
 } from '../../src/utils/formatting.js';
 
 describe('formatting', () => {
@@ -102,6 +106,17 @@ describe('formatting', () => {
       expect(result).toContain('tokens');
     });
 
+    it('should scale its colors with the context window', () => {
+      const level = chalk.level;
+      chalk.level = 1;
+      try {
+        expect(formatTokenCount(78000)).toBe(chalk.red('~78,000 tokens'));
+        expect(formatTokenCount(78000, 1000000)).toBe(chalk.yellow('~78,000 tokens'));
+      } finally {
+        chalk.level = level;
+      }
+    });
+
     it('should format zero tokens', () => {
       const result = formatTokenCount(0);
       expect(result).toContain('0');
@@ -147,6 +162,21 @@ describe('formatting', () => {
     });
   });
 
+  describe('formatTokenSource', () => {
+    const now = Date.parse('2026-01-04T12:00:00.000Z');
+
+    it('should label unmeasured numbers as estimated', () => {
+      expect(formatTokenSource(undefined, now)).toBe('estimated');
+    });
+
+    it('should show how long ago a number was measured', () => {
+      expect(formatTokenSource('2026-01-04T11:59:30.000Z', now)).toBe('measured (just now)');
+      expect(formatTokenSource('2026-01-04T11:15:00.000Z', now)).toBe('measured (45m ago)');
+      expect(formatTokenSource('2026-01-04T07:00:00.000Z', now)).toBe('measured (5h ago)');
+      expect(formatTokenSource('2026-01-01T12:00:00.000Z', now)).toBe('measured (3d ago)');
+    });
+  });
+
   describe('createProfileTable', () => {
     it('should create table with correct headers', () => {
       const table = createProfileTable();
@@ -200,6 +230,20 @@ describe('formatting', () => {
     });
   });
 
+  describe('formatContextShare', () => {
+    it('should format the share of the window with one decimal', () => {
+      expect(formatContextShare(15000, 200000)).toBe('7.5%');
+      expect(formatContextShare(0, 200000)).toBe('0.0%');
+      expect(formatContextShare(50, 1000000)).toBe('<0.1%');
+    });
+
+    it('should format window sizes compactly', () => {
+      expect(formatContextWindow(200000)).toBe('200k');
+      expect(formatContextWindow(1000000)).toBe('1M');
+      expect(formatContextWindow(1048576)).toBe('1M');
+    });
+  });
+
   describe('subheader', () => {
     it('should format subheader with bold text', () => {
       const result = subheader('Test Subheader');
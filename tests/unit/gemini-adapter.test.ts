@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { GeminiAdapter } from '../../src/adapters/gemini.js';
+import { createTempDir, cleanupTempDir, mockServer } from '../helpers/test-utils.js';
+
+// Test-friendly subclass that allows path overriding
+class TestGeminiAdapter extends GeminiAdapter {
+  constructor(configPath: string, backupDir: string) {
+    super();
+    this.configPath = configPath;
+    this.backupDir = backupDir;
+  }
+}
+
+describe('GeminiAdapter', () => {
+  let adapter: TestGeminiAdapter;
+  let tempDir: string;
+  let configPath: string;
+  let projectDir: string;
+
+  const readJson = (filePath: string) => JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+
+  beforeEach(() => {
+    tempDir = createTempDir('gemini-test-');
+    fs.mkdirSync(path.join(tempDir, '.gemini'), { recursive: true });
+    configPath = path.join(tempDir, '.gemini', 'settings.json');
+    projectDir = path.join(tempDir, 'project');
+    fs.mkdirSync(projectDir);
+
+    fs.writeFileSync(configPath, JSON.stringify({
+      theme: 'GitHub',
+      mcpServers: {
+        github: mockServer('npx', { args: ['-y', '@modelcontextprotocol/server-github'] }),
+        notion: mockServer('npx', { args: ['-y', '@notionhq/notion-mcp-server'] }),
+        docs: { httpUrl: 'https://docs.example.com/mcp' }
+      },
+      excludeMcpServers: ['notion']
+    }, null, 2));
+
+    adapter = new TestGeminiAdapter(configPath, path.join(tempDir, 'backups'));
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  describe('user scope', () => {
+    it('should use excludeMcpServers for disabled servers', () => {
+      const config = adapter.loadConfig();
+
+      expect(Object.keys(config.enabled)).toEqual(['github', 'docs']);
+      expect(Object.keys(config.disabled)).toEqual(['notion']);
+    });
+
+    it('should respect allowMCPServers', () => {
+      const settings = readJson(configPath);
+      settings.allowMCPServers = ['github'];
+      delete settings.excludeMcpServers;
+      fs.writeFileSync(configPath, JSON.stringify(settings));
+
+      const config = adapter.loadConfig();
+      expect(Object.keys(config.enabled)).toEqual(['github']);
+      expect(Object.keys(config.disabled)).toEqual(['notion', 'docs']);
+    });
+
+    it('should disable by name without moving the server', () => {
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'github'));
+
+      const saved = readJson(configPath);
+      expect(Object.keys(saved.mcpServers)).toEqual(['github', 'notion', 'docs']);
+      expect(saved.excludeMcpServers).toEqual(['notion', 'github']);
+      expect(saved.theme).toBe('GitHub');
+    });
+
+    it('should remove servers from the exclude list when enabling', () => {
+      adapter.saveConfig(adapter.enableServer(adapter.loadConfig(), 'notion'));
+
+      expect(readJson(configPath).excludeMcpServers).toEqual([]);
+    });
+
+    it('should keep allowMCPServers in sync', () => {
+      const settings = readJson(configPath);
+      settings.allowMCPServers = ['github', 'docs', 'other-server'];
+      fs.writeFileSync(configPath, JSON.stringify(settings));
+
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'docs'));
+
+      const saved = readJson(configPath);
+      expect(saved.allowMCPServers).toEqual(['other-server', 'github']);
+      expect(saved.excludeMcpServers).toEqual(['notion', 'docs']);
+    });
+  });
+
+  describe('remote servers', () => {
+    it('should map httpUrl and url to typed remote servers', () => {
+      const settings = readJson(configPath);
+      settings.mcpServers.events = { url: 'https://events.example.com/sse' };
+      fs.writeFileSync(configPath, JSON.stringify(settings, null, 2));
+
+      const config = adapter.loadConfig();
+      expect(config.enabled.docs).toEqual({ type: 'http', url: 'https://docs.example.com/mcp' });
+      expect(config.enabled.events).toEqual({ type: 'sse', url: 'https://events.example.com/sse' });
+    });
+
+    it('should write remote servers back in Gemini\'s shape', () => {
+      const config = adapter.loadConfig();
+      config.enabled.search = { type: 'sse', url: 'https://search.example.com/sse' };
+      adapter.saveConfig(config);
+
+      const saved = readJson(configPath);
+      expect(saved.mcpServers.docs).toEqual({ httpUrl: 'https://docs.example.com/mcp' });
+      expect(saved.mcpServers.search).toEqual({ url: 'https://search.example.com/sse' });
+    });
+  });
+
+  describe('project scope', () => {
+    const projectSettingsPath = () => path.join(projectDir, '.gemini', 'settings.json');
+
+    beforeEach(() => {
+      fs.mkdirSync(path.join(projectDir, '.gemini'));
+      fs.writeFileSync(projectSettingsPath(), JSON.stringify({
+        mcpServers: {
+          puppeteer: mockServer('npx', { args: ['-y', '@modelcontextprotocol/server-puppeteer'] })
+        }
+      }, null, 2));
+    });
+
+    it('should track inheritance from user settings', () => {
+      const merged = adapter.getMergedConfig(projectDir);
+
+      expect(merged.inheritance).toEqual({
+        inherited: ['github', 'docs'],
+        overridden: [],
+        additions: ['puppeteer'],
+        sources: { github: 'user', docs: 'user', puppeteer: 'project' }
+      });
+      expect(Object.keys(merged.disabled)).toEqual(['notion']);
+    });
+
+    it('should exclude inherited servers by name in the project file', () => {
+      const projectConfig = adapter.loadProjectConfig(projectDir)!;
+      projectConfig.disabled.github = adapter.loadConfig().enabled.github;
+      adapter.saveProjectConfig(projectDir, projectConfig);
+
+      const saved = readJson(projectSettingsPath());
+      expect(Object.keys(saved.mcpServers)).toEqual(['puppeteer']);
+      // User-level exclusions are carried over because Gemini replaces the list
+      expect(saved.excludeMcpServers).toEqual(['notion', 'github']);
+
+      const merged = adapter.getMergedConfig(projectDir);
+      expect(merged.enabled).not.toHaveProperty('github');
+      expect(merged.disabled).toHaveProperty('github');
+      expect(readJson(configPath).excludeMcpServers).toEqual(['notion']);
+    });
+
+    it('should keep project-defined servers when disabling them', () => {
+      const projectConfig = adapter.loadProjectConfig(projectDir)!;
+      adapter.saveProjectConfig(projectDir, adapter.disableServer(projectConfig, 'puppeteer'));
+
+      const saved = readJson(projectSettingsPath());
+      expect(saved.mcpServers).toHaveProperty('puppeteer');
+      expect(saved.excludeMcpServers).toContain('puppeteer');
+    });
+
+    it('should detect the project root but not the home directory', () => {
+      expect(adapter.detectProjectRoot(projectDir)).toBe(projectDir);
+      expect(adapter.detectProjectRoot(path.join(tempDir, 'elsewhere'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { GooseAdapter, fromGooseExtension, toGooseExtension } from '../../src/adapters/goose.js';
+import { createTempDir, cleanupTempDir } from '../helpers/test-utils.js';
+
+// Test-friendly subclass that allows path overriding
+class TestGooseAdapter extends GooseAdapter {
+  constructor(configPath: string, backupDir: string) {
+    super();
+    this.configPath = configPath;
+    this.backupDir = backupDir;
+  }
+}
+
+const CONFIG_YAML = `# Goose configuration
+GOOSE_PROVIDER: anthropic
+GOOSE_MODEL: claude-sonnet-4
+extensions:
+  developer:
+    bundled: true
+    enabled: true
+    name: developer
+    timeout: 300
+    type: builtin
+  # GitHub tools
+  github:
+    args:
+      - -y
+      - "@modelcontextprotocol/server-github"
+    cmd: npx
+    enabled: true
+    envs:
+      GITHUB_TOKEN: ghp_test
+    name: github
+    timeout: 300
+    type: stdio
+  docs:
+    enabled: false
+    name: docs
+    type: sse
+    uri: https://docs.example.com/sse
+`;
+
+describe('GooseAdapter', () => {
+  let adapter: TestGooseAdapter;
+  let tempDir: string;
+  let configPath: string;
+
+  beforeEach(() => {
+    tempDir = createTempDir('goose-test-');
+    configPath = path.join(tempDir, 'config.yaml');
+    fs.writeFileSync(configPath, CONFIG_YAML);
+
+    adapter = new TestGooseAdapter(configPath, path.join(tempDir, 'backups'));
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  it('should detect a config with extensions', () => {
+    expect(adapter.detect()).toBe(true);
+
+    fs.writeFileSync(configPath, 'GOOSE_PROVIDER: openai\n');
+    expect(adapter.detect()).toBe(false);
+  });
+
+  it('should split extensions by the native enabled flag', () => {
+    const config = adapter.loadConfig();
+
+    expect(Object.keys(config.enabled)).toEqual(['developer', 'github']);
+    expect(Object.keys(config.disabled)).toEqual(['docs']);
+    expect(config.enabled.github.command).toBe('npx');
+    expect(config.enabled.github.env).toEqual({ GITHUB_TOKEN: 'ghp_test' });
+    expect(config.disabled.docs.url).toBe('https://docs.example.com/sse');
+  });
+
+  it('should leave the file unchanged on a load/save round trip', () => {
+    adapter.saveConfig(adapter.loadConfig());
+
+    expect(fs.readFileSync(configPath, 'utf-8')).toBe(CONFIG_YAML);
+  });
+
+  it('should toggle only the enabled flag', () => {
+    adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'github'));
+
+    expect(fs.readFileSync(configPath, 'utf-8')).toBe(
+      CONFIG_YAML.replace('    cmd: npx\n    enabled: true', '    cmd: npx\n    enabled: false')
+    );
+
+    adapter.saveConfig(adapter.enableServer(adapter.loadConfig(), 'docs'));
+    const config = adapter.loadConfig();
+    expect(Object.keys(config.enabled)).toEqual(['developer', 'docs']);
+    expect(Object.keys(config.disabled)).toEqual(['github']);
+  });
+
+  it('should not add the enabled flag to extensions that stay enabled', () => {
+    const withoutFlag = CONFIG_YAML.replace('    bundled: true\n    enabled: true\n', '    bundled: true\n');
+    fs.writeFileSync(configPath, withoutFlag);
+
+    adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'github'));
+
+    expect(fs.readFileSync(configPath, 'utf-8')).toBe(
+      withoutFlag.replace('    cmd: npx\n    enabled: true', '    cmd: npx\n    enabled: false')
+    );
+  });
+
+  it('should write new servers as Goose extensions', () => {
+    const config = adapter.loadConfig();
+    config.enabled.postgres = { command: 'postgres-mcp', args: [], env: { DB_URL: 'postgres://localhost' } };
+    adapter.saveConfig(config);
+
+    const saved = fs.readFileSync(configPath, 'utf-8');
+    expect(saved).toContain('# Goose configuration');
+    expect(saved).toContain('  # GitHub tools');
+    expect(saved).toContain('  postgres:\n    name: postgres\n    type: stdio\n');
+    expect(saved).toContain('    cmd: postgres-mcp\n');
+    expect(adapter.loadConfig().enabled.postgres.env).toEqual({ DB_URL: 'postgres://localhost' });
+  });
+
+  it('should map between Goose and MCPServer fields', () => {
+    const server = fromGooseExtension({ name: 'a', type: 'stdio', cmd: 'a-server', envs: { KEY: '1' }, enabled: true });
+    expect(server).toEqual({ name: 'a', type: 'stdio', command: 'a-server', env: { KEY: '1' } });
+
+    expect(toGooseExtension('b', { command: '', url: 'https://b.example.com/sse' } as any, false)).toEqual({
+      name: 'b',
+      type: 'sse',
+      uri: 'https://b.example.com/sse',
+      enabled: false
+    });
+  });
+});
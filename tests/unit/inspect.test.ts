@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeInputSchema, inspectDefinitions } from '../../src/utils/inspect.js';
+import { getTokenizer } from '../../src/utils/tokenizer.js';
+
+describe('summarizeInputSchema', () => {
+  it('should list parameters and mark optional ones', () => {
+    expect(summarizeInputSchema({
+      type: 'object',
+      properties: { path: { type: 'string' }, recursive: { type: 'boolean' } },
+      required: ['path']
+    })).toBe('path: string, recursive?: boolean');
+  });
+
+  it('should describe arrays, enums and unions', () => {
+    expect(summarizeInputSchema({
+      type: 'object',
+      properties: {
+        tags: { type: 'array', items: { type: 'string' } },
+        order: { enum: ['asc', 'desc'] },
+        limit: { anyOf: [{ type: 'number' }, { type: 'null' }] },
+        ids: { type: 'array', items: { type: ['string', 'number'] } }
+      },
+      required: ['tags', 'order', 'limit', 'ids']
+    })).toBe("tags: string[], order: 'asc'|'desc', limit: number|null, ids: (string|number)[]");
+  });
+
+  it('should shorten long enums', () => {
+    expect(summarizeInputSchema({ properties: { level: { enum: ['a', 'b', 'c', 'd', 'e'] } } }))
+      .toBe("level?: 'a'|'b'|'c'|'d'|…");
+  });
+
+  it('should handle tools without parameters', () => {
+    expect(summarizeInputSchema({ type: 'object' })).toBe('(no parameters)');
+    expect(summarizeInputSchema(undefined)).toBe('(no parameters)');
+  });
+});
+
+describe('inspectDefinitions', () => {
+  const definitions = {
+    tools: [
+      { name: 'search', description: 'Search the web', input_schema: { type: 'object', properties: { q: { type: 'string' } }, required: ['q'] } },
+      { name: 'fetch', description: 'Fetch a page and convert it to markdown', input_schema: { type: 'object', properties: { url: { type: 'string' } } } }
+    ],
+    prompts: [{ name: 'review', arguments: [{ name: 'file', required: true }] }],
+    resources: []
+  };
+
+  it('should count each item separately', () => {
+    const tokenizer = getTokenizer('chars');
+    const inspection = inspectDefinitions(definitions, tokenizer);
+
+    expect(inspection.tools.map(tool => tool.name)).toEqual(['search', 'fetch']);
+    expect(inspection.tools[0].tokens).toBe(Math.ceil(JSON.stringify(definitions.tools[0]).length / 4));
+    expect(inspection.tools[1].tokens).toBeGreaterThan(inspection.tools[0].tokens);
+    expect(inspection.tools[0].parameters).toBe('q: string');
+    expect(inspection.prompts[0]).toMatchObject({ name: 'review', description: undefined });
+    expect(inspection.resources).toEqual([]);
+  });
+});
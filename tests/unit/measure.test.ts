@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import { measureServer } from '../../src/utils/measure.js';
+import { getTokenizer } from '../../src/utils/tokenizer.js';
+import { mockServer } from '../helpers/test-utils.js';
+
+const FAKE_SERVER = path.join(__dirname, '../fixtures/fake-mcp-server.mjs');
+
+describe('measureServer', () => {
+  it('should list every page of tools and count their tokens', async () => {
+    const result = await measureServer(mockServer(process.execPath, { args: [FAKE_SERVER] }));
+
+    expect(result.tools).toBe(2);
+    expect(result.prompts).toBe(1);
+    expect(result.resources).toBe(0);
+    expect(result.toolTokens).toBeGreaterThan(0);
+    expect(result.resourceTokens).toBe(0);
+    expect(result.tokens).toBe(result.toolTokens + result.promptTokens);
+    expect(result.definitions?.tools).toHaveLength(2);
+  }, 20000);
+
+  it('should count with the tokenizer it is given', async () => {
+    const result = await measureServer(mockServer(process.execPath, { args: [FAKE_SERVER] }), {
+      tokenizer: getTokenizer('chars')
+    });
+
+    expect(result.tokenizer).toBe('chars');
+    expect(result.toolTokens).toBe(Math.ceil(JSON.stringify(result.definitions?.tools).length / 4));
+  }, 20000);
+
+  it('should pass the server its env', async () => {
+    const shortName = await measureServer(mockServer(process.execPath, { args: [FAKE_SERVER] }));
+    const longName = await measureServer(mockServer(process.execPath, {
+      args: [FAKE_SERVER],
+      env: { FAKE_PROMPT_NAME: 'summarize-the-entire-conversation-so-far' }
+    }));
+
+    expect(longName.promptTokens).toBeGreaterThan(shortName.promptTokens);
+  }, 20000);
+
+  it('should report servers that fail to start', async () => {
+    await expect(measureServer(mockServer('house-mcp-manager-missing-binary'), { timeoutMs: 5000 }))
+      .rejects.toThrow();
+  }, 20000);
+
+  it('should explain that built-in servers cannot be started', async () => {
+    await expect(measureServer({ type: 'builtin' })).rejects.toThrow('Built-in server');
+  });
+
+  it('should give up on servers that never answer', async () => {
+    await expect(measureServer(mockServer(process.execPath, { args: ['-e', 'setInterval(() => {}, 1000)'] }), { timeoutMs: 500 }))
+      .rejects.toThrow('Timed out');
+  }, 20000);
+});
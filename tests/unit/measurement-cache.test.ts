@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  cacheMeasurement,
+  getCachedMeasurement,
+  getServerHash,
+  resetMeasurementCache,
+  type ServerMeasurement
+} from '../../src/utils/measurement-cache.js';
+import { estimateServerTokens, estimateServerTools, calculateTotalTokens } from '../../src/utils/tokens.js';
+import { getTokenizer } from '../../src/utils/tokenizer.js';
+import { createTempDir, cleanupTempDir, mockServer, mockRemoteServer } from '../helpers/test-utils.js';
+
+const measurement: ServerMeasurement = {
+  tools: 3,
+  prompts: 0,
+  resources: 1,
+  toolTokens: 900,
+  promptTokens: 0,
+  resourceTokens: 40,
+  tokens: 940,
+  measuredAt: '2026-01-01T00:00:00.000Z'
+};
+
+describe('measurement cache', () => {
+  let tempDir: string;
+  let homedirSpy: any;
+
+  beforeEach(() => {
+    tempDir = createTempDir('measurement-cache-test-');
+    homedirSpy = vi.spyOn(os, 'homedir').mockReturnValue(tempDir);
+    resetMeasurementCache();
+  });
+
+  afterEach(() => {
+    homedirSpy.mockRestore();
+    resetMeasurementCache();
+    cleanupTempDir(tempDir);
+  });
+
+  it('should key entries by command, args and env but not by name or key order', () => {
+    const server = mockServer('npx', { args: ['-y', 'server-github'], env: { A: '1', B: '2' } });
+
+    expect(getServerHash(server)).toBe(getServerHash({ ...server, env: { B: '2', A: '1' } }));
+    expect(getServerHash(server)).not.toBe(getServerHash({ ...server, args: ['-y', 'server-gitlab'] }));
+    expect(getServerHash(server)).not.toBe(getServerHash({ ...server, env: { A: '1', B: '3' } }));
+    expect(getServerHash(mockRemoteServer('https://a.example.com/mcp')))
+      .not.toBe(getServerHash(mockRemoteServer('https://b.example.com/mcp')));
+  });
+
+  it('should persist measurements under the home directory', () => {
+    const server = mockServer('uvx', { args: ['mcp-server-time'] });
+    cacheMeasurement(server, measurement);
+
+    const cachePath = path.join(tempDir, '.claude-mcp-cache', 'measurements.json');
+    expect(JSON.parse(fs.readFileSync(cachePath, 'utf-8'))).toEqual({ [getServerHash(server)]: measurement });
+
+    resetMeasurementCache();
+    expect(getCachedMeasurement(server)).toEqual(measurement);
+    expect(getCachedMeasurement(mockServer('uvx', { args: ['mcp-server-fetch'] }))).toBeNull();
+  });
+
+  it('should prefer cached measurements over heuristics', () => {
+    const server = mockServer('npx', { args: ['-y', '@modelcontextprotocol/server-github'] });
+    expect(estimateServerTokens('github', server)).toBe(15000);
+
+    cacheMeasurement(server, measurement);
+
+    expect(estimateServerTokens('github', server)).toBe(940);
+    expect(estimateServerTools('github', server)).toBe(3);
+    // A changed definition falls back to the estimate until measured again
+    expect(estimateServerTokens('github', { ...server, env: { GITHUB_TOOLSETS: 'all' } })).toBe(15000);
+  });
+
+  it('should recount dumped definitions with the requested tokenizer', () => {
+    const server = mockServer('npx', { args: ['-y', '@modelcontextprotocol/server-github'] });
+    const definitions = {
+      tools: [{ name: 'create_issue', description: 'Create a new issue', input_schema: { type: 'object' } }],
+      prompts: [],
+      resources: []
+    };
+    cacheMeasurement(server, { ...measurement, tokenizer: 'claude', definitions });
+
+    const chars = getTokenizer('chars');
+    const expected = Math.ceil(JSON.stringify(definitions.tools).length / 4);
+
+    expect(estimateServerTokens('github', server)).toBe(940);
+    expect(estimateServerTokens('github', server, chars)).toBe(expected);
+    expect(calculateTotalTokens({ github: server }, chars)).toBe(expected);
+  });
+
+  it('should treat a corrupt cache file as empty', () => {
+    fs.mkdirSync(path.join(tempDir, '.claude-mcp-cache'));
+    fs.writeFileSync(path.join(tempDir, '.claude-mcp-cache', 'measurements.json'), '{ not json');
+
+    expect(getCachedMeasurement(mockServer('npx'))).toBeNull();
+  });
+});
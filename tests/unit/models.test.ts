@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { getModelProfile, getUsageThresholds, listModelProfiles, resolveModelProfile } from '../../src/utils/models.js';
+import { AdapterRegistry } from '../../src/adapters/registry.js';
+
+describe('model profiles', () => {
+  it('should look up built-in profiles by id', () => {
+    expect(getModelProfile('claude-sonnet').contextWindow).toBe(200000);
+    expect(getModelProfile('Claude-Sonnet-1M').contextWindow).toBe(1000000);
+    expect(listModelProfiles().every(profile => profile.contextWindow > 0)).toBe(true);
+  });
+
+  it('should accept a bare context window size', () => {
+    expect(getModelProfile('500k')).toMatchObject({ name: 'Custom model', contextWindow: 500000 });
+    expect(getModelProfile('1.5m').contextWindow).toBe(1500000);
+    expect(getModelProfile('32000').contextWindow).toBe(32000);
+  });
+
+  it('should reject unknown models', () => {
+    expect(() => getModelProfile('gpt-2')).toThrow('Unknown model: gpt-2');
+    expect(() => getModelProfile('0k')).toThrow('Unknown model');
+  });
+
+  it('should default to the model of each tool', () => {
+    expect(resolveModelProfile(AdapterRegistry.getById('claude')!).id).toBe('claude-sonnet');
+    expect(resolveModelProfile(AdapterRegistry.getById('gemini')!).id).toBe('gemini-2.5-pro');
+    expect(resolveModelProfile(AdapterRegistry.getById('codex')!).id).toBe('gpt-5');
+    expect(resolveModelProfile(AdapterRegistry.getById('claude')!, 'claude-opus-1m').id).toBe('claude-opus-1m');
+  });
+
+  it('should scale warning thresholds with the context window', () => {
+    expect(getUsageThresholds(getModelProfile('claude-sonnet'))).toEqual({ moderate: 50000, high: 100000 });
+    expect(getUsageThresholds(getModelProfile('1m'))).toEqual({ moderate: 250000, high: 500000 });
+  });
+});
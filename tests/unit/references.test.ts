@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {
+  hasReferences,
+  checkServerReferences,
+  resolveServerReferences,
+  resolveConfigReferences
+} from '../../src/utils/references.js';
+import { createTempDir, cleanupTempDir, mockServer } from '../helpers/test-utils.js';
+
+describe('references', () => {
+  let tempDir: string;
+  let secretFile: string;
+
+  beforeEach(() => {
+    tempDir = createTempDir('references-test-');
+    secretFile = path.join(tempDir, 'token.txt');
+    fs.writeFileSync(secretFile, 'file-token\n');
+    process.env.REFERENCES_TEST_TOKEN = 'env-token';
+  });
+
+  afterEach(() => {
+    delete process.env.REFERENCES_TEST_TOKEN;
+    cleanupTempDir(tempDir);
+  });
+
+  describe('hasReferences', () => {
+    it('should find references of the given kinds anywhere in a server', () => {
+      const server = mockServer('npx', { args: ['--token', '${cmd:echo hi}'] });
+
+      expect(hasReferences(server)).toBe(true);
+      expect(hasReferences(server, ['env', 'file'])).toBe(false);
+      expect(hasReferences(mockServer('npx', { env: { TOKEN: '${TOKEN}' } }))).toBe(false);
+    });
+  });
+
+  describe('resolveServerReferences', () => {
+    it('should resolve env, file and cmd references', () => {
+      const server = mockServer('npx', {
+        args: ['--token', '${cmd:echo cmd-token}'],
+        env: { A: '${env:REFERENCES_TEST_TOKEN}', B: `\${file:${secretFile}}` }
+      });
+
+      const resolved = resolveServerReferences(server, undefined, { allowCommands: true });
+
+      expect(resolved.args).toEqual(['--token', 'cmd-token']);
+      expect(resolved.env).toEqual({ A: 'env-token', B: 'file-token' });
+      expect(server.env?.A).toBe('${env:REFERENCES_TEST_TOKEN}');
+    });
+
+    it('should resolve references inside longer values', () => {
+      const resolved = resolveServerReferences({
+        url: 'https://mcp.example.com',
+        headers: { Authorization: 'Bearer ${env:REFERENCES_TEST_TOKEN}' }
+      });
+
+      expect(resolved.headers).toEqual({ Authorization: 'Bearer env-token' });
+    });
+
+    it('should leave kinds it is not asked to resolve', () => {
+      const resolved = resolveServerReferences(
+        mockServer('npx', { env: { A: '${env:REFERENCES_TEST_TOKEN}', B: `\${file:${secretFile}}` } }),
+        ['file']
+      );
+
+      expect(resolved.env).toEqual({ A: '${env:REFERENCES_TEST_TOKEN}', B: 'file-token' });
+    });
+
+    it('should say which references cannot be resolved', () => {
+      const server = mockServer('npx', {
+        env: { A: '${env:REFERENCES_TEST_MISSING}', B: `\${file:${path.join(tempDir, 'missing.txt')}}` }
+      });
+
+      expect(() => resolveServerReferences(server)).toThrow('env.A: $REFERENCES_TEST_MISSING is not set');
+      expect(() => resolveServerReferences(server)).toThrow('env.B: cannot read');
+    });
+
+    it('should report failing commands', () => {
+      expect(() => resolveServerReferences(mockServer('npx', { args: ['${cmd:exit 3}'] }), undefined, { allowCommands: true }))
+        .toThrow('args[0]: "exit 3" failed');
+    });
+
+    it('should not run commands unless allowed', () => {
+      const marker = path.join(tempDir, 'ran');
+      const server = mockServer('npx', { args: [`\${cmd:touch ${marker}}`] });
+
+      expect(() => resolveServerReferences(server)).toThrow('commands only run with --allow-cmd');
+      expect(fs.existsSync(marker)).toBe(false);
+    });
+  });
+
+  describe('checkServerReferences', () => {
+    it('should list each reference and whether it resolves', () => {
+      const references = checkServerReferences(mockServer('npx', {
+        env: { A: '${env:REFERENCES_TEST_TOKEN}', B: '${env:REFERENCES_TEST_MISSING}' }
+      }));
+
+      expect(references).toEqual([
+        { location: 'env.A', kind: 'env', target: 'REFERENCES_TEST_TOKEN', resolved: true },
+        { location: 'env.B', kind: 'env', target: 'REFERENCES_TEST_MISSING', resolved: false, error: '$REFERENCES_TEST_MISSING is not set' }
+      ]);
+    });
+  });
+
+  describe('resolveConfigReferences', () => {
+    it('should resolve enabled and disabled servers', () => {
+      const config = {
+        enabled: { github: mockServer('npx', { env: { TOKEN: '${env:REFERENCES_TEST_TOKEN}' } }) },
+        disabled: { slack: mockServer('npx', { env: { TOKEN: `\${file:${secretFile}}` } }) }
+      };
+
+      const resolved = resolveConfigReferences(config);
+
+      expect(resolved.enabled.github.env).toEqual({ TOKEN: 'env-token' });
+      expect(resolved.disabled.slack.env).toEqual({ TOKEN: 'file-token' });
+    });
+
+    it('should return configs without references unchanged', () => {
+      const config = { enabled: { time: mockServer('uvx') }, disabled: {} };
+
+      expect(resolveConfigReferences(config)).toBe(config);
+    });
+
+    it('should name every server that cannot be resolved', () => {
+      const config = {
+        enabled: {
+          github: mockServer('npx', { env: { TOKEN: '${env:REFERENCES_TEST_MISSING}' } }),
+          time: mockServer('uvx')
+        },
+        disabled: {}
+      };
+
+      expect(() => resolveConfigReferences(config)).toThrow('Could not resolve references in github (env.TOKEN: $REFERENCES_TEST_MISSING is not set)');
+    });
+  });
+});
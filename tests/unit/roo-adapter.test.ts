@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { RooAdapter } from '../../src/adapters/roo.js';
+import { createTempDir, cleanupTempDir, mockServer } from '../helpers/test-utils.js';
+
+// Test-friendly subclass that allows path overriding
+class TestRooAdapter extends RooAdapter {
+  constructor(configPath: string, backupDir: string) {
+    super();
+    this.configPath = configPath;
+    this.backupDir = backupDir;
+  }
+}
+
+describe('RooAdapter', () => {
+  let adapter: TestRooAdapter;
+  let tempDir: string;
+  let configPath: string;
+  let projectDir: string;
+
+  const readJson = (filePath: string) => JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const projectConfigPath = () => path.join(projectDir, '.roo', 'mcp.json');
+
+  beforeEach(() => {
+    tempDir = createTempDir('roo-test-');
+    const settingsDir = path.join(tempDir, 'globalStorage', 'rooveterinaryinc.roo-cline', 'settings');
+    fs.mkdirSync(settingsDir, { recursive: true });
+    configPath = path.join(settingsDir, 'mcp_settings.json');
+    projectDir = path.join(tempDir, 'project');
+    fs.mkdirSync(projectDir);
+
+    fs.writeFileSync(configPath, JSON.stringify({
+      mcpServers: {
+        github: mockServer('npx', { args: ['-y', '@modelcontextprotocol/server-github'], alwaysAllow: ['search_repositories'] }),
+        notion: mockServer('npx', { args: ['-y', '@notionhq/notion-mcp-server'], disabled: true }),
+        time: mockServer('uvx', { args: ['mcp-server-time'] })
+      }
+    }, null, 2));
+
+    adapter = new TestRooAdapter(configPath, path.join(tempDir, 'backups'));
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  describe('global settings', () => {
+    it('should split servers by the native disabled flag', () => {
+      const config = adapter.loadConfig();
+
+      expect(Object.keys(config.enabled)).toEqual(['github', 'time']);
+      expect(Object.keys(config.disabled)).toEqual(['notion']);
+      expect(config.enabled.github.alwaysAllow).toEqual(['search_repositories']);
+    });
+
+    it('should toggle the disabled flag in place', () => {
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'github'));
+
+      const saved = readJson(configPath);
+      expect(Object.keys(saved.mcpServers)).toEqual(['github', 'notion', 'time']);
+      expect(saved.mcpServers.github.disabled).toBe(true);
+      expect(saved.mcpServers.github.alwaysAllow).toEqual(['search_repositories']);
+    });
+  });
+
+  describe('project scope', () => {
+    beforeEach(() => {
+      fs.mkdirSync(path.join(projectDir, '.roo'));
+      fs.writeFileSync(projectConfigPath(), JSON.stringify({
+        mcpServers: {
+          time: mockServer('uvx', { args: ['mcp-server-time', '--local-timezone=UTC'] }),
+          puppeteer: mockServer('npx', { args: ['-y', '@modelcontextprotocol/server-puppeteer'] })
+        }
+      }, null, 2));
+    });
+
+    it('should track inheritance from global settings', () => {
+      const merged = adapter.getMergedConfig(projectDir);
+
+      expect(merged.inheritance).toEqual({
+        inherited: ['github'],
+        overridden: ['time'],
+        additions: ['puppeteer'],
+        sources: { github: 'user', time: 'project', puppeteer: 'project' }
+      });
+      expect(merged.enabled.time.args).toEqual(['mcp-server-time', '--local-timezone=UTC']);
+      expect(Object.keys(merged.disabled)).toEqual(['notion']);
+    });
+
+    it('should disable an inherited server with a project override', () => {
+      const projectConfig = adapter.loadProjectConfig(projectDir)!;
+      projectConfig.disabled.github = adapter.loadConfig().enabled.github;
+      adapter.saveProjectConfig(projectDir, projectConfig);
+
+      const saved = readJson(projectConfigPath());
+      expect(saved.mcpServers.github).toMatchObject({ command: 'npx', disabled: true });
+      expect(readJson(configPath).mcpServers.github.disabled).toBeUndefined();
+
+      const merged = adapter.getMergedConfig(projectDir);
+      expect(merged.enabled).not.toHaveProperty('github');
+      expect(merged.disabled).toHaveProperty('github');
+    });
+
+    it('should drop the override when re-enabling an inherited server', () => {
+      const projectConfig = adapter.loadProjectConfig(projectDir)!;
+      projectConfig.disabled.github = adapter.loadConfig().enabled.github;
+      adapter.saveProjectConfig(projectDir, projectConfig);
+
+      adapter.saveProjectConfig(projectDir, adapter.enableServer(adapter.loadProjectConfig(projectDir)!, 'github'));
+
+      expect(Object.keys(readJson(projectConfigPath()).mcpServers)).toEqual(['time', 'puppeteer']);
+      expect(adapter.getMergedConfig(projectDir).inheritance!.inherited).toEqual(['github']);
+    });
+
+    it('should create .roo/mcp.json when missing', () => {
+      fs.rmSync(path.join(projectDir, '.roo'), { recursive: true });
+      expect(adapter.loadProjectConfig(projectDir)).toBeNull();
+
+      adapter.saveProjectConfig(projectDir, {
+        enabled: {},
+        disabled: { time: adapter.loadConfig().enabled.time }
+      });
+
+      expect(readJson(projectConfigPath()).mcpServers.time.disabled).toBe(true);
+      expect(adapter.detectProjectRoot(path.join(projectDir, 'src'))).toBe(projectDir);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  countTokens,
+  countDefinitionTokens,
+  getTokenizer,
+  listTokenizers,
+  setDefaultTokenizer
+} from '../../src/utils/tokenizer.js';
+
+const SCHEMA = '{"name":"get_time","description":"Returns the current time"}';
+
+describe('tokenizer', () => {
+  afterEach(() => {
+    setDefaultTokenizer();
+  });
+
+  it('should grow with the length of the text', () => {
+    expect(countTokens('')).toBe(0);
+    expect(countTokens('{"name":"get_time"}')).toBeLessThan(countTokens(SCHEMA));
+  });
+
+  it('should count with every bundled tokenizer', () => {
+    expect(listTokenizers().map(t => t.id)).toEqual(['claude', 'o200k', 'cl100k', 'chars']);
+
+    expect(countTokens(SCHEMA, getTokenizer('o200k'))).toBe(13);
+    expect(countTokens(SCHEMA, getTokenizer('chars'))).toBe(Math.ceil(SCHEMA.length / 4));
+    for (const tokenizer of listTokenizers()) {
+      expect(countTokens(SCHEMA, tokenizer)).toBeGreaterThan(0);
+    }
+  });
+
+  it('should use the default tokenizer unless one is passed', () => {
+    expect(getTokenizer().id).toBe('claude');
+
+    setDefaultTokenizer('CHARS');
+    expect(getTokenizer().id).toBe('chars');
+    expect(countTokens(SCHEMA)).toBe(Math.ceil(SCHEMA.length / 4));
+  });
+
+  it('should reject unknown tokenizers', () => {
+    expect(() => getTokenizer('gpt2')).toThrow('Unknown tokenizer: gpt2');
+    expect(() => setDefaultTokenizer('gpt2')).toThrow('Available tokenizers: claude, o200k, cl100k, chars');
+    expect(getTokenizer().id).toBe('claude');
+  });
+
+  it('should count tools, prompts and resources separately', () => {
+    const definitions = {
+      tools: [JSON.parse(SCHEMA)],
+      prompts: [],
+      resources: [{ name: 'readme', uri: 'file:///README.md' }]
+    };
+    const result = countDefinitionTokens(definitions, getTokenizer('chars'));
+
+    expect(result.promptTokens).toBe(0);
+    expect(result.toolTokens).toBe(Math.ceil(JSON.stringify(definitions.tools).length / 4));
+    expect(result.tokens).toBe(result.toolTokens + result.resourceTokens);
+  });
+});
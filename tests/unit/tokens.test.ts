@@ -1,4 +1,5 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import os from 'os';
 import {
   estimateServerTokens,
   estimateServerTools,
@@ -6,9 +7,31 @@ import {
   getTokenImpactDescription,
   calculateSavings,
 } from '../../src/utils/tokens.js';
-import { mockServer } from '../helpers/test-utils.js';
+import { resetCatalogCache, useProjectCatalog } from '../../src/utils/catalog.js';
+import { resetMeasurementCache } from '../../src/utils/measurement-cache.js';
+import { createTempDir, cleanupTempDir, mockServer, mockRemoteServer } from '../helpers/test-utils.js';
 
 describe('tokens', () => {
+  let tempDir: string;
+  let homedirSpy: any;
+
+  // Estimates read the measurement cache and catalogs, so keep them off this machine's files
+  beforeEach(() => {
+    tempDir = createTempDir('tokens-test-');
+    homedirSpy = vi.spyOn(os, 'homedir').mockReturnValue(tempDir);
+    useProjectCatalog(tempDir);
+    resetCatalogCache();
+    resetMeasurementCache();
+  });
+
+  afterEach(() => {
+    useProjectCatalog(undefined);
+    homedirSpy.mockRestore();
+    resetCatalogCache();
+    resetMeasurementCache();
+    cleanupTempDir(tempDir);
+  });
+
   describe('estimateServerTokens', () => {
     it('should return correct tokens for known servers', () => {
       expect(estimateServerTokens('canvas-mcp-server', mockServer('npx'))).toBe(78000);
@@ -59,6 +82,12 @@ describe('tokens', () => {
       expect(estimateServerTokens('completely-unknown', mockServer('node script.js'))).toBe(defaultEstimate);
     });
 
+    it('should estimate remote servers from their URL', () => {
+      expect(estimateServerTokens('work', mockRemoteServer('https://api.githubcopilot.com/mcp/'))).toBe(15000);
+      // The scheme alone says nothing about the server
+      expect(estimateServerTokens('internal', mockRemoteServer('https://mcp.internal.example.com/mcp'))).toBe(500 + (5 * 150));
+    });
+
     it('should handle servers without command', () => {
       const server = mockServer('');
       server.command = undefined as any;
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { VSCodeAdapter } from '../../src/adapters/vscode.js';
+import { resolveScopeInfo } from '../../src/utils/scope.js';
+import { planServerSelection } from '../../src/utils/selection.js';
+import { createTempDir, cleanupTempDir, mockServer } from '../helpers/test-utils.js';
+import { estimateServerTokens } from '../../src/utils/tokens.js';
+
+// Test-friendly subclass that allows path overriding
+class TestVSCodeAdapter extends VSCodeAdapter {
+  constructor(userDir: string, backupDir: string) {
+    super();
+    this.configPath = path.join(userDir, 'mcp.json');
+    this.disabledConfigPath = path.join(userDir, 'mcp-disabled.json');
+    this.backupDir = backupDir;
+  }
+}
+
+const USER_MCP = `{
+  // Prompted secrets
+  "inputs": [
+    { "type": "promptString", "id": "github-token", "description": "GitHub token", "password": true }
+  ],
+  "servers": {
+    "github": {
+      "command": "npx",
+      "args": ["-y", "@modelcontextprotocol/server-github"],
+      "env": { "GITHUB_TOKEN": "\${input:github-token}" }
+    },
+    "remote-docs": {
+      "type": "http",
+      "url": "https://docs.example.com/mcp"
+    }
+  }
+}
+`;
+
+describe('VSCodeAdapter', () => {
+  let adapter: TestVSCodeAdapter;
+  let tempDir: string;
+  let userDir: string;
+  let projectDir: string;
+
+  beforeEach(() => {
+    tempDir = createTempDir('vscode-test-');
+    userDir = path.join(tempDir, 'Code', 'User');
+    projectDir = path.join(tempDir, 'project');
+    fs.mkdirSync(userDir, { recursive: true });
+    fs.mkdirSync(projectDir, { recursive: true });
+
+    adapter = new TestVSCodeAdapter(userDir, path.join(tempDir, 'backups'));
+    fs.writeFileSync(path.join(userDir, 'mcp.json'), USER_MCP);
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  describe('user scope', () => {
+    it('should load stdio and remote servers', () => {
+      const config = adapter.loadConfig();
+
+      expect(Object.keys(config.enabled)).toEqual(['github', 'remote-docs']);
+      expect(config.enabled['remote-docs'].url).toBe('https://docs.example.com/mcp');
+      expect(config.enabled['remote-docs'].command).toBeUndefined();
+    });
+
+    it('should estimate tokens for servers without a command', () => {
+      const config = adapter.loadConfig();
+      expect(() => estimateServerTokens('remote-docs', config.enabled['remote-docs'])).not.toThrow();
+    });
+
+    it('should keep inputs and comments when saving', () => {
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'remote-docs'));
+
+      const raw = fs.readFileSync(path.join(userDir, 'mcp.json'), 'utf-8');
+      expect(raw).toContain('// Prompted secrets');
+      expect(raw).toContain('"id": "github-token"');
+      expect(raw).not.toContain('remote-docs');
+
+      const disabled = JSON.parse(fs.readFileSync(path.join(userDir, 'mcp-disabled.json'), 'utf-8'));
+      expect(disabled.servers['remote-docs'].type).toBe('http');
+    });
+
+    it('should write references as they are without running them', () => {
+      const marker = path.join(tempDir, 'ran');
+
+      const config = adapter.loadConfig();
+      config.enabled.github.env = { GITHUB_TOKEN: '${env:GITHUB_TOKEN}', OTHER_TOKEN: `\${cmd:touch ${marker}}` };
+      adapter.saveConfig(config);
+
+      expect(adapter.loadConfig().enabled.github.env).toEqual({ GITHUB_TOKEN: '${env:GITHUB_TOKEN}', OTHER_TOKEN: `\${cmd:touch ${marker}}` });
+      expect(fs.existsSync(marker)).toBe(false);
+    });
+
+    it('should treat a missing user mcp.json as empty', () => {
+      fs.unlinkSync(path.join(userDir, 'mcp.json'));
+
+      const config = adapter.loadConfig();
+      expect(config.enabled).toEqual({});
+    });
+  });
+
+  describe('project scope', () => {
+    const projectConfigPath = () => path.join(projectDir, '.vscode', 'mcp.json');
+
+    beforeEach(() => {
+      fs.mkdirSync(path.join(projectDir, '.vscode'), { recursive: true });
+      fs.writeFileSync(projectConfigPath(), JSON.stringify({
+        servers: {
+          puppeteer: mockServer('npx', { args: ['-y', '@modelcontextprotocol/server-puppeteer'] }),
+          github: mockServer('docker', { args: ['run', 'ghcr.io/github/github-mcp-server'] })
+        }
+      }, null, 2));
+    });
+
+    it('should support project scope', () => {
+      expect(adapter.supportsProjectScope()).toBe(true);
+      expect(adapter.loadProjectConfig(projectDir)?.enabled).toHaveProperty('puppeteer');
+    });
+
+    it('should remove a new mcp.json when saving it fails', () => {
+      const workspace = path.join(tempDir, 'fresh');
+      // A directory in place of the sidecar makes its write fail
+      fs.mkdirSync(path.join(workspace, '.vscode', 'mcp-disabled.json'), { recursive: true });
+
+      expect(() => adapter.saveProjectConfig(workspace, {
+        enabled: { puppeteer: mockServer('npx') },
+        disabled: { github: mockServer('docker') }
+      })).toThrow(/^Failed to save VS Code MCP config: /);
+      expect(fs.existsSync(path.join(workspace, '.vscode', 'mcp.json'))).toBe(false);
+    });
+
+    it('should return null when the workspace has no mcp.json', () => {
+      expect(adapter.loadProjectConfig(path.join(tempDir, 'other'))).toBeNull();
+    });
+
+    it('should merge workspace servers over user servers', () => {
+      const merged = adapter.getMergedConfig(projectDir);
+
+      expect(merged.scope).toBe('project');
+      expect(merged.inheritance).toEqual({
+        inherited: ['remote-docs'],
+        overridden: ['github'],
+        additions: ['puppeteer'],
+        sources: { 'remote-docs': 'user', github: 'project', puppeteer: 'project' }
+      });
+      expect(merged.enabled.github.command).toBe('docker');
+    });
+
+    it('should not treat inherited servers in the workspace sidecar as disabled', () => {
+      const projectConfig = adapter.loadProjectConfig(projectDir)!;
+      projectConfig.disabled['remote-docs'] = adapter.loadConfig().enabled['remote-docs'];
+      adapter.saveProjectConfig(projectDir, projectConfig);
+
+      // VS Code still runs user-level servers, whatever the workspace sidecar says
+      const merged = adapter.getMergedConfig(projectDir);
+      expect(merged.enabled).toHaveProperty('remote-docs');
+      expect(merged.disabled).not.toHaveProperty('remote-docs');
+    });
+
+    it('should keep user-level servers enabled when a selection leaves them out', () => {
+      const merged = adapter.getMergedConfig(projectDir);
+      const plan = planServerSelection(adapter, merged, new Set(['puppeteer']));
+
+      expect(plan.toDisable).toEqual([]);
+      expect(plan.locked).toEqual(['github', 'remote-docs']);
+      expect(plan.newConfig.enabled).toHaveProperty('remote-docs');
+    });
+
+    it('should create .vscode/mcp.json for a new project', () => {
+      const newProject = path.join(tempDir, 'new-project');
+      fs.mkdirSync(newProject);
+
+      adapter.saveProjectConfig(newProject, {
+        enabled: { time: mockServer('uvx', { args: ['mcp-server-time'] }) },
+        disabled: {}
+      });
+
+      const saved = JSON.parse(fs.readFileSync(path.join(newProject, '.vscode', 'mcp.json'), 'utf-8'));
+      expect(saved.servers.time.command).toBe('uvx');
+    });
+
+    it('should detect the project root from a subdirectory', () => {
+      const nested = path.join(projectDir, 'src', 'lib');
+      fs.mkdirSync(nested, { recursive: true });
+
+      expect(adapter.detectProjectRoot(nested)).toBe(projectDir);
+
+      const scopeInfo = resolveScopeInfo('auto', nested, adapter);
+      expect(scopeInfo.scope).toBe('project');
+      expect(scopeInfo.projectPath).toBe(projectDir);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { WindsurfAdapter, type WindsurfDisabledStrategy } from '../../src/adapters/windsurf.js';
+import { createTempDir, cleanupTempDir, mockServer } from '../helpers/test-utils.js';
+
+// Test-friendly subclass that allows path overriding
+class TestWindsurfAdapter extends WindsurfAdapter {
+  constructor(configPath: string, disabledConfigPath: string, backupDir: string, strategy?: WindsurfDisabledStrategy) {
+    super(strategy);
+    this.configPath = configPath;
+    this.disabledConfigPath = disabledConfigPath;
+    this.backupDir = backupDir;
+  }
+}
+
+describe('WindsurfAdapter', () => {
+  let tempDir: string;
+  let configPath: string;
+  let disabledConfigPath: string;
+  let backupDir: string;
+
+  const initialConfig = {
+    mcpServers: {
+      github: mockServer('npx', { args: ['-y', '@modelcontextprotocol/server-github'] }),
+      notion: mockServer('npx', { args: ['-y', '@notionhq/notion-mcp-server'], disabled: true }),
+      time: mockServer('uvx', { args: ['mcp-server-time'], disabledTools: ['convert_time'] })
+    }
+  };
+
+  beforeEach(() => {
+    tempDir = createTempDir('windsurf-test-');
+    const windsurfDir = path.join(tempDir, '.codeium', 'windsurf');
+    fs.mkdirSync(windsurfDir, { recursive: true });
+
+    configPath = path.join(windsurfDir, 'mcp_config.json');
+    disabledConfigPath = path.join(windsurfDir, 'mcp-disabled.json');
+    backupDir = path.join(tempDir, '.claude-mcp-backups', 'windsurf');
+
+    fs.writeFileSync(configPath, JSON.stringify(initialConfig, null, 2));
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  describe('native strategy', () => {
+    let adapter: TestWindsurfAdapter;
+
+    beforeEach(() => {
+      adapter = new TestWindsurfAdapter(configPath, disabledConfigPath, backupDir);
+    });
+
+    it('should detect mcp_config.json', () => {
+      expect(adapter.detect()).toBe(true);
+    });
+
+    it('should treat disabled: true servers as disabled', () => {
+      const config = adapter.loadConfig();
+
+      expect(Object.keys(config.enabled)).toEqual(['github', 'time']);
+      expect(Object.keys(config.disabled)).toEqual(['notion']);
+      expect(config.disabled.notion.disabled).toBeUndefined();
+    });
+
+    it('should toggle the native flag in place', () => {
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'github'));
+
+      const saved = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      expect(Object.keys(saved.mcpServers)).toEqual(['github', 'notion', 'time']);
+      expect(saved.mcpServers.github.disabled).toBe(true);
+      expect(fs.existsSync(disabledConfigPath)).toBe(false);
+    });
+
+    it('should remove the flag when enabling', () => {
+      adapter.saveConfig(adapter.enableServer(adapter.loadConfig(), 'notion'));
+
+      const saved = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      expect(saved.mcpServers.notion.disabled).toBeUndefined();
+      expect(saved.mcpServers.notion.args).toEqual(['-y', '@notionhq/notion-mcp-server']);
+    });
+
+    it('should preserve other per-server fields', () => {
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'time'));
+
+      const saved = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      expect(saved.mcpServers.time.disabledTools).toEqual(['convert_time']);
+    });
+  });
+
+  describe('remote servers', () => {
+    beforeEach(() => {
+      const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      config.mcpServers.docs = { serverUrl: 'https://docs.example.com/mcp', headers: { 'X-Team': 'core' } };
+      fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+    });
+
+    it('should map serverUrl to url and back', () => {
+      const adapter = new TestWindsurfAdapter(configPath, disabledConfigPath, backupDir);
+      const config = adapter.loadConfig();
+
+      expect(config.enabled.docs).toEqual({ url: 'https://docs.example.com/mcp', headers: { 'X-Team': 'core' } });
+
+      adapter.saveConfig(adapter.disableServer(config, 'docs'));
+      const saved = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      expect(saved.mcpServers.docs).toEqual({ serverUrl: 'https://docs.example.com/mcp', headers: { 'X-Team': 'core' }, disabled: true });
+    });
+  });
+
+  describe('sidecar strategy', () => {
+    let adapter: TestWindsurfAdapter;
+
+    beforeEach(() => {
+      adapter = new TestWindsurfAdapter(configPath, disabledConfigPath, backupDir, 'sidecar');
+    });
+
+    it('should move disabled servers to the sidecar file', () => {
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'github'));
+
+      const saved = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      const sidecar = JSON.parse(fs.readFileSync(disabledConfigPath, 'utf-8'));
+
+      expect(Object.keys(saved.mcpServers)).toEqual(['time']);
+      expect(Object.keys(sidecar.mcpServers)).toEqual(['notion', 'github']);
+      expect(sidecar.mcpServers.github.disabled).toBeUndefined();
+    });
+
+    it('should read servers from both the sidecar and native flags', () => {
+      fs.writeFileSync(disabledConfigPath, JSON.stringify({ mcpServers: { slack: mockServer('npx slack') } }));
+
+      const config = adapter.loadConfig();
+      expect(Object.keys(config.disabled).sort()).toEqual(['notion', 'slack']);
+    });
+
+    it('should be selectable after construction', () => {
+      const native = new TestWindsurfAdapter(configPath, disabledConfigPath, backupDir);
+      native.setDisabledStrategy('sidecar');
+      native.saveConfig(native.disableServer(native.loadConfig(), 'github'));
+
+      expect(fs.existsSync(disabledConfigPath)).toBe(true);
+      expect(() => native.setDisabledStrategy('flag')).toThrow(/Unknown Windsurf disabled strategy/);
+    });
+
+    it('should delete the sidecar when nothing is disabled', () => {
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'github'));
+      let config = adapter.loadConfig();
+      config = adapter.enableServer(config, 'github');
+      config = adapter.enableServer(config, 'notion');
+      adapter.saveConfig(config);
+
+      expect(fs.existsSync(disabledConfigPath)).toBe(false);
+    });
+  });
+
+  it('should create a backup before saving', () => {
+    const adapter = new TestWindsurfAdapter(configPath, disabledConfigPath, backupDir);
+    adapter.saveConfig(adapter.loadConfig());
+
+    const backups = fs.readdirSync(backupDir);
+    expect(backups.some(f => f.startsWith('windsurf-'))).toBe(true);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { ZedAdapter, fromZedServer, toZedServer } from '../../src/adapters/zed.js';
+import { createTempDir, cleanupTempDir } from '../helpers/test-utils.js';
+import { estimateServerTokens } from '../../src/utils/tokens.js';
+
+// Test-friendly subclass that allows path overriding
+class TestZedAdapter extends ZedAdapter {
+  constructor(configPath: string, disabledConfigPath: string, backupDir: string) {
+    super();
+    this.configPath = configPath;
+    this.disabledConfigPath = disabledConfigPath;
+    this.backupDir = backupDir;
+  }
+}
+
+const SETTINGS = `// Zed settings
+{
+  "theme": "One Dark",
+  "context_servers": {
+    // GitHub tools
+    "github": {
+      "command": {
+        "path": "npx",
+        "args": ["-y", "@modelcontextprotocol/server-github"],
+        "env": { "GITHUB_TOKEN": "test-token" }
+      },
+      "settings": {}
+    },
+    "notion": {
+      "source": "custom",
+      "command": "npx",
+      "args": ["-y", "@notionhq/notion-mcp-server"],
+    },
+  },
+}
+`;
+
+describe('ZedAdapter', () => {
+  let adapter: TestZedAdapter;
+  let tempDir: string;
+  let configPath: string;
+  let disabledConfigPath: string;
+
+  beforeEach(() => {
+    tempDir = createTempDir('zed-test-');
+    const zedDir = path.join(tempDir, '.config', 'zed');
+    fs.mkdirSync(zedDir, { recursive: true });
+
+    configPath = path.join(zedDir, 'settings.json');
+    disabledConfigPath = path.join(zedDir, 'mcp-disabled.json');
+
+    adapter = new TestZedAdapter(configPath, disabledConfigPath, path.join(tempDir, 'backups'));
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  describe('detect', () => {
+    it('should return false when settings file does not exist', () => {
+      expect(adapter.detect()).toBe(false);
+    });
+
+    it('should detect settings with comments and trailing commas', () => {
+      fs.writeFileSync(configPath, SETTINGS);
+      expect(adapter.detect()).toBe(true);
+    });
+
+    it('should return false when context_servers is not configured', () => {
+      fs.writeFileSync(configPath, '// empty\n{ "theme": "One Dark" }');
+      expect(adapter.detect()).toBe(false);
+    });
+  });
+
+  describe('loadConfig', () => {
+    it('should flatten nested command objects', () => {
+      fs.writeFileSync(configPath, SETTINGS);
+
+      const config = adapter.loadConfig();
+
+      expect(config.enabled.github.command).toBe('npx');
+      expect(config.enabled.github.args).toEqual(['-y', '@modelcontextprotocol/server-github']);
+      expect(config.enabled.github.env).toEqual({ GITHUB_TOKEN: 'test-token' });
+      expect(config.enabled.github.settings).toEqual({});
+      expect(config.enabled.notion.command).toBe('npx');
+    });
+
+    it('should keep token estimates working for nested servers', () => {
+      const settings = { context_servers: { 'my-gh': { command: { path: '/usr/local/bin/github-mcp-server', args: ['stdio'] } } } };
+      fs.writeFileSync(configPath, JSON.stringify(settings));
+
+      const config = adapter.loadConfig();
+
+      expect(estimateServerTokens('my-gh', config.enabled['my-gh'])).toBe(15000);
+    });
+  });
+
+  describe('saveConfig', () => {
+    beforeEach(() => {
+      fs.writeFileSync(configPath, SETTINGS);
+    });
+
+    it('should move disabled servers to the separate file in Zed shape', () => {
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'github'));
+
+      const disabled = JSON.parse(fs.readFileSync(disabledConfigPath, 'utf-8'));
+      expect(disabled.context_servers.github.command.path).toBe('npx');
+
+      const reloaded = adapter.loadConfig();
+      expect(Object.keys(reloaded.enabled)).toEqual(['notion']);
+      expect(reloaded.disabled.github.command).toBe('npx');
+    });
+
+    it('should preserve comments and unrelated settings', () => {
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'notion'));
+
+      const raw = fs.readFileSync(configPath, 'utf-8');
+      expect(raw).toContain('// Zed settings');
+      expect(raw).toContain('// GitHub tools');
+      expect(raw).toContain('"theme": "One Dark"');
+      expect(raw).not.toContain('notion-mcp-server');
+    });
+
+    it('should restore nested shape when re-enabling', () => {
+      adapter.saveConfig(adapter.disableServer(adapter.loadConfig(), 'github'));
+      adapter.saveConfig(adapter.enableServer(adapter.loadConfig(), 'github'));
+
+      const raw = fs.readFileSync(configPath, 'utf-8');
+      expect(raw).toContain('"path": "npx"');
+      expect(adapter.loadConfig().enabled.github.env).toEqual({ GITHUB_TOKEN: 'test-token' });
+      expect(fs.existsSync(disabledConfigPath)).toBe(false);
+    });
+
+    it('should keep flat servers flat', () => {
+      const config = adapter.loadConfig();
+      config.enabled.notion.args = ['-y', '@notionhq/notion-mcp-server@latest'];
+      adapter.saveConfig(config);
+
+      const raw = fs.readFileSync(configPath, 'utf-8');
+      expect(raw).toContain('"source": "custom"');
+      expect(raw).not.toMatch(/"notion": \{\s*"source": "custom",\s*"command": \{/);
+    });
+  });
+
+  describe('server shape mapping', () => {
+    it('should round-trip nested servers', () => {
+      const zed = { command: { path: 'node', args: ['server.js'], env: { A: '1' } }, settings: { x: 1 } };
+      expect(toZedServer(fromZedServer(zed))).toEqual(zed);
+    });
+
+    it('should leave remote servers untouched', () => {
+      const remote = { url: 'https://example.com/mcp' };
+      expect(toZedServer(fromZedServer(remote) as any)).toEqual(remote);
+    });
+  });
+});